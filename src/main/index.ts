@@ -3,8 +3,12 @@
  * Entry point for the Studio Tool desktop application
  */
 
-import { app, BrowserWindow } from 'electron';
+import { app, BrowserWindow, ipcMain } from 'electron';
 import { join } from 'path';
+import { getExtensionRegistry } from '@/modules/extensions';
+import { createElectronDialogs } from './ipc/dialogs';
+import { createStudioEventSender } from './ipc/events';
+import { createStudioHandlers, registerStudioHandlers } from './ipc/handlers';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -45,6 +49,19 @@ function createWindow() {
 
 // App lifecycle
 app.whenReady().then(() => {
+  const events = createStudioEventSender(() => mainWindow?.webContents ?? null);
+  getExtensionRegistry({ appVersion: app.getVersion() }).on('changed', (change) =>
+    events('registry:changed', change)
+  );
+
+  registerStudioHandlers(
+    ipcMain,
+    createStudioHandlers({
+      dialogs: createElectronDialogs(() => mainWindow),
+      appVersion: app.getVersion(),
+      events,
+    })
+  );
   createWindow();
 
   app.on('activate', () => {
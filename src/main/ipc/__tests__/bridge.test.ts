@@ -0,0 +1,218 @@
+/**
+ * Tests for the preload surface and event sender generated from the IPC contract
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { IPC_CONTRACT_VERSION, STUDIO_CHANNELS } from '@/shared/ipc/contract';
+import { createStudioBridge } from '../bridge';
+import type { StudioIpcRenderer } from '../bridge';
+import { createStudioEventSender } from '../events';
+import type { StudioEvents } from '@/shared/types';
+
+/**
+ * `ipcRenderer` stand-in: main-process events are emitted with an event
+ * object first, like Electron does
+ */
+function createIpcRenderer() {
+  const ipcRenderer = Object.assign(new EventEmitter(), {
+    invoke: vi.fn(async () => ({ ok: true, data: null })),
+  });
+  return ipcRenderer as typeof ipcRenderer & StudioIpcRenderer;
+}
+
+const progress = { path: '/a.png', loaded: 1, total: 2 };
+
+describe('createStudioBridge', () => {
+  it('should expose one method per contract channel', () => {
+    const bridge = createStudioBridge(createIpcRenderer());
+
+    for (const { method } of Object.values(STUDIO_CHANNELS)) {
+      expect(bridge).toHaveProperty(method, expect.any(Function));
+    }
+    expect(bridge.contractVersion).toBe(IPC_CONTRACT_VERSION);
+  });
+
+  it('should send payloads in a versioned envelope', async () => {
+    const ipcRenderer = createIpcRenderer();
+    const bridge = createStudioBridge(ipcRenderer);
+
+    await bridge.loadExtension('/work/pack.ldip');
+    await bridge.selectFolder();
+
+    expect(ipcRenderer.invoke).toHaveBeenCalledWith('extension:load', {
+      version: IPC_CONTRACT_VERSION,
+      payload: '/work/pack.ldip',
+    });
+    expect(ipcRenderer.invoke).toHaveBeenCalledWith('dialog:selectFolder', {
+      version: IPC_CONTRACT_VERSION,
+      payload: undefined,
+    });
+  });
+
+  it('should only subscribe to contract event channels', () => {
+    const ipcRenderer = createIpcRenderer();
+    const bridge = createStudioBridge(ipcRenderer);
+    const listener = vi.fn();
+
+    bridge.on('cloud:uploadProgress', listener);
+    ipcRenderer.emit('cloud:uploadProgress', {}, progress);
+
+    expect(listener).toHaveBeenCalledWith(progress);
+    expect(() =>
+      bridge.on('extension:load' as keyof StudioEvents, vi.fn())
+    ).toThrow('Unknown event channel: extension:load');
+    expect(ipcRenderer.listenerCount('extension:load')).toBe(0);
+  });
+
+  it('should end a subscription with its handle', () => {
+    const ipcRenderer = createIpcRenderer();
+    const bridge = createStudioBridge(ipcRenderer);
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const unsubscribe = bridge.on('cloud:uploadProgress', first);
+    bridge.on('cloud:uploadProgress', second);
+    unsubscribe();
+    unsubscribe();
+    ipcRenderer.emit('cloud:uploadProgress', {}, progress);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(ipcRenderer.listenerCount('cloud:uploadProgress')).toBe(1);
+  });
+
+  it('should end every subscription of a callback with off', () => {
+    const ipcRenderer = createIpcRenderer();
+    const bridge = createStudioBridge(ipcRenderer);
+    const listener = vi.fn();
+    const other = vi.fn();
+
+    bridge.on('cloud:uploadProgress', listener);
+    bridge.on('cloud:uploadProgress', listener);
+    bridge.on('cloud:uploadProgress', other);
+    bridge.on('package:buildProgress', listener);
+    bridge.off('cloud:uploadProgress', listener);
+    ipcRenderer.emit('cloud:uploadProgress', {}, progress);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(other).toHaveBeenCalledTimes(1);
+    expect(ipcRenderer.listenerCount('cloud:uploadProgress')).toBe(1);
+    expect(ipcRenderer.listenerCount('package:buildProgress')).toBe(1);
+    expect(() =>
+      bridge.off('extension:load' as keyof StudioEvents, listener)
+    ).toThrow('Unknown event channel: extension:load');
+  });
+
+  it('should keep subscriptions of the same callback apart', () => {
+    const ipcRenderer = createIpcRenderer();
+    const bridge = createStudioBridge(ipcRenderer);
+    const listener = vi.fn();
+
+    // Across the context bridge both calls would pass a different proxy anyway
+    const first = bridge.on('cloud:uploadProgress', listener);
+    const second = bridge.on('cloud:uploadProgress', listener);
+    first();
+    ipcRenderer.emit('cloud:uploadProgress', {}, progress);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    second();
+    expect(ipcRenderer.listenerCount('cloud:uploadProgress')).toBe(0);
+  });
+
+  it('should keep calling listeners after one throws', () => {
+    const ipcRenderer = createIpcRenderer();
+    const bridge = createStudioBridge(ipcRenderer);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+
+    bridge.on('cloud:uploadProgress', () => {
+      throw new Error('unmounted');
+    });
+    bridge.on('cloud:uploadProgress', listener);
+    ipcRenderer.emit('cloud:uploadProgress', {}, progress);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should remove every listener of a channel or of all channels', () => {
+    const ipcRenderer = createIpcRenderer();
+    const bridge = createStudioBridge(ipcRenderer);
+    bridge.on('cloud:uploadProgress', vi.fn());
+    bridge.on('cloud:uploadProgress', vi.fn());
+    bridge.on('registry:changed', vi.fn());
+
+    bridge.removeAllListeners('cloud:uploadProgress');
+    expect(ipcRenderer.listenerCount('cloud:uploadProgress')).toBe(0);
+    expect(ipcRenderer.listenerCount('registry:changed')).toBe(1);
+
+    bridge.removeAllListeners();
+    expect(ipcRenderer.listenerCount('registry:changed')).toBe(0);
+  });
+
+  it('should drop listeners left behind by a previous page', () => {
+    const ipcRenderer = createIpcRenderer();
+    const stale = vi.fn();
+    createStudioBridge(ipcRenderer).on('cloud:uploadProgress', stale);
+
+    // The preload script runs again when the window reloads
+    createStudioBridge(ipcRenderer);
+    ipcRenderer.emit('cloud:uploadProgress', {}, progress);
+
+    expect(stale).not.toHaveBeenCalled();
+  });
+});
+
+describe('createStudioEventSender', () => {
+  it('should send valid events and refuse payloads that break the contract', () => {
+    const target = { send: vi.fn(), isDestroyed: () => false };
+    const send = createStudioEventSender(() => target);
+
+    send('package:buildProgress', { path: '/out.ldip', stage: 'writing' });
+    expect(target.send).toHaveBeenCalledWith('package:buildProgress', {
+      path: '/out.ldip',
+      stage: 'writing',
+    });
+
+    expect(() =>
+      send('package:buildProgress', {
+        path: '/out.ldip',
+        stage: 'uploading',
+      } as unknown as StudioEvents['package:buildProgress'])
+    ).toThrow(/Invalid payload for event package:buildProgress/);
+    expect(target.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send registry changes', () => {
+    const target = { send: vi.fn(), isDestroyed: () => false };
+    const send = createStudioEventSender(() => target);
+
+    send('registry:changed', {
+      extensionId: 'com.example.pack',
+      change: 'enabled',
+      version: '1.0.0',
+    });
+    expect(target.send).toHaveBeenCalledWith('registry:changed', {
+      extensionId: 'com.example.pack',
+      change: 'enabled',
+      version: '1.0.0',
+    });
+
+    expect(() =>
+      send('registry:changed', {
+        extensionId: 'com.example.pack',
+        change: 'deleted',
+      } as unknown as StudioEvents['registry:changed'])
+    ).toThrow(/Invalid payload for event registry:changed/);
+  });
+
+  it('should drop events while there is no window', () => {
+    const send = createStudioEventSender(() => null);
+
+    expect(() =>
+      send('package:buildProgress', { path: '/out.ldip', stage: 'done' })
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Tests for the main-process studio IPC handlers
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { ImageVariantGenerator } from '@/shared/services/ImageVariantGenerator';
+import { ManifestGenerator } from '@/shared/services/ManifestGenerator';
+import type { PackageData } from '@/shared/services/PackageBuilder';
+import { IPC_CONTRACT_VERSION } from '@/shared/ipc/contract';
+import {
+  createStudioHandlers,
+  handleStudioMessage,
+  invokeStudioHandler,
+  registerStudioHandlers,
+} from '../handlers';
+import type { StudioDialogs, StudioHandlers } from '../handlers';
+import { PathGrants } from '../pathGrants';
+
+const generator = new ManifestGenerator();
+
+function createPackageData(): PackageData {
+  return {
+    manifest: generator.createTemplatePackManifest(
+      'com.example.ipc',
+      'IPC Pack',
+      'Author',
+      'author@example.com'
+    ),
+    scripts: [{ name: 'main.js', content: 'export default {};' }],
+  };
+}
+
+describe('studio IPC handlers', () => {
+  let dir: string;
+  let dialogs: StudioDialogs;
+  let paths: PathGrants;
+  let handlers: StudioHandlers;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'studio-ipc-'));
+    dialogs = {
+      openFile: vi.fn(async () => join(dir, 'picked.ldip')),
+      openFolder: vi.fn(async () => dir),
+      saveFile: vi.fn(async () => join(dir, 'chosen.ldip')),
+    };
+    // As if the user had picked the folder as their project
+    paths = new PathGrants();
+    paths.grantFolder(dir);
+    handlers = createStudioHandlers({ dialogs, appVersion: '1.0.0', paths });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should save an extension and load it back', async () => {
+    const path = join(dir, 'draft.ldip');
+
+    const saved = await invokeStudioHandler(handlers, 'extension:save', {
+      path,
+      data: createPackageData(),
+    });
+    expect(saved.ok).toBe(true);
+
+    const loaded = await invokeStudioHandler(handlers, 'extension:load', path);
+    expect(loaded.ok && loaded.data.data.manifest.metadata.id).toBe('com.example.ipc');
+    expect(loaded.ok && loaded.data.data.scripts).toEqual([
+      { name: 'main.js', content: 'export default {};' },
+    ]);
+  });
+
+  it('should reject invalid payloads before running a handler', async () => {
+    const save = vi.spyOn(handlers, 'extension:save');
+
+    const result = await invokeStudioHandler(handlers, 'extension:save', {
+      path: join(dir, 'draft.ldip'),
+      data: { ...createPackageData(), scripts: [{ name: '../escape.js', content: '' }] },
+    });
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'INVALID_PAYLOAD' } });
+    expect(!result.ok && result.error.details).toEqual([
+      'payload/data/scripts/0/name Unsafe path in package (parent directory reference): ' +
+        'scripts/../escape.js',
+    ]);
+    expect(save).not.toHaveBeenCalled();
+
+    const extra = await invokeStudioHandler(handlers, 'dialog:selectFolder', { channel: 'x' });
+    expect(extra).toMatchObject({ ok: false, error: { code: 'INVALID_PAYLOAD' } });
+  });
+
+  it('should report missing files and malformed packages as structured errors', async () => {
+    const missing = await invokeStudioHandler(handlers, 'extension:load', join(dir, 'none.ldip'));
+    expect(missing).toMatchObject({ ok: false, error: { code: 'NOT_FOUND' } });
+
+    const corrupt = join(dir, 'corrupt.ldip');
+    await writeFile(corrupt, 'not a zip');
+    const malformed = await invokeStudioHandler(handlers, 'extension:load', corrupt);
+    expect(malformed).toMatchObject({ ok: false, error: { code: 'MALFORMED_ARCHIVE' } });
+  });
+
+  it('should validate manifests without crashing on malformed input', async () => {
+    const valid = await invokeStudioHandler(
+      handlers,
+      'extension:validateManifest',
+      createPackageData().manifest
+    );
+    expect(valid).toMatchObject({ ok: true, data: { valid: true } });
+
+    const malformed = await invokeStudioHandler(handlers, 'extension:validateManifest', {
+      metadata: 'broken',
+    });
+    expect(malformed).toMatchObject({ ok: true, data: { valid: false } });
+  });
+
+  it('should build a package at the path chosen in the save dialog', async () => {
+    const result = await invokeStudioHandler(handlers, 'package:build', {
+      data: createPackageData(),
+    });
+
+    expect(dialogs.saveFile).toHaveBeenCalledWith(
+      expect.objectContaining({ defaultPath: 'com.example.ipc-1.0.0.ldip' })
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok || !result.data) return;
+
+    const bytes = await readFile(join(dir, 'chosen.ldip'));
+    expect(result.data.size).toBe(bytes.length);
+    expect(result.data.checksum).toBe(createHash('sha256').update(bytes).digest('hex'));
+    expect(result.data.validation).toMatchObject({ valid: true, signature: 'unsigned' });
+  });
+
+  it('should return null when the build dialog is cancelled', async () => {
+    vi.mocked(dialogs.saveFile).mockResolvedValueOnce(null);
+
+    const result = await invokeStudioHandler(handlers, 'package:build', {
+      data: createPackageData(),
+    });
+
+    expect(result).toEqual({ ok: true, data: null });
+  });
+
+  it('should refuse to build a package with an invalid manifest', async () => {
+    const data = createPackageData();
+    data.manifest.requirements.minAppVersion = '9.0.0';
+
+    const result = await invokeStudioHandler(handlers, 'package:build', {
+      data,
+      outputPath: join(dir, 'out.ldip'),
+    });
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'MANIFEST_INVALID' } });
+    expect(!result.ok && result.error.details?.[0]).toMatch(/Incompatible app version/);
+  });
+
+  it('should upload a resource and describe it without the signed query', async () => {
+    const path = join(dir, 'photo.png');
+    await writeFile(path, 'png-bytes');
+    const fetch = vi.fn(async () => new Response(null, { status: 200 }));
+    handlers = createStudioHandlers({ dialogs, appVersion: '1.0.0', paths, fetch });
+
+    const result = await invokeStudioHandler(handlers, 'cloud:uploadResource', {
+      path,
+      uploadUrl: 'https://cdn.example.com/pack/photo.png?X-Signature=abc',
+      type: 'image/png',
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://cdn.example.com/pack/photo.png?X-Signature=abc',
+      expect.objectContaining({ method: 'PUT', headers: { 'Content-Type': 'image/png' } })
+    );
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        id: 'photo.png',
+        filename: 'photo.png',
+        url: 'https://cdn.example.com/pack/photo.png',
+        type: 'image/png',
+        size: 9,
+        checksum: {
+          algorithm: 'sha256',
+          value: createHash('sha256').update('png-bytes').digest('hex'),
+        },
+      },
+    });
+
+    fetch.mockResolvedValueOnce(new Response(null, { status: 403 }));
+    const denied = await invokeStudioHandler(handlers, 'cloud:uploadResource', {
+      path,
+      uploadUrl: 'https://cdn.example.com/pack/photo.png',
+      type: 'image/png',
+    });
+    expect(denied).toMatchObject({
+      ok: false,
+      error: { code: 'UPLOAD_FAILED', message: 'Upload failed with HTTP 403' },
+    });
+  });
+
+  it('should upload thumbnail and preview variants of an image', async () => {
+    const path = join(dir, 'photo.png');
+    await writeFile(path, 'png-bytes');
+    const fetch = vi.fn<Parameters<typeof globalThis.fetch>, Promise<Response>>(
+      async () => new Response(null, { status: 200 })
+    );
+    // "Encodes" each variant as its size
+    const imageVariants = new ImageVariantGenerator({
+      measure: async () => ({ width: 2048, height: 1536 }),
+      resize: async (_data, size, type) => new Blob([`${size.width}x${size.height}`], { type }),
+    });
+    handlers = createStudioHandlers({ dialogs, appVersion: '1.0.0', paths, fetch, imageVariants });
+
+    const result = await invokeStudioHandler(handlers, 'cloud:uploadResource', {
+      path,
+      uploadUrl: 'https://cdn.example.com/pack/photo.png?X-Signature=abc',
+      type: 'image/png',
+      variantUploadUrls: {
+        thumbnail: 'https://cdn.example.com/pack/photo.thumbnail.webp?X-Signature=def',
+      },
+    });
+
+    expect(fetch.mock.calls.map(([url, init]) => [url, init?.headers])).toEqual([
+      [
+        'https://cdn.example.com/pack/photo.png?X-Signature=abc',
+        { 'Content-Type': 'image/png' },
+      ],
+      [
+        'https://cdn.example.com/pack/photo.thumbnail.webp?X-Signature=def',
+        { 'Content-Type': 'image/webp' },
+      ],
+    ]);
+    expect(result).toMatchObject({
+      ok: true,
+      data: {
+        url: 'https://cdn.example.com/pack/photo.png',
+        dimensions: { width: 2048, height: 1536 },
+        variants: { thumbnail: 'https://cdn.example.com/pack/photo.thumbnail.webp' },
+        variantDetails: {
+          thumbnail: {
+            url: 'https://cdn.example.com/pack/photo.thumbnail.webp',
+            type: 'image/webp',
+            size: 7,
+            checksum: {
+              algorithm: 'sha256',
+              value: createHash('sha256').update('256x192').digest('hex'),
+            },
+            dimensions: { width: 256, height: 192 },
+          },
+        },
+      },
+    });
+    expect(result.ok && result.data).not.toHaveProperty('variants.preview');
+  });
+
+  it('should register and remove a handler for every channel', async () => {
+    const registered = new Map<string, (event: unknown, payload: unknown) => unknown>();
+    const ipcMain = {
+      handle: vi.fn((channel: string, listener: (event: unknown, payload: unknown) => unknown) => {
+        registered.set(channel, listener);
+      }),
+      removeHandler: vi.fn((channel: string) => registered.delete(channel)),
+    };
+
+    const unregister = registerStudioHandlers(ipcMain, handlers);
+
+    expect([...registered.keys()]).toEqual(Object.keys(handlers));
+    await expect(
+      registered.get('dialog:selectFolder')?.({}, { version: IPC_CONTRACT_VERSION })
+    ).resolves.toEqual({ ok: true, data: dir });
+
+    unregister();
+    expect(registered.size).toBe(0);
+  });
+
+  it('should refuse messages built against another contract version', async () => {
+    const result = await handleStudioMessage(handlers, 'extension:load', {
+      version: IPC_CONTRACT_VERSION + 1,
+      payload: join(dir, 'draft.ldip'),
+    });
+    expect(result).toMatchObject({ ok: false, error: { code: 'CONTRACT_MISMATCH' } });
+
+    const bare = await handleStudioMessage(handlers, 'extension:load', join(dir, 'draft.ldip'));
+    expect(bare).toMatchObject({ ok: false, error: { code: 'INVALID_PAYLOAD' } });
+  });
+
+  it('should report build progress', async () => {
+    const events = vi.fn();
+    handlers = createStudioHandlers({ dialogs, appVersion: '1.0.0', paths, events });
+    const path = join(dir, 'out.ldip');
+
+    await invokeStudioHandler(handlers, 'package:build', {
+      data: createPackageData(),
+      outputPath: path,
+    });
+
+    expect(events.mock.calls).toEqual(
+      ['packaging', 'writing', 'verifying', 'done'].map((stage) => [
+        'package:buildProgress',
+        { path, stage },
+      ])
+    );
+  });
+
+  describe('file access', () => {
+    let outside: string;
+
+    beforeEach(async () => {
+      outside = await mkdtemp(join(tmpdir(), 'studio-outside-'));
+      await writeFile(join(outside, 'secret.pem'), 'secret');
+    });
+
+    afterEach(async () => {
+      await rm(outside, { recursive: true, force: true });
+    });
+
+    it('should refuse to read or write files no dialog returned', async () => {
+      const fetch = vi.fn(async () => new Response(null, { status: 200 }));
+      handlers = createStudioHandlers({ dialogs, appVersion: '1.0.0', paths, fetch });
+      const secret = join(outside, 'secret.pem');
+      const denied = { ok: false, error: { code: 'PATH_NOT_ALLOWED' } };
+
+      await expect(
+        invokeStudioHandler(handlers, 'extension:load', secret)
+      ).resolves.toMatchObject(denied);
+      await expect(
+        invokeStudioHandler(handlers, 'extension:save', {
+          path: join(outside, 'draft.ldip'),
+          data: createPackageData(),
+        })
+      ).resolves.toMatchObject(denied);
+      await expect(
+        invokeStudioHandler(handlers, 'cloud:uploadResource', {
+          path: secret,
+          uploadUrl: 'https://attacker.example.com/upload',
+          type: 'text/plain',
+        })
+      ).resolves.toMatchObject(denied);
+      await expect(
+        invokeStudioHandler(handlers, 'package:build', {
+          data: createPackageData(),
+          outputPath: join(dir, 'out.ldip'),
+          signingKeyPath: secret,
+        })
+      ).resolves.toMatchObject(denied);
+      await expect(
+        invokeStudioHandler(handlers, 'package:build', {
+          data: createPackageData(),
+          outputPath: join(outside, 'out.ldip'),
+        })
+      ).resolves.toMatchObject(denied);
+      await expect(
+        invokeStudioHandler(handlers, 'file:write', {
+          path: join(outside, 'template.json'),
+          content: '{}',
+        })
+      ).resolves.toMatchObject(denied);
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(await readdir(outside)).toEqual(['secret.pem']);
+      expect(await readdir(dir)).toEqual([]);
+    });
+
+    it('should not let a granted folder reach its parent', async () => {
+      const escape = join(dir, '..', basename(outside), 'secret.pem');
+
+      const result = await invokeStudioHandler(handlers, 'extension:load', escape);
+
+      expect(result).toMatchObject({ ok: false, error: { code: 'PATH_NOT_ALLOWED' } });
+    });
+
+    it('should only read a file picked to open and write a file picked to save', async () => {
+      paths = new PathGrants();
+      dialogs.openFile = vi.fn(async () => join(outside, 'picked.ldip'));
+      dialogs.saveFile = vi.fn(async () => join(outside, 'copy.ldip'));
+      handlers = createStudioHandlers({ dialogs, appVersion: '1.0.0', paths });
+
+      const picked = await invokeStudioHandler(handlers, 'dialog:selectFile', undefined);
+      expect(picked).toEqual({ ok: true, data: join(outside, 'picked.ldip') });
+      const overwrite = await invokeStudioHandler(handlers, 'extension:save', {
+        path: join(outside, 'picked.ldip'),
+        data: createPackageData(),
+      });
+      expect(overwrite).toMatchObject({ ok: false, error: { code: 'PATH_NOT_ALLOWED' } });
+
+      const saved = await invokeStudioHandler(handlers, 'dialog:saveFile', { content: 'draft' });
+      expect(saved).toEqual({ ok: true, data: join(outside, 'copy.ldip') });
+      const resaved = await invokeStudioHandler(handlers, 'extension:save', {
+        path: join(outside, 'copy.ldip'),
+        data: createPackageData(),
+      });
+      expect(resaved.ok).toBe(true);
+      const loaded = await invokeStudioHandler(
+        handlers,
+        'extension:load',
+        join(outside, 'copy.ldip')
+      );
+      expect(loaded.ok).toBe(true);
+    });
+
+    it('should write a file picked to save again', async () => {
+      paths = new PathGrants();
+      dialogs.saveFile = vi.fn(async () => join(outside, 'template.json'));
+      handlers = createStudioHandlers({ dialogs, appVersion: '1.0.0', paths });
+      const path = join(outside, 'template.json');
+
+      await invokeStudioHandler(handlers, 'dialog:saveFile', { content: 'first' });
+      const written = await invokeStudioHandler(handlers, 'file:write', {
+        path,
+        content: 'second',
+      });
+
+      expect(written).toEqual({ ok: true, data: path });
+      expect(await readFile(path, 'utf-8')).toBe('second');
+      expect(await readdir(outside)).toEqual(['secret.pem', 'template.json']);
+    });
+  });
+});
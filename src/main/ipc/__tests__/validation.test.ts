@@ -0,0 +1,56 @@
+/**
+ * Tests for checking IPC payloads against the contract
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validatePayload } from '../validation';
+
+const packageData = { manifest: { metadata: {} } };
+
+describe('IPC payload validation', () => {
+  describe('file paths', () => {
+    const rejected = [
+      '',
+      'draft.ldip',
+      './draft.ldip',
+      '../draft.ldip',
+      '/work/../etc/passwd',
+      '/work/..',
+      'C:\\work\\..\\Windows\\system.ini',
+      'C:draft.ldip',
+      '/work/draft\u0000.ldip',
+    ];
+
+    it('should accept absolute paths', () => {
+      for (const path of ['/work/draft.ldip', 'C:\\work\\draft.ldip', '/work/..draft.ldip']) {
+        expect(validatePayload('extension:load', path)).toEqual([]);
+      }
+    });
+
+    it.each(rejected)('should reject %j on every channel that takes a path', (path) => {
+      expect(validatePayload('extension:load', path)).toEqual([
+        'payload must match format "file-path"',
+      ]);
+      expect(validatePayload('extension:save', { path, data: packageData })).toEqual([
+        'payload/path must match format "file-path"',
+      ]);
+      expect(
+        validatePayload('cloud:uploadResource', {
+          path,
+          uploadUrl: 'https://cdn.example.com/upload',
+          type: 'image/png',
+        })
+      ).toEqual(['payload/path must match format "file-path"']);
+      expect(
+        validatePayload('package:build', {
+          data: packageData,
+          outputPath: path,
+          signingKeyPath: path,
+        })
+      ).toEqual([
+        'payload/outputPath must match format "file-path"',
+        'payload/signingKeyPath must match format "file-path"',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Studio Bridge
+ * Builds the `studioAPI` surface the preload script exposes, from the IPC
+ * contract: one method per invoke channel, sending its payload in a
+ * versioned envelope, and event subscriptions limited to the contract's
+ * event channels. Nothing lets the renderer name an arbitrary channel.
+ *
+ * Every subscription is kept under its own id with the callback and the
+ * wrapper it registered with `ipcRenderer`, so it can be ended through the
+ * handle `on` returns or by passing the callback to `off`.
+ */
+
+import type { IpcRenderer, IpcRendererEvent } from 'electron';
+import {
+  IPC_CONTRACT_VERSION,
+  STUDIO_CHANNELS,
+  STUDIO_EVENTS,
+  isStudioEventChannel,
+} from '@/shared/ipc/contract';
+import type { StudioContract } from '@/shared/ipc/contract';
+import type {
+  IpcEnvelope,
+  IpcRequest,
+  IpcResponse,
+  IpcResult,
+  StudioChannel,
+  StudioEventChannel,
+  StudioEventListener,
+  Unsubscribe,
+} from '@/shared/types';
+
+type InvokeMethod<C extends StudioChannel> = StudioContract[C] extends { optional: true }
+  ? (request?: IpcRequest<C>) => Promise<IpcResult<IpcResponse<C>>>
+  : (request: IpcRequest<C>) => Promise<IpcResult<IpcResponse<C>>>;
+
+/**
+ * One method per invoke channel, named by the contract
+ */
+export type StudioInvokeAPI = {
+  [C in StudioChannel as StudioContract[C]['method']]: InvokeMethod<C>;
+};
+
+export interface StudioEventAPI {
+  /**
+   * Subscribe to an event channel; every call is a separate subscription,
+   * ended by the handle it returns
+   */
+  on<E extends StudioEventChannel>(channel: E, callback: StudioEventListener<E>): Unsubscribe;
+  /** End every subscription of a callback to a channel */
+  off<E extends StudioEventChannel>(channel: E, callback: StudioEventListener<E>): void;
+  /** End every subscription, or those of one channel */
+  removeAllListeners(channel?: StudioEventChannel): void;
+}
+
+export type StudioBridge = StudioInvokeAPI &
+  StudioEventAPI & {
+    /** IPC contract version the preload script was built against */
+    contractVersion: number;
+  };
+
+export type StudioIpcRenderer = Pick<
+  IpcRenderer,
+  'invoke' | 'on' | 'removeListener' | 'removeAllListeners'
+>;
+
+type EventWrapper = (event: IpcRendererEvent, payload: unknown) => void;
+
+interface Subscription {
+  channel: StudioEventChannel;
+  callback: unknown;
+  wrapper: EventWrapper;
+}
+
+function assertEventChannel(channel: unknown): void {
+  if (!isStudioEventChannel(channel)) {
+    throw new Error(`Unknown event channel: ${String(channel)}`);
+  }
+}
+
+export function createStudioBridge(ipcRenderer: StudioIpcRenderer): StudioBridge {
+  const methods: Record<string, (request?: unknown) => Promise<unknown>> = {};
+
+  for (const channel of Object.keys(STUDIO_CHANNELS) as StudioChannel[]) {
+    methods[STUDIO_CHANNELS[channel].method] = (payload) => {
+      const envelope: IpcEnvelope = {
+        version: IPC_CONTRACT_VERSION,
+        payload: payload as IpcRequest<StudioChannel>,
+      };
+      return ipcRenderer.invoke(channel, envelope);
+    };
+  }
+
+  // Listeners left behind by a previous page in this renderer would keep
+  // firing into callbacks that no longer exist
+  for (const channel of Object.keys(STUDIO_EVENTS)) {
+    ipcRenderer.removeAllListeners(channel);
+  }
+
+  const subscriptions = new Map<number, Subscription>();
+  let nextSubscription = 1;
+
+  const unsubscribe = (id: number): void => {
+    const subscription = subscriptions.get(id);
+    if (!subscription) return;
+
+    ipcRenderer.removeListener(subscription.channel, subscription.wrapper);
+    subscriptions.delete(id);
+  };
+
+  return {
+    ...(methods as StudioInvokeAPI),
+    contractVersion: IPC_CONTRACT_VERSION,
+
+    on(channel, callback) {
+      assertEventChannel(channel);
+
+      // A throwing callback must not keep the others from running
+      const wrapper: EventWrapper = (_event, payload) => {
+        try {
+          callback(payload as Parameters<typeof callback>[0]);
+        } catch (error) {
+          console.error(`Listener for ${channel} failed:`, error);
+        }
+      };
+      const id = nextSubscription++;
+      subscriptions.set(id, { channel, callback, wrapper });
+      ipcRenderer.on(channel, wrapper);
+
+      return () => unsubscribe(id);
+    },
+
+    off(channel, callback) {
+      assertEventChannel(channel);
+
+      for (const [id, subscription] of [...subscriptions]) {
+        if (subscription.channel === channel && subscription.callback === callback) {
+          unsubscribe(id);
+        }
+      }
+    },
+
+    removeAllListeners(channel) {
+      if (channel !== undefined) assertEventChannel(channel);
+
+      for (const [id, subscription] of [...subscriptions]) {
+        if (channel === undefined || subscription.channel === channel) unsubscribe(id);
+      }
+    },
+  };
+}
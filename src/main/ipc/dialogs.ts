@@ -0,0 +1,35 @@
+/**
+ * Native Dialogs
+ * `StudioDialogs` backed by Electron's dialog module, attached to the main
+ * window when there is one
+ */
+
+import { dialog } from 'electron';
+import type { BrowserWindow, OpenDialogOptions, SaveDialogOptions } from 'electron';
+import type { StudioDialogs } from './handlers';
+
+export function createElectronDialogs(getWindow: () => BrowserWindow | null): StudioDialogs {
+  const showOpen = async (options: OpenDialogOptions): Promise<string | null> => {
+    const window = getWindow();
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+    return result.canceled ? null : (result.filePaths[0] ?? null);
+  };
+
+  return {
+    openFile: ({ title, filters }) => showOpen({ title, filters, properties: ['openFile'] }),
+
+    openFolder: ({ title }) =>
+      showOpen({ title, properties: ['openDirectory', 'createDirectory'] }),
+
+    async saveFile({ title, defaultPath, filters }) {
+      const options: SaveDialogOptions = { title, defaultPath, filters };
+      const window = getWindow();
+      const result = window
+        ? await dialog.showSaveDialog(window, options)
+        : await dialog.showSaveDialog(options);
+      return result.canceled ? null : (result.filePath ?? null);
+    },
+  };
+}
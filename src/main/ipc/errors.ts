@@ -0,0 +1,46 @@
+/**
+ * IPC Errors
+ * Failures of the studio channels, converted to plain `IpcError` objects
+ * because thrown errors lose their fields crossing the context bridge
+ */
+
+import { PackageError } from '@/shared/services/PackageArchive';
+import type { IpcError, IpcErrorCode } from '@/shared/types';
+
+export class StudioIpcError extends Error {
+  public readonly code: IpcErrorCode;
+  public readonly details: string[];
+
+  constructor(code: IpcErrorCode, message: string, details: string[] = []) {
+    super(message);
+    this.name = 'StudioIpcError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Describe any thrown value as an `IpcError`
+ * File system errors are reported by their errno code; anything unexpected
+ * becomes INTERNAL_ERROR
+ */
+export function toIpcError(error: unknown): IpcError {
+  if (error instanceof StudioIpcError) {
+    return error.details.length > 0
+      ? { code: error.code, message: error.message, details: error.details }
+      : { code: error.code, message: error.message };
+  }
+  if (error instanceof PackageError) {
+    return { code: error.code, message: error.message };
+  }
+
+  const errno = (error as NodeJS.ErrnoException | undefined)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  if (errno === 'ENOENT') {
+    return { code: 'NOT_FOUND', message };
+  }
+  if (typeof errno === 'string' && /^E[A-Z]+$/.test(errno)) {
+    return { code: 'IO_ERROR', message };
+  }
+  return { code: 'INTERNAL_ERROR', message };
+}
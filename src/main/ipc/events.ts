@@ -0,0 +1,30 @@
+/**
+ * Studio Events
+ * Pushes events of the IPC contract to the renderer. Payloads are checked
+ * against the contract before they are sent, so the renderer only ever
+ * receives events of the shape it was built against.
+ */
+
+import type { WebContents } from 'electron';
+import { validateEvent } from './validation';
+import type { StudioEventSink } from './handlers';
+
+/**
+ * Create a sink sending events to the current window's web contents;
+ * events are dropped while there is no window
+ */
+export function createStudioEventSender(
+  getTarget: () => Pick<WebContents, 'send' | 'isDestroyed'> | null
+): StudioEventSink {
+  return (channel, payload) => {
+    const errors = validateEvent(channel, payload);
+    if (errors.length > 0) {
+      throw new Error(`Invalid payload for event ${channel}: ${errors.join('; ')}`);
+    }
+
+    const target = getTarget();
+    if (target && !target.isDestroyed()) {
+      target.send(channel, payload);
+    }
+  };
+}
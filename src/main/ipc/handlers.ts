@@ -0,0 +1,358 @@
+/**
+ * Studio IPC Handlers
+ * Main-process side of the channels exposed through `window.studioAPI`.
+ * Handlers are registered for exactly the channels of the IPC contract;
+ * payloads are checked against its schemas before a handler runs, and every
+ * outcome is returned as an `IpcResult`, so the renderer never sees a
+ * rejected invoke. Files are only read or written at paths the user picked
+ * in one of the dialogs.
+ */
+
+import type { IpcMain } from 'electron';
+import { createHash } from 'crypto';
+import { readFile, rename, rm, writeFile } from 'fs/promises';
+import { basename } from 'path';
+import { IPC_CONTRACT_VERSION, STUDIO_CHANNELS } from '@/shared/ipc/contract';
+import type { ImageVariantGenerator } from '@/shared/services/ImageVariantGenerator';
+import { ManifestGenerator } from '@/shared/services/ManifestGenerator';
+import { PackageBuilder } from '@/shared/services/PackageBuilder';
+import type {
+  ExtensionManifest,
+  FileFilter,
+  ImageResource,
+  IpcEnvelope,
+  IpcRequest,
+  IpcResponse,
+  IpcResult,
+  ResourceReference,
+  ResourceVariant,
+  ResourceVariantName,
+  SaveFileRequest,
+  SelectFileRequest,
+  SelectFolderRequest,
+  StudioChannel,
+  StudioEventChannel,
+  StudioEvents,
+  ValidationResult,
+} from '@/shared/types';
+import { validateManifest, validateManifestStructure } from '@/shared/utils/validation';
+import { StudioIpcError, toIpcError } from './errors';
+import { PathGrants } from './pathGrants';
+import { validatePayload } from './validation';
+
+export const PACKAGE_FILTERS: FileFilter[] = [
+  { name: 'Lousa Digital Package', extensions: ['ldip'] },
+];
+
+/**
+ * Native dialogs; each resolves to `null` when the user cancels
+ */
+export interface StudioDialogs {
+  openFile(options: SelectFileRequest): Promise<string | null>;
+  openFolder(options: SelectFolderRequest): Promise<string | null>;
+  saveFile(options: Omit<SaveFileRequest, 'content'>): Promise<string | null>;
+}
+
+/**
+ * Pushes an event to the renderer
+ */
+export type StudioEventSink = <E extends StudioEventChannel>(
+  channel: E,
+  payload: StudioEvents[E]
+) => void;
+
+export interface StudioHandlerDependencies {
+  dialogs: StudioDialogs;
+  /** Version manifests are checked against */
+  appVersion: string;
+  packageBuilder?: PackageBuilder;
+  manifestGenerator?: ManifestGenerator;
+  /** Used for resource uploads; defaults to the global fetch */
+  fetch?: typeof fetch;
+  /**
+   * Generates thumbnail and preview variants of uploaded images and fills in
+   * their dimensions; without it images are uploaded as they are
+   */
+  imageVariants?: ImageVariantGenerator;
+  /** Receives build and upload progress */
+  events?: StudioEventSink;
+  /** Paths picked in the dialogs; the handlers record every pick here */
+  paths?: PathGrants;
+}
+
+export type StudioHandlers = {
+  [C in StudioChannel]: (request: IpcRequest<C>) => Promise<IpcResponse<C>>;
+};
+
+/**
+ * Create the handlers behind every studio channel
+ * Handlers assume a validated payload and may throw; `invokeStudioHandler`
+ * turns failures into structured errors
+ */
+export function createStudioHandlers(deps: StudioHandlerDependencies): StudioHandlers {
+  const packageBuilder = deps.packageBuilder ?? new PackageBuilder();
+  const manifestGenerator = deps.manifestGenerator ?? new ManifestGenerator();
+  const upload = deps.fetch ?? ((input, init) => fetch(input, init));
+  const emit: StudioEventSink = (channel, payload) => deps.events?.(channel, payload);
+  const paths = deps.paths ?? new PathGrants();
+
+  const put = async (url: string, type: string, body: BodyInit): Promise<void> => {
+    let response: Response;
+    try {
+      response = await upload(url, { method: 'PUT', headers: { 'Content-Type': type }, body });
+    } catch (error) {
+      throw new StudioIpcError('UPLOAD_FAILED', `Upload failed: ${(error as Error).message}`);
+    }
+    if (!response.ok) {
+      throw new StudioIpcError('UPLOAD_FAILED', `Upload failed with HTTP ${response.status}`);
+    }
+  };
+
+  const checkManifest = (manifest: unknown): ValidationResult => {
+    const structure = validateManifestStructure(manifest);
+    if (!structure.valid) return structure;
+    return validateManifest(manifest as ExtensionManifest, deps.appVersion);
+  };
+
+  return {
+    'dialog:selectFile': async (options = {}) => {
+      const path = await deps.dialogs.openFile(options);
+      return path && paths.grantFile(path, 'read');
+    },
+
+    'dialog:selectFolder': async (options = {}) => {
+      const path = await deps.dialogs.openFolder(options);
+      return path && paths.grantFolder(path);
+    },
+
+    'dialog:saveFile': async ({ content, ...options }) => {
+      const path = await deps.dialogs.saveFile(options);
+      if (!path) return null;
+
+      await writeFile(path, content);
+      return paths.grantFile(path, 'read', 'write');
+    },
+
+    'file:write': async ({ path, content }) => {
+      await writeAtomically(paths.check(path, 'write'), Buffer.from(content));
+      return path;
+    },
+
+    'extension:load': async (path) => {
+      const bytes = await readFile(paths.check(path, 'read'));
+      const data = await packageBuilder.extractPackage(new Blob([new Uint8Array(bytes)]));
+      return { path, data };
+    },
+
+    'extension:save': async ({ path, data }) => {
+      const manifest = manifestGenerator.updateManifest(data.manifest, {});
+      const target = paths.check(path, 'write');
+      const blob = await packageBuilder.buildPackage({ ...data, manifest });
+      await writeAtomically(target, new Uint8Array(await blob.arrayBuffer()));
+      return { path, size: blob.size, manifest };
+    },
+
+    'extension:validateManifest': async (manifest) => checkManifest(manifest),
+
+    'cloud:uploadResource': async ({ path, uploadUrl, type, id, variantUploadUrls = {} }) => {
+      const bytes = new Uint8Array(await readFile(paths.check(path, 'read')));
+      const filename = basename(path);
+      emit('cloud:uploadProgress', { path, loaded: 0, total: bytes.length });
+      await put(uploadUrl, type, bytes);
+      emit('cloud:uploadProgress', { path, loaded: bytes.length, total: bytes.length });
+
+      const resource: ResourceReference = {
+        id: id ?? filename,
+        filename,
+        url: withoutQuery(uploadUrl),
+        type,
+        size: bytes.length,
+        checksum: { algorithm: 'sha256', value: sha256(bytes) },
+      };
+      if (!deps.imageVariants) return resource;
+
+      const { resource: image, files } = await deps.imageVariants.generate(
+        resource,
+        new Blob([bytes], { type })
+      );
+      const uploaded: Partial<Record<ResourceVariantName, ResourceVariant>> = {};
+      for (const file of files) {
+        const variantUrl = variantUploadUrls[file.name];
+        if (!variantUrl) continue;
+
+        await put(variantUrl, file.variant.type, file.data);
+        uploaded[file.name] = { ...file.variant, url: withoutQuery(variantUrl) };
+      }
+      return files.length > 0 ? withVariants(image, uploaded) : image;
+    },
+
+    'package:build': async ({ data, outputPath, signingKeyPath, digestAlgorithm }) => {
+      const check = checkManifest(data.manifest);
+      if (!check.valid) {
+        throw new StudioIpcError('MANIFEST_INVALID', 'Manifest is invalid', check.errors);
+      }
+
+      const keyFile = signingKeyPath && paths.check(signingKeyPath, 'read');
+      if (outputPath) paths.check(outputPath, 'write');
+
+      const { id, version } = data.manifest.metadata;
+      const chosen =
+        outputPath ??
+        (await deps.dialogs.saveFile({
+          title: 'Build Package',
+          defaultPath: `${id}-${version}.ldip`,
+          filters: PACKAGE_FILTERS,
+        }));
+      if (!chosen) return null;
+      const path = paths.grantFile(chosen, 'read', 'write');
+
+      emit('package:buildProgress', { path, stage: 'packaging' });
+      const signingKey = keyFile ? await readFile(keyFile, 'utf8') : undefined;
+      const manifest = manifestGenerator.updateManifest(data.manifest, {});
+      const blob = await packageBuilder.buildPackage(
+        { ...data, manifest },
+        { signingKey, digestAlgorithm }
+      );
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      emit('package:buildProgress', { path, stage: 'writing' });
+      await writeAtomically(path, bytes);
+
+      emit('package:buildProgress', { path, stage: 'verifying' });
+      const validation = await packageBuilder.validatePackage(blob);
+      emit('package:buildProgress', { path, stage: 'done' });
+
+      return { path, size: bytes.length, checksum: sha256(bytes), validation };
+    },
+  };
+}
+
+/**
+ * Validate a payload and run the channel's handler
+ */
+export async function invokeStudioHandler<C extends StudioChannel>(
+  handlers: StudioHandlers,
+  channel: C,
+  payload: unknown
+): Promise<IpcResult<IpcResponse<C>>> {
+  const errors = validatePayload(channel, payload);
+  if (errors.length > 0) {
+    return {
+      ok: false,
+      error: {
+        code: 'INVALID_PAYLOAD',
+        message: `Invalid payload for ${channel}`,
+        details: errors,
+      },
+    };
+  }
+
+  try {
+    const handler = handlers[channel] as (request: unknown) => Promise<IpcResponse<C>>;
+    return { ok: true, data: await handler(payload) };
+  } catch (error) {
+    const ipcError = toIpcError(error);
+    if (ipcError.code === 'INTERNAL_ERROR') {
+      console.error(`IPC handler for ${channel} failed:`, error);
+    }
+    return { ok: false, error: ipcError };
+  }
+}
+
+/**
+ * Unwrap an `IpcEnvelope` and run the channel's handler
+ * Envelopes from a preload script built against another contract version
+ * are refused, since their payloads may not mean what the handler expects
+ */
+export async function handleStudioMessage<C extends StudioChannel>(
+  handlers: StudioHandlers,
+  channel: C,
+  message: unknown
+): Promise<IpcResult<IpcResponse<C>>> {
+  const version = (message as Partial<IpcEnvelope> | null)?.version;
+  if (typeof message !== 'object' || message === null || typeof version !== 'number') {
+    return {
+      ok: false,
+      error: { code: 'INVALID_PAYLOAD', message: `Malformed message on ${channel}` },
+    };
+  }
+  if (version !== IPC_CONTRACT_VERSION) {
+    return {
+      ok: false,
+      error: {
+        code: 'CONTRACT_MISMATCH',
+        message:
+          `Renderer uses IPC contract v${version}, ` +
+          `main process v${IPC_CONTRACT_VERSION}`,
+      },
+    };
+  }
+
+  return invokeStudioHandler(handlers, channel, (message as IpcEnvelope).payload);
+}
+
+/**
+ * Register a handler for every channel of the IPC contract with `ipcMain`
+ * Returns a function that removes the handlers again
+ */
+export function registerStudioHandlers(
+  ipcMain: Pick<IpcMain, 'handle' | 'removeHandler'>,
+  handlers: StudioHandlers
+): () => void {
+  const channels = Object.keys(STUDIO_CHANNELS) as StudioChannel[];
+
+  for (const channel of channels) {
+    ipcMain.handle(channel, (_event, message: unknown) =>
+      handleStudioMessage(handlers, channel, message)
+    );
+  }
+
+  return () => {
+    for (const channel of channels) {
+      ipcMain.removeHandler(channel);
+    }
+  };
+}
+
+/**
+ * URL a file is served from once uploaded to a pre-signed URL
+ */
+function withoutQuery(uploadUrl: string): string {
+  const url = new URL(uploadUrl);
+  return `${url.origin}${url.pathname}`;
+}
+
+/**
+ * Describe an image with only the variants that were uploaded
+ */
+function withVariants(
+  image: ImageResource,
+  uploaded: Partial<Record<ResourceVariantName, ResourceVariant>>
+): ImageResource {
+  const names = Object.keys(uploaded) as ResourceVariantName[];
+  if (names.length === 0) {
+    return { ...image, variants: undefined, variantDetails: undefined };
+  }
+  return {
+    ...image,
+    variants: Object.fromEntries(names.map((name) => [name, uploaded[name]?.url])),
+    variantDetails: uploaded,
+  };
+}
+
+function sha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Write through a temporary file so an interrupted save keeps the previous copy
+ */
+async function writeAtomically(path: string, data: Uint8Array): Promise<void> {
+  const temporary = `${path}.${process.pid}.tmp`;
+  try {
+    await writeFile(temporary, data);
+    await rename(temporary, path);
+  } catch (error) {
+    await rm(temporary, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Path Grants
+ * The files and folders the user picked in a native dialog. Handlers only
+ * touch paths granted here, so a renderer cannot name arbitrary files on
+ * disk: a file picked to open may be read, a file picked to save may be
+ * written and read back, and a picked folder grants both for everything
+ * inside it.
+ */
+
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { StudioIpcError } from './errors';
+
+export type PathAccess = 'read' | 'write';
+
+export class PathGrants {
+  private readonly files = new Map<string, Set<PathAccess>>();
+  private readonly folders = new Set<string>();
+
+  /**
+   * Allow a file returned by a dialog; returns the path as it was granted
+   */
+  grantFile(path: string, ...access: PathAccess[]): string {
+    const resolved = resolve(path);
+    const granted = this.files.get(resolved) ?? new Set<PathAccess>();
+    access.forEach((kind) => granted.add(kind));
+    this.files.set(resolved, granted);
+    return path;
+  }
+
+  /**
+   * Allow reading and writing anywhere inside a folder returned by a dialog
+   */
+  grantFolder(path: string): string {
+    this.folders.add(resolve(path));
+    return path;
+  }
+
+  isAllowed(path: string, access: PathAccess): boolean {
+    if (!isAbsolute(path)) return false;
+    const resolved = resolve(path);
+    if (this.files.get(resolved)?.has(access)) return true;
+
+    for (const folder of this.folders) {
+      const inside = relative(folder, resolved);
+      if (inside && !inside.startsWith(`..${sep}`) && inside !== '..' && !isAbsolute(inside)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Resolve a path sent by the renderer, throwing when no dialog granted it
+   */
+  check(path: string, access: PathAccess): string {
+    if (!this.isAllowed(path, access)) {
+      throw new StudioIpcError(
+        'PATH_NOT_ALLOWED',
+        `No ${access} access to ${path}; choose it in a dialog first`
+      );
+    }
+    return resolve(path);
+  }
+}
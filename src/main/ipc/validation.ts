@@ -0,0 +1,92 @@
+/**
+ * IPC Payload Validation
+ * Compiles the schemas of the IPC contract and checks every payload the
+ * renderer sends before a handler sees it, and every event before it is
+ * pushed. Package entry names are held to the same rules as extracted
+ * archives, since they end up as paths inside the built package.
+ */
+
+import Ajv from 'ajv';
+import type { ErrorObject, SchemaValidateFunction, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { posix, win32 } from 'path';
+import { STUDIO_CHANNELS, STUDIO_EVENTS } from '@/shared/ipc/contract';
+import { resolvePackagePath } from '@/shared/services/PackageArchive';
+import type { StudioChannel, StudioEventChannel } from '@/shared/types';
+
+const validatePackageEntry: SchemaValidateFunction = (directory: string, data: unknown) => {
+  try {
+    resolvePackagePath(directory, data);
+    return true;
+  } catch (error) {
+    validatePackageEntry.errors = [
+      { keyword: 'packageEntry', message: (error as Error).message, params: { directory } },
+    ];
+    return false;
+  }
+};
+
+/**
+ * Absolute POSIX or Windows path that does not step out of a directory
+ */
+function isFilePath(path: string): boolean {
+  if (path.includes('\0')) return false;
+  if (!posix.isAbsolute(path) && !win32.isAbsolute(path)) return false;
+  return !path.split(/[\\/]/).includes('..');
+}
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+ajv.addFormat('file-path', isFilePath);
+ajv.addKeyword({
+  keyword: 'binary',
+  schemaType: 'boolean',
+  validate: (expected: boolean, data: unknown) => !expected || data instanceof Uint8Array,
+  errors: false,
+});
+ajv.addKeyword({
+  keyword: 'packageEntry',
+  schemaType: 'string',
+  validate: validatePackageEntry,
+  errors: true,
+});
+
+function compileAll<K extends string>(schemas: Record<K, object>): Record<K, ValidateFunction> {
+  const compiled = {} as Record<K, ValidateFunction>;
+  for (const key of Object.keys(schemas) as K[]) {
+    compiled[key] = ajv.compile(schemas[key]);
+  }
+  return compiled;
+}
+
+const requestValidators = compileAll(
+  Object.fromEntries(
+    Object.entries(STUDIO_CHANNELS).map(([channel, definition]) => [channel, definition.request])
+  ) as Record<StudioChannel, object>
+);
+
+const eventValidators = compileAll<StudioEventChannel>(STUDIO_EVENTS);
+
+function describeErrors(errors: ErrorObject[] | null | undefined): string[] {
+  return (errors ?? []).map((error) => `payload${error.instancePath} ${error.message}`);
+}
+
+/**
+ * Problems with a payload sent on a channel; empty when it is valid
+ */
+export function validatePayload(channel: StudioChannel, payload: unknown): string[] {
+  if (payload === undefined) {
+    return 'optional' in STUDIO_CHANNELS[channel] ? [] : ['payload is required'];
+  }
+
+  const validate = requestValidators[channel];
+  return validate(payload) ? [] : describeErrors(validate.errors);
+}
+
+/**
+ * Problems with an event payload; empty when it is valid
+ */
+export function validateEvent(channel: StudioEventChannel, payload: unknown): string[] {
+  const validate = eventValidators[channel];
+  return validate(payload) ? [] : describeErrors(validate.errors);
+}
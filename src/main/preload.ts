@@ -4,40 +4,29 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
+import { createStudioBridge } from './ipc/bridge';
 
-// Exposed API for renderer
+const bridge = createStudioBridge(ipcRenderer);
+
+// Exposed API for renderer; channels and payloads come from the IPC contract
 const studioAPI = {
   // Platform info
   platform: process.platform,
-  
-  // File operations
-  selectFile: () => ipcRenderer.invoke('dialog:selectFile'),
-  selectFolder: () => ipcRenderer.invoke('dialog:selectFolder'),
-  saveFile: (data: unknown) => ipcRenderer.invoke('dialog:saveFile', data),
-  
-  // Extension operations
-  loadExtension: (path: string) => ipcRenderer.invoke('extension:load', path),
-  saveExtension: (data: unknown) => ipcRenderer.invoke('extension:save', data),
-  validateManifest: (manifest: unknown) => ipcRenderer.invoke('extension:validateManifest', manifest),
-  
-  // Cloud operations
-  uploadResource: (file: unknown) => ipcRenderer.invoke('cloud:uploadResource', file),
-  
-  // Package operations
-  buildPackage: (data: unknown) => ipcRenderer.invoke('package:build', data),
-  
-  // Events
-  on: (channel: string, callback: (...args: unknown[]) => void) => {
-    ipcRenderer.on(channel, (_event, ...args) => callback(...args));
-  },
-  
-  off: (channel: string, callback: (...args: unknown[]) => void) => {
-    ipcRenderer.removeListener(channel, callback);
-  },
+
+  ...bridge,
 };
 
+// Subscriptions die with the page; a reload starts without listeners
+window.addEventListener('pagehide', () => bridge.removeAllListeners());
+
 // Expose API to renderer
 contextBridge.exposeInMainWorld('studioAPI', studioAPI);
 
 // Type declaration for TypeScript
 export type StudioAPI = typeof studioAPI;
+
+declare global {
+  interface Window {
+    studioAPI: StudioAPI;
+  }
+}
@@ -1,35 +1,294 @@
 /**
  * Cloud Resource Manager
- * Handles loading resources from cloud storage with caching and fallback
+ * Handles loading resources from cloud storage with caching and fallback.
+ * Extensions can be made available offline by pinning every resource of
+ * their manifest; in offline mode resources are served from the cache only.
+ * Resources that cannot be loaded fall back to a placeholder of their type.
  */
 
-import type { CloudResourceManifest, ResourceReference } from '@/shared/types';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type {
+  CDNConfig,
+  Checksum,
+  CloudResourceManifest,
+  Extension,
+  ImageResource,
+  ResourceDimensions,
+  ResourceReference,
+  ResourceVariant,
+  ResourceVariantName,
+} from '@/shared/types';
+import { getResourceManifestChecksum, resolvePackagePath } from '@/shared/services';
+import { computeChecksum } from '@/shared/utils';
+import { getDefaultDataDir } from './dataDir';
+import {
+  CircuitOpenError,
+  HttpStatusError,
+  OfflineResourceError,
+  ResourceIntegrityError,
+} from './errors';
+import { createPlaceholder, findPackagePlaceholder, getPlaceholderType } from './placeholders';
+import { PrefetchQueue } from './PrefetchQueue';
+import type { PrefetchPriority } from './PrefetchQueue';
+import { DEFAULT_RESILIENCE_POLICY, ResilientFetcher } from './ResilientFetcher';
+import type { CircuitState, ResilienceEvents, ResiliencePolicy } from './ResilientFetcher';
+import { ResourceCache } from './ResourceCache';
+import type { ResourceCacheStats } from './ResourceCache';
+
+export interface CloudResourceManagerOptions {
+  /** Directory of the resource cache; defaults to `<dataDir>/resource-cache` */
+  cacheDir?: string;
+  /** Byte budget of the resource cache */
+  maxCacheBytes?: number;
+  /** Retry, timeout and circuit breaker settings; unset fields use the defaults */
+  resilience?: Partial<ResiliencePolicy>;
+  /** Start in offline mode */
+  offline?: boolean;
+  /** Prefetch downloads running at once; defaults to 4 */
+  maxConcurrentPrefetches?: number;
+}
+
+export interface CloudResourceEvents extends ResilienceEvents {
+  /** Offline mode was switched on or off */
+  'offline-mode': { offline: boolean };
+  /** A resource was requested in offline mode but is not cached */
+  'offline-missing': { url: string; extensionId?: string };
+  /** A resource of an offline bundle was downloaded, found cached or failed */
+  'offline-progress': OfflineProgress;
+}
 
 export interface LoadResourceOptions {
   cache?: boolean;
+  /** Time to live of the cached copy in milliseconds; defaults to 24 hours */
   cacheTTL?: number;
   fallback?: 'placeholder' | 'cache' | 'none';
+  /** Extension the resource belongs to, for per-extension cache usage */
+  extensionId?: string;
+  /** Caching settings from the extension's CDN config; they take precedence over `cacheTTL` */
+  caching?: CDNConfig['caching'];
+  /** Cancels the load; a cancelled load rejects with the signal's reason and never falls back */
+  signal?: AbortSignal;
+}
+
+export interface PrefetchOptions {
+  /** Queued prefetches start in priority order, e.g. `high` for the visible page */
+  priority?: PrefetchPriority;
+  /** Cancels queued and running downloads, e.g. when the user navigates away */
+  signal?: AbortSignal;
+  onProgress?: (progress: PrefetchProgress) => void;
+  /** Options for each load */
+  load?: Omit<LoadResourceOptions, 'fallback' | 'signal'>;
+}
+
+export interface PrefetchProgress {
+  total: number;
+  loaded: number;
+  failed: number;
+  cancelled: number;
+  /** Bytes of the loaded resources */
+  bytes: number;
+  /** Resource that settled last */
+  url: string;
+}
+
+export interface PrefetchResult {
+  total: number;
+  loaded: number;
+  /** URLs that could not be loaded */
+  failed: string[];
+  /** Resources skipped or interrupted because the signal aborted */
+  cancelled: number;
+  bytes: number;
 }
 
+export interface ManifestSyncOptions {
+  /** Manifest to diff against; defaults to the last sync of the same base URL */
+  previous?: CloudResourceManifest;
+  /** Options for downloading added and changed resources */
+  load?: Omit<LoadResourceOptions, 'fallback'>;
+}
+
+export interface ManifestSyncResult {
+  manifest: CloudResourceManifest;
+  /** Every page was answered with 304 Not Modified */
+  notModified: boolean;
+  added: ResourceReference[];
+  changed: ResourceReference[];
+  removed: ResourceReference[];
+  unchanged: number;
+  /** Added or changed resources that could not be downloaded */
+  failed: ResourceReference[];
+}
+
+export interface OfflineProgress {
+  extensionId: string;
+  /** Resources listed by the extension's manifest */
+  total: number;
+  /** Resources downloaded or already cached */
+  completed: number;
+  failed: number;
+  /** Bytes of the completed resources */
+  bytes: number;
+  totalBytes: number;
+  /** Resource processed last; unset in the first report */
+  url?: string;
+}
+
+export interface OfflineBundleOptions {
+  onProgress?: (progress: OfflineProgress) => void;
+  /** Caching settings from the extension's CDN config; `enabled` is ignored */
+  caching?: CDNConfig['caching'];
+}
+
+export interface OfflineBundleResult {
+  manifest: CloudResourceManifest;
+  /** Resources fetched from the CDN */
+  downloaded: number;
+  /** Resources that were already cached and intact */
+  cached: number;
+  failed: ResourceReference[];
+  bytes: number;
+}
+
+export interface OfflineStatus {
+  extensionId: string;
+  /** Pinned URLs, manifest pages included */
+  total: number;
+  available: number;
+  /** Pinned URLs that are not cached, e.g. after a failed download */
+  missing: string[];
+  bytes: number;
+}
+
+const DEFAULT_CACHE_TTL = 86400 * 1000; // 24 hours in ms
+
+const DEFAULT_PREFETCH_CONCURRENCY = 4;
+
 export class CloudResourceManager {
-  private static instance: CloudResourceManager;
-  private cache: Map<string, { data: Blob; timestamp: number }> = new Map();
-  private circuitBreakerState: Map<string, CircuitBreakerState> = new Map();
+  private static instance: CloudResourceManager | undefined;
+  private readonly cache: ResourceCache;
+  private readonly fetcher: ResilientFetcher;
+  private readonly prefetchQueue: PrefetchQueue;
+  /** Downloads in progress, shared by concurrent loads of the same URL */
+  private inFlight: Map<string, InFlightRequest> = new Map();
+  private listeners: Map<keyof CloudResourceEvents, Set<(payload: never) => void>> = new Map();
+  /** Last response of each manifest page URL, for conditional requests */
+  private manifestPages: Map<string, CachedManifestPage> = new Map();
+  /** Last synced manifest of each base URL, for delta syncs */
+  private syncedManifests: Map<string, CloudResourceManifest> = new Map();
+  private offline: boolean;
+  /** Resources requested since offline mode was switched on that are not cached */
+  private missingOffline: Set<string> = new Set();
+  /** Placeholders shipped in the packages of installed extensions */
+  private packagePlaceholders: Map<string, PackagePlaceholders> = new Map();
+
+  private constructor(options: CloudResourceManagerOptions = {}) {
+    this.cache = new ResourceCache({
+      directory: options.cacheDir ?? join(getDefaultDataDir(), 'resource-cache'),
+      maxBytes: options.maxCacheBytes,
+    });
+    this.fetcher = new ResilientFetcher(
+      { ...DEFAULT_RESILIENCE_POLICY, ...options.resilience },
+      (event, payload) => this.emit(event, payload as CloudResourceEvents[typeof event])
+    );
+    this.offline = options.offline ?? false;
+    this.prefetchQueue = new PrefetchQueue(
+      options.maxConcurrentPrefetches ?? DEFAULT_PREFETCH_CONCURRENCY
+    );
+  }
 
-  private constructor() {
-    // Private constructor for singleton
+  /**
+   * Subscribe to CDN health events, e.g. to show a "CDN degraded" banner
+   * Returns a function that removes the listener
+   */
+  public on<E extends keyof CloudResourceEvents>(
+    event: E,
+    listener: (payload: CloudResourceEvents[E]) => void
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener as (payload: never) => void);
+    this.listeners.set(event, listeners);
+    return () => listeners.delete(listener as (payload: never) => void);
+  }
+
+  /**
+   * Hosts currently failing fast (breaker open) or being probed (half-open)
+   */
+  public getDegradedHosts(): string[] {
+    return this.fetcher.getDegradedHosts();
+  }
+
+  /**
+   * Breaker state of the host serving a URL
+   */
+  public getCircuitState(url: string): CircuitState {
+    return this.fetcher.getState(new URL(url).host);
+  }
+
+  /**
+   * Switch offline mode; while offline, no request reaches the network and
+   * resources are served from the cache, stale or not
+   */
+  public setOfflineMode(offline: boolean): void {
+    if (this.offline === offline) return;
+    this.offline = offline;
+    if (offline) {
+      this.missingOffline.clear();
+    }
+    this.emit('offline-mode', { offline });
+    console.log(`Cloud resources ${offline ? 'offline' : 'online'}`);
+  }
+
+  public isOfflineMode(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Resources requested since offline mode was switched on that were not cached
+   */
+  public getMissingResources(): string[] {
+    return Array.from(this.missingOffline);
+  }
+
+  /**
+   * Use the placeholders an extension ships in its package for its resources
+   * They apply to loads whose `extensionId` matches; other resource types
+   * keep the generated placeholders
+   */
+  public registerPlaceholders(extension: Extension): void {
+    const placeholders = extension.manifest.resources?.placeholders;
+    if (!placeholders || Object.keys(placeholders).length === 0) {
+      this.packagePlaceholders.delete(extension.id);
+      return;
+    }
+    this.packagePlaceholders.set(extension.id, {
+      directory: extension.installPath,
+      placeholders,
+    });
+  }
+
+  public unregisterPlaceholders(extensionId: string): void {
+    this.packagePlaceholders.delete(extensionId);
   }
 
   /**
    * Get singleton instance
    */
-  public static getInstance(): CloudResourceManager {
+  public static getInstance(options?: CloudResourceManagerOptions): CloudResourceManager {
     if (!CloudResourceManager.instance) {
-      CloudResourceManager.instance = new CloudResourceManager();
+      CloudResourceManager.instance = new CloudResourceManager(options);
     }
     return CloudResourceManager.instance;
   }
 
+  /**
+   * Drop the singleton instance (used by tests)
+   */
+  public static resetInstance(): void {
+    CloudResourceManager.instance = undefined;
+  }
+
   /**
    * Load a resource from URL with caching and fallback
    */
@@ -37,135 +296,448 @@ export class CloudResourceManager {
     url: string,
     options: LoadResourceOptions = {}
   ): Promise<Blob> {
-    const {
-      cache = true,
-      cacheTTL = 86400 * 1000, // 24 hours in ms
-      fallback = 'cache',
-    } = options;
+    return this.load(url, options);
+  }
+
+  /**
+   * Load a resource described by a manifest reference
+   * Size and digest are verified before the content is cached or returned;
+   * a mismatch counts as a failed load for the circuit breaker and fallback
+   */
+  public async loadResourceByReference(
+    ref: ResourceReference,
+    options: LoadResourceOptions = {}
+  ): Promise<Blob> {
+    return this.load(ref.url, options, ref);
+  }
+
+  /**
+   * Load an image for a display size in device pixels, preferring the
+   * smallest variant that covers it
+   * The variant is verified against its details; when it cannot be loaded the
+   * original is loaded with the given options instead
+   */
+  public async loadResourceForDisplay(
+    ref: ResourceReference,
+    displaySize: ResourceDimensions,
+    options: LoadResourceOptions = {}
+  ): Promise<Blob> {
+    const variant = selectVariant(ref, displaySize);
+    if (variant) {
+      try {
+        return await this.load(variant.url, { ...options, fallback: 'none' }, variant);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn(`Falling back to the original of ${ref.url}`);
+      }
+    }
+    return this.load(ref.url, options, ref);
+  }
+
+  private async load(
+    url: string,
+    options: LoadResourceOptions,
+    ref?: ResourceReference
+  ): Promise<Blob> {
+    const { fallback = 'cache' } = options;
+    const cache = (options.cache ?? true) && options.caching?.enabled !== false;
+
+    if (this.offline) {
+      return this.loadOffline(url, options, ref);
+    }
 
     // Check cache first
     if (cache) {
-      const cached = this.getFromCache(url, cacheTTL);
-      if (cached) {
+      const cached = await this.cache.get(url);
+      if (cached && (await this.isIntact(cached.data, ref))) {
         console.log(`Loaded from cache: ${url}`);
-        return cached;
+        return cached.data;
+      }
+    }
+
+    try {
+      // Fetch from cloud, sharing the download with concurrent loads
+      const blob = await this.fetchShared(url, ref, options.signal);
+
+      // Store in cache
+      if (cache) {
+        await this.addToCache(url, blob, options);
+      }
+
+      return blob;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw options.signal.reason;
       }
+      if (error instanceof CircuitOpenError) {
+        console.warn(`Circuit breaker open for: ${url}`);
+      } else {
+        console.error(`Failed to load resource: ${url}`, error);
+      }
+
+      // Try fallback
+      return this.handleFallback(url, fallback, ref, options.extensionId);
     }
+  }
+
+  /**
+   * Fetch a URL once for all concurrent loads
+   * The shared download is verified against the first load's reference;
+   * later loads with another reference verify the result themselves. It is
+   * cancelled only once every load waiting for it has been cancelled.
+   */
+  private async fetchShared(
+    url: string,
+    ref?: ResourceReference,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    signal?.throwIfAborted();
 
-    // Check circuit breaker
-    if (this.isCircuitOpen(url)) {
-      console.warn(`Circuit breaker open for: ${url}`);
-      return this.handleFallback(url, fallback);
+    let request = this.inFlight.get(url);
+    if (!request || request.controller.signal.aborted) {
+      const controller = new AbortController();
+      const promise = this.fetchResource(url, ref, controller.signal);
+      const created: InFlightRequest = { promise, controller, ref, waiters: 0 };
+      const settle = () => {
+        if (this.inFlight.get(url) === created) this.inFlight.delete(url);
+      };
+      promise.then(settle, settle);
+      this.inFlight.set(url, created);
+      request = created;
     }
 
+    request.waiters++;
     try {
-      // Fetch from cloud
-      const response = await fetch(url, {
-        signal: AbortSignal.timeout(10000), // 10s timeout
-      });
+      const blob = await waitFor(request.promise, signal);
+      if (ref && ref !== request.ref) {
+        await verifyResource(ref, blob);
+      }
+      return blob;
+    } finally {
+      request.waiters--;
+      if (request.waiters === 0 && signal?.aborted) {
+        request.controller.abort(signal.reason);
+      }
+    }
+  }
 
+  private async fetchResource(
+    url: string,
+    ref: ResourceReference | undefined,
+    signal: AbortSignal
+  ): Promise<Blob> {
+    return this.fetcher.request(url, { signal }, async (response) => {
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new HttpStatusError(url, response.status, response.statusText);
       }
 
-      const blob = await response.blob();
-
-      // Store in cache
-      if (cache) {
-        this.addToCache(url, blob);
+      // Refuse a wrong size before downloading the body
+      const contentLength = response.headers.get('content-length');
+      if (ref && contentLength !== null && Number(contentLength) !== ref.size) {
+        throw new ResourceIntegrityError(
+          url,
+          'size',
+          `expected ${ref.size} bytes, server announced ${contentLength}`
+        );
       }
 
-      // Reset circuit breaker on success
-      this.resetCircuitBreaker(url);
+      const data = await response.blob();
+      if (ref) {
+        await verifyResource(ref, data);
+      }
+      return data;
+    });
+  }
 
-      return blob;
-    } catch (error) {
-      console.error(`Failed to load resource: ${url}`, error);
-      
-      // Increment circuit breaker
-      this.incrementCircuitBreaker(url);
+  /**
+   * Serve a resource from the cache without touching the network
+   * A resource that is not cached is reported as missing; it resolves to the
+   * placeholder when one was asked for and throws OfflineResourceError otherwise
+   */
+  private async loadOffline(
+    url: string,
+    options: LoadResourceOptions,
+    ref?: ResourceReference
+  ): Promise<Blob> {
+    const cached = await this.cache.getStale(url);
+    if (cached && (await this.isIntact(cached.data, ref))) {
+      console.log(`Loaded from cache (offline): ${url}`);
+      return cached.data;
+    }
 
-      // Try fallback
-      return this.handleFallback(url, fallback);
+    this.reportMissing(url, options.extensionId);
+    if (options.fallback === 'placeholder') {
+      return this.getPlaceholder(ref, options.extensionId);
     }
+    throw new OfflineResourceError(url);
   }
 
   /**
    * Load resource manifest from cloud
+   * Every page is fetched and verified; the result lists all resources and
+   * keeps the version, base URL and integrity of the first page
    */
   public async loadResourceManifest(
     baseUrl: string
   ): Promise<CloudResourceManifest> {
-    const url = `${baseUrl}/manifest.json`;
-    
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`Failed to load manifest: ${response.statusText}`);
+    return (await this.collectManifestPages(baseUrl)).manifest;
+  }
+
+  /**
+   * Fetch the pages of a resource manifest lazily, following `pagination.nextPage`
+   * Pages are requested conditionally (ETag / If-Modified-Since), so
+   * unchanged pages are served from the last response
+   */
+  public async *iterateResourceManifest(
+    baseUrl: string
+  ): AsyncGenerator<CloudResourceManifest, void, undefined> {
+    for await (const { manifest } of this.fetchManifestPages(baseUrl)) {
+      yield manifest;
+    }
+  }
+
+  /**
+   * Re-sync a resource manifest and download only what changed
+   * Resources are compared by id and `checksum.value` with the previous
+   * sync of the same base URL (or `previous`); removed resources are
+   * dropped from the cache
+   */
+  public async syncResourceManifest(
+    baseUrl: string,
+    options: ManifestSyncOptions = {}
+  ): Promise<ManifestSyncResult> {
+    const previous = options.previous ?? this.syncedManifests.get(baseUrl);
+    const { manifest, notModified } = await this.collectManifestPages(baseUrl);
+    const { resources } = manifest;
+
+    const known = new Map(previous?.resources.map((ref) => [ref.id, ref]));
+    const current = new Set(resources.map((ref) => ref.id));
+    const result: ManifestSyncResult = {
+      manifest,
+      notModified: notModified && previous !== undefined,
+      added: [],
+      changed: [],
+      removed: (previous?.resources ?? []).filter((ref) => !current.has(ref.id)),
+      unchanged: 0,
+      failed: [],
+    };
+
+    for (const ref of resources) {
+      const before = known.get(ref.id);
+      if (!before) {
+        result.added.push(ref);
+      } else if (before.checksum.value !== ref.checksum.value || before.url !== ref.url) {
+        result.changed.push(ref);
+      } else {
+        result.unchanged++;
       }
+    }
 
-      const manifest = await response.json();
-      return manifest as CloudResourceManifest;
-    } catch (error) {
-      console.error('Failed to load resource manifest:', error);
-      throw error;
+    for (const ref of result.removed) {
+      await this.cache.delete(ref.url);
     }
+    for (const ref of [...result.added, ...result.changed]) {
+      try {
+        await this.loadResourceByReference(ref, { ...options.load, fallback: 'none' });
+      } catch {
+        result.failed.push(ref);
+      }
+    }
+
+    this.syncedManifests.set(baseUrl, manifest);
+    console.log(
+      `Synced ${baseUrl}: ${result.added.length} added, ${result.changed.length} changed, ` +
+        `${result.removed.length} removed, ${result.unchanged} unchanged`
+    );
+    return result;
   }
 
   /**
-   * Prefetch resources for better performance
+   * Download every resource of an extension's manifest into pinned storage
+   * Manifest pages and resources are pinned before downloading, so nothing
+   * fetched for the bundle is evicted; resources already cached and intact are
+   * not fetched again. Calling it again re-pins the current manifest, which
+   * releases resources that were removed from it.
    */
-  public async prefetchResources(urls: string[]): Promise<void> {
-    console.log(`Prefetching ${urls.length} resources...`);
-    
-    // Load resources in parallel
-    const promises = urls.map((url) =>
-      this.loadResource(url, { cache: true }).catch((err) => {
-        console.error(`Failed to prefetch: ${url}`, err);
-      })
+  public async makeAvailableOffline(
+    extensionId: string,
+    baseUrl: string,
+    options: OfflineBundleOptions = {}
+  ): Promise<OfflineBundleResult> {
+    if (this.offline) {
+      throw new Error(`Cannot make ${extensionId} available offline while offline`);
+    }
+
+    const { manifest, pages } = await this.collectManifestPages(baseUrl);
+    const { resources } = manifest;
+
+    await this.cache.pin(extensionId, [
+      ...pages.map((page) => page.url),
+      ...resources.map((ref) => ref.url),
+    ]);
+    for (const page of pages) {
+      const json = new Blob([JSON.stringify(page.manifest)], { type: 'application/json' });
+      await this.cache.put(page.url, json, { immutable: true, extensionId });
+    }
+
+    const result: OfflineBundleResult = {
+      manifest,
+      downloaded: 0,
+      cached: 0,
+      failed: [],
+      bytes: 0,
+    };
+    const progress: OfflineProgress = {
+      extensionId,
+      total: resources.length,
+      completed: 0,
+      failed: 0,
+      bytes: 0,
+      totalBytes: resources.reduce((total, ref) => total + ref.size, 0),
+    };
+    this.reportProgress(progress, options);
+
+    const caching = options.caching && { ...options.caching, enabled: true };
+    for (const ref of resources) {
+      try {
+        const cached = await this.cache.getStale(ref.url);
+        if (cached && (await this.isIntact(cached.data, ref))) {
+          result.cached++;
+        } else {
+          await this.loadResourceByReference(ref, { extensionId, caching, fallback: 'none' });
+          result.downloaded++;
+        }
+        result.bytes += ref.size;
+        progress.completed++;
+        progress.bytes += ref.size;
+      } catch (error) {
+        console.error(`Failed to make resource available offline: ${ref.url}`, error);
+        result.failed.push(ref);
+        progress.failed++;
+      }
+      this.reportProgress({ ...progress, url: ref.url }, options);
+    }
+
+    console.log(
+      `${extensionId} available offline: ${result.downloaded} downloaded, ` +
+        `${result.cached} already cached, ${result.failed.length} failed`
     );
+    return result;
+  }
 
-    await Promise.all(promises);
-    console.log('Prefetch complete');
+  /**
+   * Unpin an extension's offline bundle; its resources stay cached until evicted
+   */
+  public async removeOfflineBundle(extensionId: string): Promise<void> {
+    await this.cache.unpin(extensionId);
+    console.log(`Removed offline bundle of ${extensionId}`);
   }
 
   /**
-   * Invalidate cache for specific URL or all
+   * How much of an extension's offline bundle is cached
    */
-  public invalidateCache(url?: string): void {
-    if (url) {
-      this.cache.delete(url);
-      console.log(`Invalidated cache for: ${url}`);
-    } else {
-      this.cache.clear();
-      console.log('Cleared entire cache');
+  public getOfflineStatus(extensionId: string): OfflineStatus {
+    const status: OfflineStatus = { extensionId, total: 0, available: 0, missing: [], bytes: 0 };
+    for (const url of this.cache.getPinned(extensionId)) {
+      const entry = this.cache.getEntry(url);
+      status.total++;
+      if (entry) {
+        status.available++;
+        status.bytes += entry.size;
+      } else {
+        status.missing.push(url);
+      }
     }
+    return status;
   }
 
   /**
-   * Get resource from cache
+   * Prefetch resources into the cache for better performance
+   * Downloads share a queue with a concurrency limit; queued resources start
+   * by priority, so the visible page can go before the rest of the lesson.
+   * Manifest references are verified. Never falls back: resources that cannot
+   * be loaded are listed in the result.
    */
-  private getFromCache(url: string, ttl: number): Blob | null {
-    const cached = this.cache.get(url);
-    if (!cached) return null;
+  public async prefetchResources(
+    resources: Array<string | ResourceReference>,
+    options: PrefetchOptions = {}
+  ): Promise<PrefetchResult> {
+    const { priority = 'normal', signal } = options;
+    const result: PrefetchResult = {
+      total: resources.length,
+      loaded: 0,
+      failed: [],
+      cancelled: 0,
+      bytes: 0,
+    };
+    console.log(`Prefetching ${resources.length} resources (${priority} priority)...`);
 
-    const age = Date.now() - cached.timestamp;
-    if (age > ttl) {
-      this.cache.delete(url);
-      return null;
-    }
+    await Promise.all(
+      resources.map(async (resource) => {
+        const ref = typeof resource === 'string' ? undefined : resource;
+        const url = typeof resource === 'string' ? resource : resource.url;
+        const load = { ...options.load, fallback: 'none' as const, signal };
 
-    return cached.data;
+        try {
+          const blob = await this.prefetchQueue.schedule(
+            () => this.load(url, load, ref),
+            priority,
+            signal
+          );
+          result.loaded++;
+          result.bytes += blob.size;
+        } catch (error) {
+          if (signal?.aborted) {
+            result.cancelled++;
+          } else {
+            result.failed.push(url);
+            console.error(`Failed to prefetch: ${url}`, error);
+          }
+        }
+
+        try {
+          options.onProgress?.({ ...result, failed: result.failed.length, url });
+        } catch (error) {
+          console.error('Prefetch progress callback failed', error);
+        }
+      })
+    );
+
+    console.log(
+      `Prefetch complete: ${result.loaded} loaded, ${result.failed.length} failed, ` +
+        `${result.cancelled} cancelled`
+    );
+    return result;
+  }
+
+  /**
+   * Invalidate cache for specific URL or all
+   * Clearing all keeps the pinned resources of offline bundles
+   */
+  public async invalidateCache(url?: string): Promise<void> {
+    await this.cache.delete(url);
+    if (url) {
+      console.log(`Invalidated cache for: ${url}`);
+    } else {
+      console.log('Cleared entire cache');
+    }
   }
 
   /**
    * Add resource to cache
+   * The CDN caching config wins over `cacheTTL`; its TTL is in seconds
    */
-  private addToCache(url: string, data: Blob): void {
-    this.cache.set(url, {
-      data,
-      timestamp: Date.now(),
-    });
+  private async addToCache(url: string, data: Blob, options: LoadResourceOptions): Promise<void> {
+    const { caching } = options;
+    try {
+      await this.cache.put(url, data, {
+        ttl: caching ? caching.ttl * 1000 : options.cacheTTL ?? DEFAULT_CACHE_TTL,
+        immutable: caching?.immutable,
+        extensionId: options.extensionId,
+      });
+    } catch (error) {
+      console.warn(`Failed to cache resource: ${url}`, error);
+    }
   }
 
   /**
@@ -173,100 +745,358 @@ export class CloudResourceManager {
    */
   private async handleFallback(
     url: string,
-    fallback: 'placeholder' | 'cache' | 'none'
+    fallback: 'placeholder' | 'cache' | 'none',
+    ref?: ResourceReference,
+    extensionId?: string
   ): Promise<Blob> {
     if (fallback === 'cache') {
-      const cached = this.cache.get(url);
-      if (cached) {
+      const cached = await this.cache.getStale(url);
+      if (cached && (await this.isIntact(cached.data, ref))) {
         console.log(`Using stale cache for: ${url}`);
         return cached.data;
       }
     }
 
     if (fallback === 'placeholder') {
-      return this.getPlaceholder();
+      return this.getPlaceholder(ref, extensionId);
     }
 
     throw new Error(`Failed to load resource: ${url}`);
   }
 
+  private reportMissing(url: string, extensionId?: string): void {
+    if (!this.missingOffline.has(url)) {
+      this.missingOffline.add(url);
+      console.warn(`Resource not available offline: ${url}`);
+    }
+    this.emit('offline-missing', { url, extensionId });
+  }
+
+  private reportProgress(progress: OfflineProgress, options: OfflineBundleOptions): void {
+    try {
+      options.onProgress?.(progress);
+    } catch (error) {
+      console.error('Offline progress callback failed', error);
+    }
+    this.emit('offline-progress', progress);
+  }
+
   /**
-   * Get a placeholder blob
+   * Merge every page of a resource manifest into one
    */
-  private getPlaceholder(): Blob {
-    // Return a 1x1 transparent pixel
-    const data = new Uint8Array([
-      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d,
-      0x49, 0x48, 0x44, 0x52, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01,
-      0x08, 0x06, 0x00, 0x00, 0x00, 0x1f, 0x15, 0xc4, 0x89, 0x00, 0x00, 0x00,
-      0x0a, 0x49, 0x44, 0x41, 0x54, 0x78, 0x9c, 0x63, 0x00, 0x01, 0x00, 0x00,
-      0x05, 0x00, 0x01, 0x0d, 0x0a, 0x2d, 0xb4, 0x00, 0x00, 0x00, 0x00, 0x49,
-      0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
-    ]);
-    return new Blob([data], { type: 'image/png' });
+  private async collectManifestPages(baseUrl: string): Promise<CollectedManifest> {
+    const pages: ManifestPage[] = [];
+    let notModified = true;
+    const resources: ResourceReference[] = [];
+
+    for await (const page of this.fetchManifestPages(baseUrl)) {
+      pages.push(page);
+      notModified &&= page.notModified;
+      resources.push(...page.manifest.resources);
+    }
+
+    const manifest = pages[0].manifest;
+    const expected = manifest.pagination?.total;
+    if (expected !== undefined && expected !== resources.length) {
+      console.warn(
+        `Resource manifest at ${baseUrl} lists ${resources.length} of ${expected} resources`
+      );
+    }
+
+    return { manifest: { ...manifest, resources, pagination: undefined }, notModified, pages };
   }
 
   /**
-   * Check if circuit breaker is open for URL
+   * Walk every page of a resource manifest, verifying each one
    */
-  private isCircuitOpen(url: string): boolean {
-    const state = this.circuitBreakerState.get(url);
-    if (!state) return false;
+  private async *fetchManifestPages(
+    baseUrl: string
+  ): AsyncGenerator<ManifestPage, void, undefined> {
+    const visited = new Set<string>();
+    let url: string | undefined = `${baseUrl}/manifest.json`;
+
+    while (url) {
+      if (visited.has(url)) {
+        throw new Error(`Resource manifest pagination loops back to ${url}`);
+      }
+      visited.add(url);
 
-    const { failures, lastFailure, resetTimeout } = state;
-    const threshold = 5;
+      const page = await this.fetchManifestPage(url);
+      yield page;
 
-    // Reset if enough time has passed
-    if (Date.now() - lastFailure > resetTimeout) {
-      this.circuitBreakerState.delete(url);
-      return false;
+      const nextPage = page.manifest.pagination?.nextPage;
+      url = nextPage ? new URL(nextPage, url).toString() : undefined;
     }
+  }
+
+  /**
+   * Fetch one manifest page, revalidating the copy from the last response
+   */
+  private async fetchManifestPage(url: string): Promise<ManifestPage> {
+    if (this.offline) {
+      return this.loadOfflineManifestPage(url);
+    }
+
+    const known = this.manifestPages.get(url);
+    const headers: Record<string, string> = {};
+    if (known?.etag) headers['If-None-Match'] = known.etag;
+    if (known?.lastModified) headers['If-Modified-Since'] = known.lastModified;
+
+    try {
+      return await this.fetcher.request(url, { headers }, async (response) => {
+        if (response.status === 304 && known) {
+          return { url, manifest: known.manifest, notModified: true };
+        }
+        if (!response.ok) {
+          throw new HttpStatusError(url, response.status, response.statusText);
+        }
 
-    return failures >= threshold;
+        const manifest = (await response.json()) as CloudResourceManifest;
+        verifyResourceManifest(url, manifest);
+        this.manifestPages.set(url, {
+          manifest,
+          etag: response.headers.get('etag') ?? undefined,
+          lastModified: response.headers.get('last-modified') ?? undefined,
+        });
+        return { url, manifest, notModified: false };
+      });
+    } catch (error) {
+      console.error('Failed to load resource manifest:', error);
+      throw error;
+    }
   }
 
   /**
-   * Increment circuit breaker failure count
+   * Serve a manifest page from an offline bundle or from the last response
    */
-  private incrementCircuitBreaker(url: string): void {
-    const state = this.circuitBreakerState.get(url) || {
-      failures: 0,
-      lastFailure: 0,
-      resetTimeout: 60000, // 1 minute
-    };
+  private async loadOfflineManifestPage(url: string): Promise<ManifestPage> {
+    const cached = await this.cache.getStale(url);
+    if (cached) {
+      try {
+        const manifest = JSON.parse(await cached.data.text()) as CloudResourceManifest;
+        verifyResourceManifest(url, manifest);
+        return { url, manifest, notModified: true };
+      } catch (error) {
+        console.warn(`Discarding cached manifest page: ${url}`, error);
+      }
+    }
 
-    state.failures++;
-    state.lastFailure = Date.now();
-    this.circuitBreakerState.set(url, state);
+    const known = this.manifestPages.get(url);
+    if (known) {
+      return { url, manifest: known.manifest, notModified: true };
+    }
+
+    this.reportMissing(url);
+    throw new OfflineResourceError(url);
   }
 
   /**
-   * Reset circuit breaker on successful load
+   * Check cached content against its reference, dropping it when it does not match
    */
-  private resetCircuitBreaker(url: string): void {
-    this.circuitBreakerState.delete(url);
+  private async isIntact(data: Blob, ref?: ResourceReference): Promise<boolean> {
+    if (!ref) return true;
+    try {
+      await verifyResource(ref, data);
+      return true;
+    } catch (error) {
+      console.warn(`Discarding cached copy: ${(error as Error).message}`);
+      await this.cache.delete(ref.url);
+      return false;
+    }
   }
 
   /**
-   * Get cache statistics
+   * Get a placeholder for a resource that could not be loaded
+   * The extension's own placeholder for the resource type wins over the
+   * generated one, which is chosen by the reference's type and size
    */
-  public getCacheStats(): { size: number; urls: string[] } {
-    return {
-      size: this.cache.size,
-      urls: Array.from(this.cache.keys()),
-    };
+  private async getPlaceholder(ref?: ResourceReference, extensionId?: string): Promise<Blob> {
+    const shipped = extensionId ? this.packagePlaceholders.get(extensionId) : undefined;
+    const file = shipped && findPackagePlaceholder(shipped.placeholders, ref?.type ?? '');
+    if (shipped && file) {
+      try {
+        const path = join(shipped.directory, resolvePackagePath('placeholders', file));
+        return new Blob([await readFile(path)], { type: getPlaceholderType(file) });
+      } catch (error) {
+        console.warn(`Failed to read placeholder of ${extensionId}: ${file}`, error);
+      }
+    }
+
+    return createPlaceholder(ref);
+  }
+
+  private emit<E extends keyof CloudResourceEvents>(
+    event: E,
+    payload: CloudResourceEvents[E]
+  ): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        (listener as (payload: CloudResourceEvents[E]) => void)(payload);
+      } catch (error) {
+        console.error(`CloudResourceManager ${event} listener failed`, error);
+      }
+    }
+  }
+
+  /**
+   * Get cache statistics: stored bytes, hit ratio and usage per extension
+   */
+  public getCacheStats(): ResourceCacheStats {
+    return this.cache.getStats();
+  }
+}
+
+interface ManifestPage {
+  url: string;
+  manifest: CloudResourceManifest;
+  notModified: boolean;
+}
+
+interface InFlightRequest {
+  promise: Promise<Blob>;
+  /** Aborts the shared download */
+  controller: AbortController;
+  /** Reference the shared download is verified against */
+  ref?: ResourceReference;
+  /** Loads waiting for the download */
+  waiters: number;
+}
+
+interface PackagePlaceholders {
+  /** Install path of the extension */
+  directory: string;
+  placeholders: Record<string, string>;
+}
+
+interface CollectedManifest {
+  manifest: CloudResourceManifest;
+  notModified: boolean;
+  pages: ManifestPage[];
+}
+
+interface CachedManifestPage {
+  manifest: CloudResourceManifest;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Smallest variant of an image that covers a display size, as a reference
+ * to load; undefined when only the original is large enough
+ * The image is assumed to fit inside the display size, keeping its aspect ratio
+ */
+function selectVariant(
+  ref: ResourceReference,
+  displaySize: ResourceDimensions
+): ResourceReference | undefined {
+  const { dimensions } = ref as ImageResource;
+  const details = ref.variantDetails;
+  if (!dimensions || !details) return undefined;
+
+  const scale = Math.min(
+    1,
+    displaySize.width / dimensions.width,
+    displaySize.height / dimensions.height
+  );
+  const needed = Math.ceil(dimensions.width * scale);
+
+  let best: { name: ResourceVariantName; variant: ResourceVariant } | undefined;
+  for (const name of Object.keys(details) as ResourceVariantName[]) {
+    const variant = details[name];
+    if (!variant || variant.dimensions.width < needed) continue;
+    if (!best || variant.dimensions.width < best.variant.dimensions.width) {
+      best = { name, variant };
+    }
+  }
+  if (!best || best.variant.dimensions.width >= dimensions.width) return undefined;
+
+  const { variant } = best;
+  return {
+    id: `${ref.id}#${best.name}`,
+    filename: variant.url.slice(variant.url.lastIndexOf('/') + 1),
+    url: variant.url,
+    type: variant.type,
+    size: variant.size,
+    checksum: variant.checksum,
+  };
+}
+
+/**
+ * Wait for a promise, rejecting early with the signal's reason once it aborts
+ */
+function waitFor<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Throw unless content has the size and digest its reference declares
+ */
+async function verifyResource(ref: ResourceReference, data: Blob): Promise<void> {
+  if (data.size !== ref.size) {
+    throw new ResourceIntegrityError(
+      ref.url,
+      'size',
+      `expected ${ref.size} bytes, received ${data.size}`
+    );
+  }
+
+  const algorithm = toDigestAlgorithm(ref.checksum.algorithm);
+  if (!algorithm) {
+    throw new ResourceIntegrityError(
+      ref.url,
+      'algorithm',
+      `unsupported checksum algorithm ${ref.checksum.algorithm}`
+    );
+  }
+
+  const digest = computeChecksum(Buffer.from(await data.arrayBuffer()), algorithm);
+  if (digest !== ref.checksum.value.toLowerCase()) {
+    throw new ResourceIntegrityError(ref.url, 'digest', `${algorithm} checksum mismatch`);
   }
 }
 
-interface CircuitBreakerState {
-  failures: number;
-  lastFailure: number;
-  resetTimeout: number;
+/**
+ * Throw unless a resource manifest matches its integrity checksum
+ */
+function verifyResourceManifest(url: string, manifest: CloudResourceManifest): void {
+  const expected = manifest?.integrity?.checksum;
+  if (typeof expected !== 'string') {
+    throw new ResourceIntegrityError(url, 'missing', 'manifest has no integrity checksum');
+  }
+
+  const algorithm = expected.length === 128 ? 'sha512' : 'sha256';
+  if (getResourceManifestChecksum(manifest, algorithm) !== expected.toLowerCase()) {
+    throw new ResourceIntegrityError(url, 'digest', 'manifest checksum mismatch');
+  }
+}
+
+/**
+ * Map names such as `SHA-256` to a supported digest algorithm
+ */
+function toDigestAlgorithm(name: string): Checksum['algorithm'] | undefined {
+  const normalized = name.toLowerCase().replace('-', '');
+  return normalized === 'sha256' || normalized === 'sha512' ? normalized : undefined;
 }
 
 /**
  * Factory function to get the singleton instance
  */
-export function getCloudResourceManager(): CloudResourceManager {
-  return CloudResourceManager.getInstance();
+export function getCloudResourceManager(
+  options?: CloudResourceManagerOptions
+): CloudResourceManager {
+  return CloudResourceManager.getInstance(options);
 }
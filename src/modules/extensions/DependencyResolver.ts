@@ -0,0 +1,331 @@
+/**
+ * Dependency Resolver
+ * Builds the dependency graph of a set of extensions, picks one version per
+ * extension, and reports cycles, conflicts and a safe install order
+ */
+
+import type { ExtensionManifest } from '@/shared/types';
+import { compareSemver, matchesSemverRange } from '@/shared/utils';
+
+export type ManifestSource = 'installed' | 'candidate';
+
+export interface DependencyRequirement {
+  requiredBy: string;
+  range: string;
+  optional: boolean;
+}
+
+export interface MissingDependency {
+  id: string;
+  range: string;
+  requiredBy: string;
+  optional: boolean;
+}
+
+export interface DependencyConflict {
+  id: string;
+  requirements: DependencyRequirement[];
+  available: string[];
+  message: string;
+}
+
+export interface DependencyResolution {
+  ok: boolean;
+  /** Extension IDs in install/enable order (dependencies first) */
+  order: string[];
+  /** Selected manifest for every extension in the graph */
+  selected: Map<string, { manifest: ExtensionManifest; source: ManifestSource }>;
+  missing: MissingDependency[];
+  conflicts: DependencyConflict[];
+  cycles: string[][];
+  /** Human-readable explanation of every problem */
+  explanation: string[];
+}
+
+interface Provider {
+  manifest: ExtensionManifest;
+  source: ManifestSource;
+}
+
+/**
+ * Maximum passes spent re-selecting versions before giving up
+ */
+const MAX_SELECTION_PASSES = 10;
+
+export class DependencyResolver {
+  private readonly providers: Map<string, Provider[]> = new Map();
+
+  constructor(installed: ExtensionManifest[], candidates: ExtensionManifest[] = []) {
+    for (const manifest of installed) this.addProvider(manifest, 'installed');
+    for (const manifest of candidates) this.addProvider(manifest, 'candidate');
+
+    // Highest version first; candidates win over installed at the same version
+    for (const list of this.providers.values()) {
+      list.sort((a, b) => {
+        const byVersion = compareSemver(b.manifest.metadata.version, a.manifest.metadata.version);
+        if (byVersion !== 0) return byVersion;
+        return a.source === b.source ? 0 : a.source === 'candidate' ? -1 : 1;
+      });
+    }
+  }
+
+  /**
+   * Resolve the dependency graph reachable from the given extensions
+   */
+  public resolve(rootIds: string[]): DependencyResolution {
+    const pinned = new Map<string, Provider>();
+
+    for (let pass = 0; pass < MAX_SELECTION_PASSES; pass++) {
+      const walk = this.walk(rootIds, pinned);
+
+      // Re-pick a provider for every dependency whose selection violates a range
+      let changed = false;
+      for (const [id, requirements] of walk.requirements) {
+        const current = walk.selected.get(id);
+        if (!current || this.satisfiesAll(current, requirements)) continue;
+
+        const better = (this.providers.get(id) ?? []).find((provider) =>
+          this.satisfiesAll(provider, requirements)
+        );
+        if (better && better !== current) {
+          pinned.set(id, better);
+          changed = true;
+        }
+      }
+
+      if (!changed) {
+        return this.finish(walk);
+      }
+    }
+
+    return this.finish(this.walk(rootIds, pinned));
+  }
+
+  /**
+   * Find extensions that (transitively) depend on the given one
+   * Returned with the closest dependents first
+   */
+  public findDependents(extensionId: string, includeOptional = false): string[] {
+    const dependents: string[] = [];
+    const queue = [extensionId];
+    const seen = new Set(queue);
+
+    while (queue.length > 0) {
+      const target = queue.shift() as string;
+      for (const [id, list] of this.providers) {
+        if (seen.has(id)) continue;
+        const manifest = list[0].manifest;
+        const dependsOnTarget = manifest.requirements.dependencies.some(
+          (dep) => dep.id === target && (includeOptional || !dep.optional)
+        );
+        if (dependsOnTarget) {
+          seen.add(id);
+          dependents.push(id);
+          queue.push(id);
+        }
+      }
+    }
+
+    return dependents;
+  }
+
+  private addProvider(manifest: ExtensionManifest, source: ManifestSource): void {
+    const list = this.providers.get(manifest.metadata.id) ?? [];
+    list.push({ manifest, source });
+    this.providers.set(manifest.metadata.id, list);
+  }
+
+  private satisfiesAll(provider: Provider, requirements: DependencyRequirement[]): boolean {
+    return requirements.every((req) =>
+      matchesSemverRange(provider.manifest.metadata.version, req.range)
+    );
+  }
+
+  /**
+   * Breadth-first walk collecting the selected providers, edges and ranges
+   */
+  private walk(rootIds: string[], pinned: Map<string, Provider>) {
+    const selected = new Map<string, Provider>();
+    const edges = new Map<string, string[]>();
+    const requirements = new Map<string, DependencyRequirement[]>();
+    const missing: MissingDependency[] = [];
+    const queue: string[] = [];
+
+    const select = (id: string): boolean => {
+      if (selected.has(id)) return true;
+      const provider = pinned.get(id) ?? this.providers.get(id)?.[0];
+      if (!provider) return false;
+      selected.set(id, provider);
+      queue.push(id);
+      return true;
+    };
+
+    for (const id of rootIds) {
+      if (!select(id)) {
+        missing.push({ id, range: '*', requiredBy: '(requested)', optional: false });
+      }
+    }
+
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      const { manifest } = selected.get(id) as Provider;
+      const targets: string[] = [];
+
+      for (const dep of manifest.requirements.dependencies) {
+        if (!select(dep.id)) {
+          missing.push({ id: dep.id, range: dep.version, requiredBy: id, optional: dep.optional });
+          continue;
+        }
+
+        targets.push(dep.id);
+        const list = requirements.get(dep.id) ?? [];
+        list.push({ requiredBy: id, range: dep.version, optional: dep.optional });
+        requirements.set(dep.id, list);
+      }
+
+      edges.set(id, targets);
+    }
+
+    return { selected, edges, requirements, missing };
+  }
+
+  private finish(walk: ReturnType<DependencyResolver['walk']>): DependencyResolution {
+    const conflicts = this.findConflicts(walk.selected, walk.requirements);
+    const cycles = findCycles(walk.edges);
+    const requiredMissing = walk.missing.filter((dep) => !dep.optional);
+
+    const explanation = [
+      ...requiredMissing.map((dep) =>
+        dep.requiredBy === '(requested)'
+          ? `${dep.id} is not available`
+          : `${dep.requiredBy} requires ${dep.id} ${dep.range} but it is not installed or provided`
+      ),
+      ...conflicts.map((conflict) => conflict.message),
+      ...cycles.map((cycle) => `Circular dependency: ${[...cycle, cycle[0]].join(' -> ')}`),
+    ];
+
+    return {
+      ok: explanation.length === 0,
+      order: cycles.length === 0 ? topologicalOrder(walk.edges) : [],
+      selected: walk.selected,
+      missing: walk.missing,
+      conflicts,
+      cycles,
+      explanation,
+    };
+  }
+
+  private findConflicts(
+    selected: Map<string, Provider>,
+    requirements: Map<string, DependencyRequirement[]>
+  ): DependencyConflict[] {
+    const conflicts: DependencyConflict[] = [];
+
+    for (const [id, reqs] of requirements) {
+      const provider = selected.get(id) as Provider;
+      if (this.satisfiesAll(provider, reqs)) continue;
+
+      const available = (this.providers.get(id) ?? []).map((p) => p.manifest.metadata.version);
+      conflicts.push({
+        id,
+        requirements: reqs,
+        available,
+        message: describeConflict(id, reqs, available),
+      });
+    }
+
+    return conflicts;
+  }
+}
+
+/**
+ * Explain why no available version satisfies every requirement
+ * e.g. "A requires B ^2.0.0 but C pins B ~1.4.0"
+ */
+function describeConflict(
+  id: string,
+  requirements: DependencyRequirement[],
+  available: string[]
+): string {
+  for (let i = 0; i < requirements.length; i++) {
+    for (let j = i + 1; j < requirements.length; j++) {
+      const a = requirements[i];
+      const b = requirements[j];
+      const compatible = available.some(
+        (version) => matchesSemverRange(version, a.range) && matchesSemverRange(version, b.range)
+      );
+      if (!compatible) {
+        return `${a.requiredBy} requires ${id} ${a.range} but ${b.requiredBy} pins ${id} ${b.range}`;
+      }
+    }
+  }
+
+  const unmet = requirements.find(
+    (req) => !available.some((version) => matchesSemverRange(version, req.range))
+  );
+  if (unmet) {
+    return `${unmet.requiredBy} requires ${id} ${unmet.range} but only ${available.join(', ')} is available`;
+  }
+
+  const ranges = requirements.map((req) => `${req.requiredBy} (${req.range})`).join(', ');
+  return `No available version of ${id} satisfies ${ranges}`;
+}
+
+/**
+ * Find every elementary cycle reachable in the graph (one per strongly
+ * connected component, reported in traversal order)
+ */
+function findCycles(edges: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const next of edges.get(id) ?? []) {
+      const nextState = state.get(next);
+      if (nextState === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(next)));
+      } else if (!nextState) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of [...edges.keys()].sort()) {
+    if (!state.has(id)) visit(id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Order nodes so that every dependency comes before its dependents
+ */
+function topologicalOrder(edges: Map<string, string[]>): string[] {
+  const order: string[] = [];
+  const remaining = new Map(
+    [...edges.entries()].map(([id, deps]) => [id, new Set(deps.filter((dep) => edges.has(dep)))])
+  );
+
+  while (remaining.size > 0) {
+    const ready = [...remaining.entries()]
+      .filter(([, deps]) => deps.size === 0)
+      .map(([id]) => id)
+      .sort();
+    if (ready.length === 0) break;
+
+    for (const id of ready) {
+      order.push(id);
+      remaining.delete(id);
+      for (const deps of remaining.values()) deps.delete(id);
+    }
+  }
+
+  return order;
+}
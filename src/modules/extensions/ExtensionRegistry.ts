@@ -4,55 +4,470 @@
  * Following Clean Architecture principles (Application Layer)
  */
 
+import { access, mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
 import type {
+  BatchInstallResult,
+  Dependency,
   Extension,
+  ExtensionHealth,
   ExtensionManifest,
+  InstallErrorCode,
   InstallResult,
   DependencyCheck,
+  LifecycleHook,
+  Permission,
+  RegistryChangedEvent,
+  RollbackRecord,
+  TransactionOperation,
   ValidationResult,
+  VersionHistoryEntry,
 } from '@/shared/types';
-import { validateManifest, compareSemver } from '@/shared/utils';
+import {
+  validateManifest,
+  checkDependencies,
+  compareSemver,
+  matchesSemverRange,
+} from '@/shared/utils';
+import { PackageBuilder, PackageError } from '@/shared/services';
+import type {
+  PackageLimits,
+  PackageValidation,
+  UnsignedPackagePolicy,
+} from '@/shared/services';
+import { getCloudResourceManager } from './CloudResourceManager';
+import type { CloudResourceManager } from './CloudResourceManager';
+import { DependencyResolver } from './DependencyResolver';
+import type { DependencyResolution } from './DependencyResolver';
+import { getDefaultDataDir } from './dataDir';
+import { InstallError } from './errors';
+import { InstallTransaction } from './InstallTransaction';
+import { LifecycleSandbox } from './LifecycleSandbox';
+import { PermissionBroker } from './PermissionBroker';
+import type { ConsentPrompt } from './PermissionBroker';
+import { RegistryStore } from './RegistryStore';
+import { TrustStore } from './TrustStore';
+
+/**
+ * Executes a lifecycle hook; rejecting aborts the surrounding operation
+ */
+export type LifecycleHookRunner = (
+  extension: Extension,
+  hook: LifecycleHook,
+  script: string
+) => Promise<void>;
+
+export interface ExtensionRegistryOptions {
+  /** Root directory for installed extensions and registry state */
+  dataDir?: string;
+  /** Host application version used for compatibility checks */
+  appVersion?: string;
+  /** Executes manifest lifecycle hooks; defaults to the lifecycle sandbox */
+  hookRunner?: LifecycleHookRunner;
+  /** Asks the user to approve extension permissions */
+  consent?: ConsentPrompt;
+  /** Publisher keys accepted for signed packages; defaults to `<dataDir>/trusted-keys.json` */
+  trustStore?: TrustStore;
+  /** How unsigned packages are treated; defaults to `warn` */
+  unsignedPackagePolicy?: UnsignedPackagePolicy;
+  /** Number of replaced versions kept on disk for rollback */
+  maxVersionHistory?: number;
+  /** Extraction limits applied to every package; unset fields use the defaults */
+  packageLimits?: Partial<PackageLimits>;
+  /**
+   * Serves the placeholders extensions ship in their packages; defaults to
+   * the cloud resource manager, caching under `<dataDir>/resource-cache`
+   */
+  resources?: PlaceholderRegistry;
+}
+
+/**
+ * The part of the cloud resource manager that serves shipped placeholders
+ */
+export type PlaceholderRegistry = Pick<
+  CloudResourceManager,
+  'registerPlaceholders' | 'unregisterPlaceholders'
+>;
+
+export interface InstallOptions {
+  /** Enable the extension as part of the install transaction */
+  enable?: boolean;
+}
+
+export interface UpgradeOptions extends InstallOptions {
+  /** Allow installing an older or identical version */
+  force?: boolean;
+}
+
+export interface UninstallOptions {
+  /** Also uninstall every extension that depends on the target */
+  cascade?: boolean;
+  /** Asked before cascading; cascading without it counts as confirmed */
+  confirm?: (dependents: string[]) => Promise<boolean> | boolean;
+}
+
+export interface ExtensionRegistryEvents {
+  /** An extension was installed, updated, restored, uninstalled, enabled or disabled */
+  changed: RegistryChangedEvent;
+}
+
+interface PreparedPackage {
+  blob: Blob;
+  manifest: ExtensionManifest;
+  validation: ValidationResult;
+}
 
 export class ExtensionRegistry {
-  private static instance: ExtensionRegistry;
+  private static instance: ExtensionRegistry | undefined;
   private extensions: Map<string, Extension> = new Map();
-  private readonly appVersion = '1.0.0'; // Should come from config
+  private readonly appVersion: string;
+  private readonly dataDir: string;
+  private readonly packageBuilder: PackageBuilder;
+  private readonly store: RegistryStore;
+  private readonly trustStore: TrustStore;
+  private readonly unsignedPackagePolicy: UnsignedPackagePolicy;
+  private readonly permissions: PermissionBroker;
+  private readonly hookRunner: LifecycleHookRunner;
+  private readonly maxVersionHistory: number;
+  private readonly resources: PlaceholderRegistry;
+  private rollbacks: RollbackRecord[] = [];
+  private history: Map<string, VersionHistoryEntry[]> = new Map();
+  private listeners: Map<keyof ExtensionRegistryEvents, Set<(payload: never) => void>> =
+    new Map();
+
+  private constructor(options: ExtensionRegistryOptions = {}) {
+    this.appVersion = options.appVersion ?? '1.0.0';
+    this.dataDir = options.dataDir ?? getDefaultDataDir();
+    this.maxVersionHistory = options.maxVersionHistory ?? 3;
+    this.packageBuilder = new PackageBuilder({ limits: options.packageLimits });
+    this.store = new RegistryStore(join(this.dataDir, 'registry.json'));
+    this.trustStore =
+      options.trustStore ?? new TrustStore(join(this.dataDir, 'trusted-keys.json'));
+    this.unsignedPackagePolicy = options.unsignedPackagePolicy ?? 'warn';
+    this.resources =
+      options.resources ??
+      getCloudResourceManager({ cacheDir: join(this.dataDir, 'resource-cache') });
+
+    const state = this.store.load();
+    this.permissions = new PermissionBroker({
+      grants: state.permissions,
+      consent: options.consent,
+      auditLogPath: join(this.dataDir, 'permission-audit.log'),
+      onChange: () => this.persist(),
+    });
+    this.hookRunner = options.hookRunner ?? createSandboxHookRunner(this.permissions);
 
-  private constructor() {
-    // Private constructor for singleton
+    for (const extension of state.extensions) {
+      this.extensions.set(extension.id, extension);
+      this.syncPlaceholders(extension.id);
+    }
+    this.rollbacks = state.rollbacks;
+    this.history = new Map(Object.entries(state.history));
   }
 
   /**
    * Get singleton instance
+   * Options are only applied when the instance is first created, which is
+   * also when persisted registry state is loaded
    */
-  public static getInstance(): ExtensionRegistry {
+  public static getInstance(options?: ExtensionRegistryOptions): ExtensionRegistry {
     if (!ExtensionRegistry.instance) {
-      ExtensionRegistry.instance = new ExtensionRegistry();
+      ExtensionRegistry.instance = new ExtensionRegistry(options);
     }
     return ExtensionRegistry.instance;
   }
 
+  /**
+   * Drop the singleton instance (used by tests)
+   */
+  public static resetInstance(): void {
+    ExtensionRegistry.instance = undefined;
+  }
+
+  /**
+   * Subscribe to registry events, e.g. to keep the extension list current
+   * Returns a function that removes the listener
+   */
+  public on<E extends keyof ExtensionRegistryEvents>(
+    event: E,
+    listener: (payload: ExtensionRegistryEvents[E]) => void
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener as (payload: never) => void);
+    this.listeners.set(event, listeners);
+    return () => listeners.delete(listener as (payload: never) => void);
+  }
+
   /**
    * Install an extension from a .ldip package
+   * Runs as a transaction: any failure after staging restores the previous state
    */
-  public async install(packagePath: string): Promise<InstallResult> {
+  public async install(
+    packagePath: string,
+    options: InstallOptions = {}
+  ): Promise<InstallResult> {
+    let extensionId: string | undefined;
+
     try {
-      // This would extract and validate the package
-      // For now, this is a placeholder implementation
-      console.log('Installing extension from:', packagePath);
-      
+      const { blob, manifest, validation } = await this.preparePackage(packagePath);
+      extensionId = manifest.metadata.id;
+
+      if (this.extensions.has(extensionId)) {
+        throw new InstallError(
+          'ALREADY_INSTALLED',
+          `Extension already installed: ${extensionId}`
+        );
+      }
+
+      // Dependency resolution
+      const resolution = this.createResolver([manifest]).resolve([extensionId]);
+      if (!resolution.ok) {
+        return toResolutionFailure(extensionId, resolution);
+      }
+
+      const result = await this.applyPackage('install', blob, manifest, options);
+      return { ...result, warnings: validation.warnings };
+    } catch (error) {
+      return toFailureResult(error, extensionId);
+    }
+  }
+
+  /**
+   * Install several packages together, resolving the dependency graph
+   * across them and the installed extensions
+   * Packages are installed in dependency order, skipping those whose
+   * version is already installed; if one fails, the ones already applied by
+   * this batch are reverted
+   */
+  public async installAll(
+    packagePaths: string[],
+    options: InstallOptions = {}
+  ): Promise<BatchInstallResult> {
+    const prepared = new Map<string, PreparedPackage & { packagePath: string }>();
+
+    for (const packagePath of packagePaths) {
+      try {
+        const pkg = await this.preparePackage(packagePath);
+        prepared.set(pkg.manifest.metadata.id, { ...pkg, packagePath });
+      } catch (error) {
+        const failure = toFailureResult(error);
+        return {
+          success: false,
+          order: [],
+          results: [failure],
+          error: `Could not prepare ${packagePath}: ${failure.error}`,
+          details: failure.details,
+        };
+      }
+    }
+
+    const candidates = [...prepared.values()].map((pkg) => pkg.manifest);
+    const resolution = this.createResolver(candidates).resolve([...prepared.keys()]);
+    if (!resolution.ok) {
       return {
-        success: true,
-        extensionId: 'example-extension',
+        success: false,
+        order: resolution.order,
+        results: [],
+        error: 'Dependency resolution failed',
+        details: resolution.explanation,
       };
+    }
+
+    const order = resolution.order.filter((id) => prepared.has(id));
+    const results: InstallResult[] = [];
+    const applied: Array<{ id: string; previousVersion?: string }> = [];
+
+    for (const id of order) {
+      const pkg = prepared.get(id) as PreparedPackage & { packagePath: string };
+      const previousVersion = this.extensions.get(id)?.manifest.metadata.version;
+
+      if (previousVersion === pkg.manifest.metadata.version) {
+        results.push({
+          success: true,
+          extensionId: id,
+          warnings: [`${id}@${previousVersion} is already installed`],
+        });
+        continue;
+      }
+
+      const result = previousVersion
+        ? await this.upgrade(pkg.packagePath, options)
+        : await this.install(pkg.packagePath, options);
+      results.push(result);
+
+      if (!result.success) {
+        await this.revertBatch(applied);
+        return {
+          success: false,
+          order,
+          results,
+          error: `Installing ${id} failed: ${result.error}`,
+          details: result.details,
+        };
+      }
+
+      applied.push({ id, previousVersion });
+    }
+
+    return { success: true, order, results };
+  }
+
+  /**
+   * Replace an installed extension with the version in a .ldip package
+   * Downgrades (and reinstalls of the same version) require `force`
+   */
+  public async upgrade(
+    packagePath: string,
+    options: UpgradeOptions = {}
+  ): Promise<InstallResult> {
+    let extensionId: string | undefined;
+
+    try {
+      const { blob, manifest, validation } = await this.preparePackage(packagePath);
+      extensionId = manifest.metadata.id;
+
+      const current = this.extensions.get(extensionId);
+      if (!current) {
+        throw new InstallError('NOT_INSTALLED', `Extension not installed: ${extensionId}`);
+      }
+
+      const currentVersion = current.manifest.metadata.version;
+      const nextVersion = manifest.metadata.version;
+      if (compareSemver(nextVersion, currentVersion) <= 0 && !options.force) {
+        throw new InstallError(
+          'DOWNGRADE_REFUSED',
+          `Refusing to replace ${extensionId}@${currentVersion} with ${nextVersion}`,
+          ['Use force to install an older or identical version']
+        );
+      }
+
+      const conflicts = this.findDependentConflicts(extensionId, nextVersion);
+      if (conflicts.length > 0) {
+        throw new InstallError(
+          'DEPENDENT_CONFLICT',
+          `Installed extensions are incompatible with ${extensionId}@${nextVersion}`,
+          conflicts
+        );
+      }
+
+      const resolution = this.createResolver([manifest]).resolve([extensionId]);
+      if (!resolution.ok) {
+        return toResolutionFailure(extensionId, resolution);
+      }
+
+      const result = await this.applyPackage('upgrade', blob, manifest, options);
+      return { ...result, warnings: validation.warnings };
     } catch (error) {
+      return toFailureResult(error, extensionId);
+    }
+  }
+
+  /**
+   * Switch an extension back to a version kept in its history
+   */
+  public async restoreVersion(extensionId: string, version: string): Promise<InstallResult> {
+    const current = this.extensions.get(extensionId);
+    if (!current) {
+      return toFailureResult(
+        new InstallError('NOT_INSTALLED', `Extension not installed: ${extensionId}`),
+        extensionId
+      );
+    }
+
+    const versions = this.history.get(extensionId) ?? [];
+    const target = versions.find((entry) => entry.version === version);
+    if (!target) {
+      return toFailureResult(
+        new InstallError(
+          'VERSION_NOT_FOUND',
+          `Version ${version} of ${extensionId} is not available for rollback`,
+          versions.map((entry) => entry.version)
+        ),
+        extensionId
+      );
+    }
+
+    const conflicts = this.findDependentConflicts(extensionId, version);
+    if (conflicts.length > 0) {
+      return toFailureResult(
+        new InstallError(
+          'DEPENDENT_CONFLICT',
+          `Installed extensions are incompatible with ${extensionId}@${version}`,
+          conflicts
+        ),
+        extensionId
+      );
+    }
+
+    const snapshot: Extension = { ...current };
+    const previousHistory = [...versions];
+    const transaction = new InstallTransaction('restore', extensionId);
+
+    try {
+      const restored: Extension = {
+        id: extensionId,
+        manifest: target.manifest,
+        status: 'installed',
+        installPath: target.installPath,
+        installedAt: new Date(),
+      };
+
+      await transaction.run('verify', () => this.assertFilesMatch(restored));
+
+      await transaction.run(
+        'switch-version',
+        () => {
+          this.extensions.set(extensionId, restored);
+          this.history.set(extensionId, [
+            toHistoryEntry(snapshot),
+            ...versions.filter((entry) => entry !== target),
+          ]);
+          this.persist();
+        },
+        () => {
+          this.extensions.set(extensionId, snapshot);
+          this.history.set(extensionId, previousHistory);
+          this.persist();
+        }
+      );
+
+      await transaction.run(
+        'reconcile-permissions',
+        () => this.permissions.retainDeclared(target.manifest),
+        (previousGrants) => this.permissions.restoreGrants(extensionId, previousGrants)
+      );
+
+      if (snapshot.status === 'enabled') {
+        await transaction.run('onEnable', () => this.activate(restored));
+        await transaction.run('health-check', () => this.assertHealthy(extensionId));
+      }
+
+      await transaction.commit();
+      console.log(`Restored ${extensionId} to version ${version}`);
+      this.syncPlaceholders(extensionId);
+      this.emit('changed', { extensionId, change: 'restored', version });
+      return { success: true, extensionId };
+    } catch (error) {
+      const record = await transaction.rollback(error, snapshot.manifest.metadata.version);
+      this.recordRollback(record);
+
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        extensionId,
+        error: `restore failed at "${record.failedStep}" and was rolled back: ${record.reason}`,
+        errorCode: 'ROLLED_BACK',
+        rollback: record,
       };
     }
   }
 
+  /**
+   * Get the versions kept on disk for an extension, most recent first
+   */
+  public getVersionHistory(extensionId: string): VersionHistoryEntry[] {
+    return [...(this.history.get(extensionId) ?? [])];
+  }
+
   /**
    * Register an extension (after installation)
    */
@@ -73,6 +488,7 @@ export class ExtensionRegistry {
 
     // Register extension
     this.extensions.set(extension.id, extension);
+    this.persist();
     console.log(`Registered extension: ${extension.id}`);
   }
 
@@ -90,15 +506,13 @@ export class ExtensionRegistry {
       return;
     }
 
-    // Execute onEnable lifecycle hook
-    if (extension.manifest.lifecycle?.onEnable) {
-      // Execute lifecycle script (sandboxed)
-      console.log(`Executing onEnable hook for: ${extensionId}`);
-    }
-
-    extension.status = 'enabled';
-    extension.enabledAt = new Date();
-    console.log(`Enabled extension: ${extensionId}`);
+    await this.activate(extension);
+    this.syncPlaceholders(extensionId);
+    this.emit('changed', {
+      extensionId,
+      change: 'enabled',
+      version: extension.manifest.metadata.version,
+    });
   }
 
   /**
@@ -115,37 +529,232 @@ export class ExtensionRegistry {
       return;
     }
 
-    // Execute onDisable lifecycle hook
-    if (extension.manifest.lifecycle?.onDisable) {
-      console.log(`Executing onDisable hook for: ${extensionId}`);
-    }
-
-    extension.status = 'disabled';
-    console.log(`Disabled extension: ${extensionId}`);
+    await this.deactivate(extension);
+    this.syncPlaceholders(extensionId);
+    this.emit('changed', {
+      extensionId,
+      change: 'disabled',
+      version: extension.manifest.metadata.version,
+    });
   }
 
   /**
    * Uninstall an extension
+   * Refuses when enabled extensions depend on it, unless `cascade` is set
+   * and confirmed, in which case the dependents are uninstalled first,
+   * in the same transaction
    */
-  public async uninstall(extensionId: string): Promise<void> {
+  public async uninstall(
+    extensionId: string,
+    options: UninstallOptions = {}
+  ): Promise<void> {
     const extension = this.extensions.get(extensionId);
     if (!extension) {
       throw new Error(`Extension not found: ${extensionId}`);
     }
 
+    const dependents = this.getDependents(extensionId);
+    const enabledDependents = dependents.filter(
+      (id) => this.extensions.get(id)?.status === 'enabled'
+    );
+
+    if (enabledDependents.length > 0 && !options.cascade) {
+      throw new InstallError(
+        'HAS_DEPENDENTS',
+        `Cannot uninstall ${extensionId}: enabled extensions depend on it`,
+        enabledDependents.map((id) => `${id} depends on ${extensionId}`)
+      );
+    }
+
+    // Farthest dependents first so nothing is left with a missing dependency
+    const cascaded = options.cascade ? [...dependents].reverse() : [];
+    if (cascaded.length > 0) {
+      const confirmed = options.confirm ? await options.confirm(dependents) : true;
+      if (!confirmed) {
+        throw new InstallError(
+          'HAS_DEPENDENTS',
+          `Uninstall of ${extensionId} cancelled`,
+          dependents.map((id) => `${id} depends on ${extensionId}`)
+        );
+      }
+    }
+
+    await this.removeExtensions(extensionId, [...cascaded, extensionId]);
+  }
+
+  /**
+   * Get installed extensions that (transitively) require an extension
+   */
+  public getDependents(extensionId: string): string[] {
+    return this.createResolver().findDependents(extensionId);
+  }
+
+  /**
+   * Uninstall extensions in order as one transaction
+   * Files are moved aside and only deleted once every registry entry is
+   * gone; a failing step restores all of them
+   */
+  private async removeExtensions(extensionId: string, extensionIds: string[]): Promise<void> {
+    const transaction = new InstallTransaction('uninstall', extensionId);
+    const version = this.extensions.get(extensionId)?.manifest.metadata.version;
+
+    try {
+      for (const id of extensionIds) {
+        await this.runRemoveSteps(transaction, id, id === extensionId ? '' : ` ${id}`);
+      }
+      await transaction.commit();
+    } catch (error) {
+      const record = await transaction.rollback(error, version);
+      this.recordRollback(record);
+      throw new InstallError(
+        'ROLLED_BACK',
+        `Uninstall of ${extensionId} failed at "${record.failedStep}" and was rolled back: ${record.reason}`
+      );
+    }
+
+    for (const id of extensionIds) {
+      console.log(`Uninstalled extension: ${id}`);
+      this.syncPlaceholders(id);
+      this.emit('changed', { extensionId: id, change: 'uninstalled' });
+    }
+  }
+
+  /**
+   * Add the steps removing one extension to an uninstall transaction
+   * `suffix` tells the steps of cascaded dependents apart in rollback records
+   */
+  private async runRemoveSteps(
+    transaction: InstallTransaction,
+    extensionId: string,
+    suffix: string
+  ): Promise<void> {
+    const extension = this.extensions.get(extensionId) as Extension;
+
+    const snapshot: Extension = { ...extension };
+    const previousHistory = this.history.get(extensionId);
+    const previousGrants = this.permissions.getGrants(extensionId);
+    const extensionDir = this.getExtensionDir(extensionId);
+    const trashPath = join(this.dataDir, 'staging', `${transaction.id}-uninstall-${extensionId}`);
+    const restoreEntry = () => {
+      this.extensions.set(extensionId, snapshot);
+      if (previousHistory) this.history.set(extensionId, previousHistory);
+      this.permissions.restoreGrants(extensionId, previousGrants);
+      this.persist();
+    };
+
     // Disable first if enabled
     if (extension.status === 'enabled') {
-      await this.disable(extensionId);
+      await transaction.run(`disable${suffix}`, () => this.deactivate(extension), restoreEntry);
     }
 
     // Execute onUninstall lifecycle hook
-    if (extension.manifest.lifecycle?.onUninstall) {
-      console.log(`Executing onUninstall hook for: ${extensionId}`);
-    }
+    await transaction.run(`onUninstall${suffix}`, () => this.runHook(extension, 'onUninstall'));
+
+    await transaction.run(
+      `remove-files${suffix}`,
+      () => moveIfExists(extensionDir, trashPath),
+      async (moved) => {
+        if (moved) await rename(trashPath, extensionDir);
+      }
+    );
 
     // Remove from registry
-    this.extensions.delete(extensionId);
-    console.log(`Uninstalled extension: ${extensionId}`);
+    await transaction.run(
+      `unregister${suffix}`,
+      () => {
+        this.extensions.delete(extensionId);
+        this.history.delete(extensionId);
+        this.permissions.removeExtension(extensionId);
+        this.persist();
+      },
+      restoreEntry
+    );
+
+    transaction.onCommit(() => rm(trashPath, { recursive: true, force: true }));
+  }
+
+  /**
+   * Check that an installed extension is usable
+   */
+  public async checkHealth(extensionId: string): Promise<ExtensionHealth> {
+    const issues: string[] = [];
+    const extension = this.extensions.get(extensionId);
+
+    if (!extension) {
+      issues.push('Extension is not registered');
+    } else {
+      if (extension.status === 'error') {
+        issues.push(extension.error ?? 'Extension is in error state');
+      }
+
+      try {
+        const installed = JSON.parse(
+          await readFile(join(extension.installPath, 'manifest.json'), 'utf-8')
+        ) as ExtensionManifest;
+
+        if (
+          installed.metadata?.id !== extension.id ||
+          installed.metadata?.version !== extension.manifest.metadata.version
+        ) {
+          issues.push('Installed files do not match the registered version');
+        }
+      } catch {
+        issues.push(`Installed files missing or unreadable: ${extension.installPath}`);
+      }
+    }
+
+    return {
+      status: issues.length === 0 ? 'healthy' : 'unhealthy',
+      issues,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Publisher keys trusted for signed packages
+   */
+  public getTrustStore(): TrustStore {
+    return this.trustStore;
+  }
+
+  /**
+   * Permission grants, runtime checks and the audit log
+   */
+  public getPermissionBroker(): PermissionBroker {
+    return this.permissions;
+  }
+
+  /**
+   * Revoke a permission (or all of them) from an extension
+   * Revoking a required permission degrades an enabled extension
+   */
+  public revokePermission(extensionId: string, permission?: Permission): Permission[] {
+    const extension = this.extensions.get(extensionId);
+    if (!extension) {
+      throw new Error(`Extension not found: ${extensionId}`);
+    }
+
+    const revoked = this.permissions.revoke(extensionId, permission);
+    const requiredRevoked = revoked.filter((perm) =>
+      extension.manifest.permissions.required.includes(perm)
+    );
+
+    if (requiredRevoked.length > 0 && extension.status === 'enabled') {
+      extension.status = 'degraded';
+      extension.error = `Required permission revoked: ${requiredRevoked.join(', ')}`;
+      this.persist();
+    }
+
+    return revoked;
+  }
+
+  /**
+   * Get recorded rollbacks, most recent last
+   */
+  public getRollbackHistory(extensionId?: string): RollbackRecord[] {
+    return extensionId
+      ? this.rollbacks.filter((record) => record.extensionId === extensionId)
+      : [...this.rollbacks];
   }
 
   /**
@@ -180,20 +789,436 @@ export class ExtensionRegistry {
    * Check if all dependencies are satisfied
    */
   private checkDependencies(manifest: ExtensionManifest): DependencyCheck {
-    const missing = manifest.requirements.dependencies
-      .filter((dep) => !dep.optional)
-      .filter((dep) => {
-        const installed = this.extensions.get(dep.id);
-        if (!installed) return true;
-
-        // Check version compatibility
-        return compareSemver(installed.manifest.metadata.version, dep.version) < 0;
+    return checkDependencies(
+      manifest,
+      (id) => this.extensions.get(id)?.manifest.metadata.version
+    );
+  }
+
+  /**
+   * Read a package and run every check that has no side effects
+   */
+  private async preparePackage(packagePath: string): Promise<PreparedPackage> {
+    const blob = await this.readPackage(packagePath);
+
+    // Package integrity and signature
+    const packageValidation = await this.packageBuilder.validatePackage(blob, {
+      trustStore: this.trustStore,
+      unsignedPolicy: this.unsignedPackagePolicy,
+    });
+    if (!packageValidation.valid) {
+      throw new InstallError(
+        toPackageErrorCode(packageValidation),
+        'Package failed integrity validation',
+        packageValidation.errors
+      );
+    }
+
+    const { manifest } = await this.packageBuilder.extractPackage(blob);
+
+    // Manifest validation
+    const validation = this.validateExtension(manifest);
+    if (!validation.valid) {
+      throw new InstallError(
+        'MANIFEST_INVALID',
+        'Manifest validation failed',
+        validation.errors
+      );
+    }
+
+    validation.warnings = [...packageValidation.warnings, ...(validation.warnings ?? [])];
+    return { blob, manifest, validation };
+  }
+
+  /**
+   * Stage, activate and register a validated package as one transaction
+   * The previously installed version (if any) is kept until the new one is
+   * registered, enabled when required, and healthy
+   */
+  private async applyPackage(
+    operation: TransactionOperation,
+    blob: Blob,
+    manifest: ExtensionManifest,
+    options: InstallOptions
+  ): Promise<InstallResult> {
+    const extensionId = manifest.metadata.id;
+    const previous = this.extensions.get(extensionId);
+    const snapshot = previous ? { ...previous } : undefined;
+    const previousHistory = this.history.get(extensionId) ?? [];
+    const transaction = new InstallTransaction(operation, extensionId);
+    const stagingPath = join(this.dataDir, 'staging', transaction.id);
+    const backupPath = `${stagingPath}-previous`;
+    const installPath = this.getInstallPath(extensionId, manifest.metadata.version);
+
+    if (!(await this.permissions.requestInstallConsent(manifest))) {
+      return {
+        success: false,
+        extensionId,
+        error: `Required permissions were not accepted for ${extensionId}`,
+        errorCode: 'PERMISSION_DENIED',
+        details: manifest.permissions.required,
+      };
+    }
+
+    try {
+      await transaction.runGuarded(
+        'stage',
+        () => this.extractToDirectory(blob, stagingPath),
+        () => rm(stagingPath, { recursive: true, force: true })
+      );
+
+      await transaction.run('verify', () => this.verifyStagedFiles(stagingPath, manifest));
+
+      await transaction.run(
+        'activate-files',
+        async () => {
+          const replaced = await moveIfExists(installPath, backupPath);
+          await mkdir(dirname(installPath), { recursive: true });
+          await rename(stagingPath, installPath);
+          return replaced;
+        },
+        async (replaced) => {
+          await rm(installPath, { recursive: true, force: true });
+          if (replaced) await rename(backupPath, installPath);
+        }
+      );
+
+      const extension: Extension = {
+        id: extensionId,
+        manifest,
+        status: 'installed',
+        installPath,
+        installedAt: new Date(),
+      };
+
+      await transaction.run(
+        'register',
+        () => this.registerExtension(extension),
+        () => {
+          if (snapshot) {
+            this.extensions.set(extensionId, snapshot);
+          } else {
+            this.extensions.delete(extensionId);
+          }
+          this.history.set(extensionId, previousHistory);
+          this.persist();
+        }
+      );
+
+      await transaction.run(
+        'grant-permissions',
+        () => this.permissions.grantRequired(manifest),
+        (previousGrants) => this.permissions.restoreGrants(extensionId, previousGrants)
+      );
+
+      if (snapshot) {
+        await transaction.run('migrations', () =>
+          this.runMigrations(extension, snapshot.manifest.metadata.version)
+        );
+      }
+
+      await transaction.run('onInstall', () => this.runHook(extension, 'onInstall'));
+
+      const shouldEnable = options.enable ?? previous?.status === 'enabled';
+      if (shouldEnable) {
+        await transaction.run('onEnable', () => this.activate(extension));
+        await transaction.run('health-check', () => this.assertHealthy(extensionId));
+      }
+
+      transaction.onCommit(() => rm(backupPath, { recursive: true, force: true }));
+      if (snapshot && snapshot.installPath !== installPath) {
+        transaction.onCommit(() => this.archiveVersion(snapshot));
+      }
+      await transaction.commit();
+
+      console.log(`Installed extension: ${extensionId} -> ${installPath}`);
+      this.syncPlaceholders(extensionId);
+      this.emit('changed', {
+        extensionId,
+        change: snapshot ? 'updated' : 'installed',
+        version: manifest.metadata.version,
       });
+      return { success: true, extensionId };
+    } catch (error) {
+      const record = await transaction.rollback(error, snapshot?.manifest.metadata.version);
+      this.recordRollback(record);
 
-    return {
-      satisfied: missing.length === 0,
-      missing,
-    };
+      return {
+        success: false,
+        extensionId,
+        error: `${operation} failed at "${record.failedStep}" and was rolled back: ${record.reason}`,
+        errorCode: 'ROLLED_BACK',
+        details: error instanceof InstallError ? error.details : undefined,
+        rollback: record,
+      };
+    }
+  }
+
+  /**
+   * Build a resolver over the installed extensions, with candidates
+   * replacing installed versions of the same extension
+   */
+  private createResolver(candidates: ExtensionManifest[] = []): DependencyResolver {
+    const candidateIds = new Set(candidates.map((manifest) => manifest.metadata.id));
+    const installed = this.listExtensions()
+      .filter((extension) => !candidateIds.has(extension.id))
+      .map((extension) => extension.manifest);
+
+    return new DependencyResolver(installed, candidates);
+  }
+
+  /**
+   * Undo the packages applied by a failed batch, most recent first
+   */
+  private async revertBatch(
+    applied: Array<{ id: string; previousVersion?: string }>
+  ): Promise<void> {
+    for (const { id, previousVersion } of [...applied].reverse()) {
+      try {
+        if (previousVersion) {
+          await this.restoreVersion(id, previousVersion);
+        } else {
+          await this.removeExtensions(id, [id]);
+        }
+      } catch (error) {
+        console.error(`Failed to revert batch install of ${id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Keep a replaced version on disk and prune the oldest beyond the limit
+   */
+  private async archiveVersion(replaced: Extension): Promise<void> {
+    const activePath = this.extensions.get(replaced.id)?.installPath;
+    const versions = [
+      toHistoryEntry(replaced),
+      ...(this.history.get(replaced.id) ?? []).filter(
+        (entry) =>
+          entry.version !== replaced.manifest.metadata.version &&
+          entry.installPath !== activePath
+      ),
+    ];
+
+    const kept = versions.slice(0, this.maxVersionHistory);
+    this.history.set(replaced.id, kept);
+    this.persist();
+
+    for (const pruned of versions.slice(this.maxVersionHistory)) {
+      await rm(pruned.installPath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Run the upgrade migrations declared by the new version, in order
+   */
+  private async runMigrations(extension: Extension, fromVersion: string): Promise<void> {
+    const migrations = extension.manifest.lifecycle?.onInstall?.migrations ?? [];
+    for (const migration of migrations) {
+      console.log(
+        `Running migration ${migration} for ${extension.id} (from ${fromVersion})`
+      );
+      await this.hookRunner(extension, 'onInstall', migration);
+    }
+  }
+
+  /**
+   * Find installed extensions whose dependency range excludes a version
+   */
+  private findDependentConflicts(extensionId: string, version: string): string[] {
+    return this.listExtensions().flatMap((dependent) =>
+      dependent.manifest.requirements.dependencies
+        .filter(
+          (dep: Dependency) =>
+            dep.id === extensionId && !matchesSemverRange(version, dep.version)
+        )
+        .map((dep) => `${dependent.id} requires ${extensionId}@${dep.version}`)
+    );
+  }
+
+  /**
+   * Make sure the staged files are the package that was validated
+   */
+  private async verifyStagedFiles(
+    stagingPath: string,
+    manifest: ExtensionManifest
+  ): Promise<void> {
+    const staged = JSON.parse(
+      await readFile(join(stagingPath, 'manifest.json'), 'utf-8')
+    ) as ExtensionManifest;
+
+    if (
+      staged.metadata?.id !== manifest.metadata.id ||
+      staged.metadata?.version !== manifest.metadata.version
+    ) {
+      throw new InstallError('EXTRACTION_FAILED', 'Staged files do not match the package manifest');
+    }
+  }
+
+  /**
+   * Run the onEnable hook and mark the extension as enabled
+   */
+  private async activate(extension: Extension): Promise<void> {
+    // Execute onEnable lifecycle hook
+    await this.runHook(extension, 'onEnable');
+
+    extension.status = 'enabled';
+    extension.enabledAt = new Date();
+    extension.error = undefined;
+    this.persist();
+    console.log(`Enabled extension: ${extension.id}`);
+  }
+
+  /**
+   * Serve the placeholders of an installed extension unless it is disabled
+   */
+  private syncPlaceholders(extensionId: string): void {
+    const extension = this.extensions.get(extensionId);
+    if (extension && extension.status !== 'disabled') {
+      this.resources.registerPlaceholders(extension);
+    } else {
+      this.resources.unregisterPlaceholders(extensionId);
+    }
+  }
+
+  /**
+   * Run the onDisable hook and mark the extension as disabled
+   */
+  private async deactivate(extension: Extension): Promise<void> {
+    await this.runHook(extension, 'onDisable');
+
+    extension.status = 'disabled';
+    this.persist();
+    console.log(`Disabled extension: ${extension.id}`);
+  }
+
+  /**
+   * Throw when the files at an install path are not the registered version
+   */
+  private async assertFilesMatch(extension: Extension): Promise<void> {
+    await this.verifyStagedFiles(extension.installPath, extension.manifest);
+  }
+
+  /**
+   * Throw when an extension fails its health check
+   */
+  private async assertHealthy(extensionId: string): Promise<void> {
+    const health = await this.checkHealth(extensionId);
+    if (health.status !== 'healthy') {
+      throw new Error(`Health check failed: ${health.issues.join('; ')}`);
+    }
+  }
+
+  /**
+   * Execute a lifecycle hook declared in the manifest
+   * A failing onInstall/onEnable leaves the extension in `error`; a failing
+   * onDisable/onUninstall only degrades it. The failure is rethrown.
+   */
+  private async runHook(extension: Extension, hook: LifecycleHook): Promise<void> {
+    const script = extension.manifest.lifecycle?.[hook]?.script;
+    if (!script) return;
+
+    try {
+      await this.hookRunner(extension, hook, script);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      extension.status = hook === 'onInstall' || hook === 'onEnable' ? 'error' : 'degraded';
+      extension.error = `${hook} failed: ${message}`;
+      if (this.extensions.get(extension.id) === extension) {
+        this.persist();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a rollback so it can be shown to the user
+   */
+  private recordRollback(record: RollbackRecord): void {
+    this.rollbacks.push(record);
+    this.persist();
+    console.warn(
+      `Rolled back ${record.operation} of ${record.extensionId} at "${record.failedStep}": ${record.reason}`
+    );
+  }
+
+  private emit<E extends keyof ExtensionRegistryEvents>(
+    event: E,
+    payload: ExtensionRegistryEvents[E]
+  ): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        (listener as (payload: ExtensionRegistryEvents[E]) => void)(payload);
+      } catch (error) {
+        console.error(`ExtensionRegistry ${event} listener failed`, error);
+      }
+    }
+  }
+
+  /**
+   * Write the current registry state to disk
+   */
+  private persist(): void {
+    this.store.save({
+      extensions: this.listExtensions(),
+      rollbacks: this.rollbacks,
+      history: Object.fromEntries(this.history),
+      permissions: this.permissions.exportGrants(),
+    });
+  }
+
+  /**
+   * Read a .ldip package from disk
+   */
+  private async readPackage(packagePath: string): Promise<Blob> {
+    try {
+      const buffer = await readFile(packagePath);
+      return new Blob([buffer]);
+    } catch (error) {
+      throw new InstallError(
+        'PACKAGE_READ_FAILED',
+        `Could not read package: ${packagePath}`,
+        [error instanceof Error ? error.message : String(error)]
+      );
+    }
+  }
+
+  /**
+   * Write every package entry below the install directory
+   */
+  private async extractToDirectory(blob: Blob, targetDir: string): Promise<void> {
+    try {
+      const files = await this.packageBuilder.readFiles(blob);
+
+      await rm(targetDir, { recursive: true, force: true });
+      await mkdir(targetDir, { recursive: true });
+
+      for (const file of files) {
+        const filePath = join(targetDir, file.path);
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, file.content);
+      }
+    } catch (error) {
+      throw new InstallError(
+        error instanceof PackageError ? error.code : 'EXTRACTION_FAILED',
+        `Failed to extract package to ${targetDir}`,
+        [error instanceof Error ? error.message : String(error)]
+      );
+    }
+  }
+
+  /**
+   * Resolve the directory holding every installed version of an extension
+   */
+  private getExtensionDir(extensionId: string): string {
+    return join(this.dataDir, 'extensions', extensionId);
+  }
+
+  /**
+   * Resolve the install directory for an extension version
+   */
+  private getInstallPath(extensionId: string, version: string): string {
+    return join(this.getExtensionDir(extensionId), version);
   }
 
   /**
@@ -214,9 +1239,128 @@ export class ExtensionRegistry {
   }
 }
 
+/**
+ * Move a path if it exists, reporting whether anything was moved
+ */
+async function moveIfExists(from: string, to: string): Promise<boolean> {
+  try {
+    await access(from);
+  } catch {
+    return false;
+  }
+
+  await mkdir(dirname(to), { recursive: true });
+  await rename(from, to);
+  return true;
+}
+
+/**
+ * Convert a failed dependency resolution into an InstallResult
+ */
+function toResolutionFailure(
+  extensionId: string,
+  resolution: DependencyResolution
+): InstallResult {
+  const missing = resolution.missing.filter((dep) => !dep.optional);
+  const errorCode: InstallErrorCode =
+    resolution.cycles.length > 0
+      ? 'DEPENDENCY_CYCLE'
+      : resolution.conflicts.length > 0
+        ? 'DEPENDENCY_CONFLICT'
+        : 'DEPENDENCIES_MISSING';
+
+  return {
+    success: false,
+    extensionId,
+    error:
+      errorCode === 'DEPENDENCIES_MISSING'
+        ? `Missing dependencies: ${missing.map((dep) => dep.id).join(', ')}`
+        : 'Dependency resolution failed',
+    errorCode,
+    details: resolution.explanation,
+    missingDependencies: missing.map((dep) => ({
+      id: dep.id,
+      version: dep.range,
+      optional: false,
+    })),
+  };
+}
+
+/**
+ * Describe a replaced extension for the version history
+ */
+function toHistoryEntry(extension: Extension): VersionHistoryEntry {
+  return {
+    version: extension.manifest.metadata.version,
+    manifest: extension.manifest,
+    installPath: extension.installPath,
+    installedAt: extension.installedAt,
+    replacedAt: new Date(),
+  };
+}
+
+/**
+ * Convert an install error into a failed InstallResult
+ */
+function toFailureResult(error: unknown, extensionId?: string): InstallResult {
+  if (error instanceof InstallError) {
+    return {
+      success: false,
+      extensionId,
+      error: error.message,
+      errorCode: error.code,
+      details: error.details,
+    };
+  }
+
+  return {
+    success: false,
+    extensionId,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/**
+ * Error code for a package that failed integrity or signature checks
+ */
+function toPackageErrorCode(validation: PackageValidation): InstallErrorCode {
+  if (validation.errorCode) {
+    return validation.errorCode;
+  }
+  switch (validation.signature) {
+    case 'invalid':
+      return 'SIGNATURE_INVALID';
+    case 'untrusted':
+      return 'UNTRUSTED_PUBLISHER';
+    case 'unsigned':
+      return validation.errors.includes('Package is not signed')
+        ? 'UNSIGNED_PACKAGE'
+        : 'PACKAGE_INVALID';
+    default:
+      return 'PACKAGE_INVALID';
+  }
+}
+
+/**
+ * Default hook runner: executes scripts in the lifecycle sandbox, with
+ * API access decided by the permission broker
+ */
+function createSandboxHookRunner(permissions: PermissionBroker): LifecycleHookRunner {
+  const sandbox = new LifecycleSandbox({
+    isAvailable: (extension, permission, api) =>
+      permissions.isAvailable(extension.manifest, permission, api),
+    authorize: (extension, permission, api) =>
+      permissions.authorize(extension.manifest, permission, api),
+  });
+  return async (extension, hook, script) => {
+    console.log(`Executing ${hook} hook for: ${extension.id} (${script})`);
+    await sandbox.runHook(extension, hook, script);
+  };
+}
+
 /**
  * Factory function to get the singleton instance
  */
-export function getExtensionRegistry(): ExtensionRegistry {
-  return ExtensionRegistry.getInstance();
+export function getExtensionRegistry(options?: ExtensionRegistryOptions): ExtensionRegistry {
+  return ExtensionRegistry.getInstance(options);
 }
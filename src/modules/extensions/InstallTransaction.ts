@@ -0,0 +1,122 @@
+/**
+ * Install Transaction
+ * Runs registry operations as a sequence of undoable steps so that a
+ * failure at any point restores the previous state
+ */
+
+import type { RollbackRecord, TransactionOperation } from '@/shared/types';
+import { generateId } from '@/shared/utils/crypto';
+
+type UndoAction = () => Promise<void> | void;
+type CommitAction = () => Promise<void> | void;
+
+export class InstallTransaction {
+  public readonly id = generateId(8);
+  private readonly undoStack: Array<{ step: string; undo: UndoAction }> = [];
+  private readonly commitActions: CommitAction[] = [];
+  private currentStep = 'start';
+  private finished = false;
+
+  constructor(
+    public readonly operation: TransactionOperation,
+    public readonly extensionId: string
+  ) {}
+
+  /**
+   * Name of the step currently (or last) executed
+   */
+  public get step(): string {
+    return this.currentStep;
+  }
+
+  /**
+   * Execute a step and remember how to undo it
+   */
+  public async run<T>(
+    step: string,
+    action: () => Promise<T> | T,
+    undo?: (result: T) => Promise<void> | void
+  ): Promise<T> {
+    if (this.finished) {
+      throw new Error(`Transaction ${this.id} already finished`);
+    }
+
+    this.currentStep = step;
+    const result = await action();
+    if (undo) {
+      this.undoStack.push({ step, undo: () => undo(result) });
+    }
+    return result;
+  }
+
+  /**
+   * Execute a step whose undo does not need its result
+   * The undo is registered before the action runs, so a step that fails
+   * partway (e.g. an extraction that wrote some files) is cleaned up too
+   */
+  public async runGuarded<T>(
+    step: string,
+    action: () => Promise<T> | T,
+    undo: UndoAction
+  ): Promise<T> {
+    if (this.finished) {
+      throw new Error(`Transaction ${this.id} already finished`);
+    }
+
+    this.currentStep = step;
+    this.undoStack.push({ step, undo });
+    return action();
+  }
+
+  /**
+   * Register cleanup that must only happen once the transaction succeeds
+   */
+  public onCommit(action: CommitAction): void {
+    this.commitActions.push(action);
+  }
+
+  /**
+   * Finalize the transaction
+   * Cleanup failures are logged but never undo a successful operation
+   */
+  public async commit(): Promise<void> {
+    this.finished = true;
+    for (const action of this.commitActions) {
+      try {
+        await action();
+      } catch (error) {
+        console.warn(`Post-commit cleanup failed for ${this.extensionId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Undo every completed step in reverse order
+   */
+  public async rollback(error: unknown, restoredVersion?: string): Promise<RollbackRecord> {
+    this.finished = true;
+    const undoErrors: string[] = [];
+
+    for (const { step, undo } of [...this.undoStack].reverse()) {
+      try {
+        await undo();
+      } catch (undoError) {
+        const message = undoError instanceof Error ? undoError.message : String(undoError);
+        undoErrors.push(`${step}: ${message}`);
+        console.error(`Rollback step failed (${step}) for ${this.extensionId}:`, undoError);
+      }
+    }
+
+    return {
+      id: this.id,
+      extensionId: this.extensionId,
+      operation: this.operation,
+      failedStep: this.currentStep,
+      reason: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+      restoredVersion,
+      complete: undoErrors.length === 0,
+      undoErrors: undoErrors.length > 0 ? undoErrors : undefined,
+    };
+  }
+}
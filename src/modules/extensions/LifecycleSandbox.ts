@@ -0,0 +1,471 @@
+/**
+ * Lifecycle Sandbox
+ * Runs extension lifecycle scripts in an isolated worker with a bare
+ * JavaScript context: no Node globals or host objects, a hard timeout, a
+ * memory cap, and only the APIs allowed by the extension's granted
+ * permissions
+ */
+
+import { readFile } from 'fs/promises';
+import { isAbsolute, join, normalize, relative } from 'path';
+import { Worker } from 'worker_threads';
+import type { Extension, LifecycleHook, Permission } from '@/shared/types';
+
+export type SandboxApiMethod =
+  | 'document.read'
+  | 'document.write'
+  | 'templates.list'
+  | 'templates.create'
+  | 'resources.get'
+  | 'network.fetch'
+  | 'storage.read'
+  | 'storage.write'
+  | 'files.read'
+  | 'files.write';
+
+/**
+ * Permission required for each sandbox API
+ */
+export const SANDBOX_API_PERMISSIONS: Record<SandboxApiMethod, Permission> = {
+  'document.read': 'document-read',
+  'document.write': 'document-write',
+  'templates.list': 'template-read',
+  'templates.create': 'template-create',
+  'resources.get': 'resource-read',
+  'network.fetch': 'network-access',
+  'storage.read': 'cloud-storage-read',
+  'storage.write': 'cloud-storage-write',
+  'files.read': 'file-system-read',
+  'files.write': 'file-system-write',
+};
+
+export type SandboxApiHandler = (
+  extension: Extension,
+  ...args: unknown[]
+) => Promise<unknown> | unknown;
+
+export type SandboxErrorCode =
+  | 'INVALID_SCRIPT'
+  | 'SCRIPT_FAILED'
+  | 'TIMEOUT'
+  | 'MEMORY_LIMIT';
+
+export class SandboxError extends Error {
+  public readonly code: SandboxErrorCode;
+
+  constructor(code: SandboxErrorCode, message: string) {
+    super(message);
+    this.name = 'SandboxError';
+    this.code = code;
+  }
+}
+
+export interface LifecycleSandboxOptions {
+  /** Host implementations of the sandbox APIs */
+  handlers?: Partial<Record<SandboxApiMethod, SandboxApiHandler>>;
+  /** Whether an API is offered to the script; defaults to manifest `required` */
+  isAvailable?: (extension: Extension, permission: Permission, api: SandboxApiMethod) => boolean;
+  /** Checked on every API call; defaults to `isAvailable` */
+  authorize?: (
+    extension: Extension,
+    permission: Permission,
+    api: SandboxApiMethod
+  ) => Promise<boolean> | boolean;
+  /** Timeout used when the manifest does not set one (ms) */
+  defaultTimeout?: number;
+  /** Heap limit for the worker running the script (MB) */
+  memoryLimitMb?: number;
+}
+
+export interface SandboxRunOptions {
+  hook: LifecycleHook;
+  timeout?: number;
+}
+
+export interface SandboxResult {
+  durationMs: number;
+  logs: string[];
+}
+
+/**
+ * Code run inside the worker thread
+ * The vm context gets a null-prototype global and no host objects or
+ * functions: its bootstrap is evaluated from source, and the worker talks to
+ * it by calling functions the bootstrap created and passing primitives only.
+ * Outgoing messages are queued inside the context and collected as a JSON
+ * string after each step. The context has its own microtask queue, so the
+ * script only runs while the worker evaluates in it, always under the
+ * timeout.
+ */
+const WORKER_SOURCE = `
+'use strict';
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const BOOTSTRAP = \`(function (methods, info) {
+  'use strict';
+  const outbox = [];
+  const pending = new Map();
+  let nextCallId = 0;
+  let status = 'pending';
+  let error = '';
+
+  const describe = (value) =>
+    value && typeof value === 'object' && 'message' in value
+      ? String(value.message)
+      : String(value);
+  const format = (args) =>
+    args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ');
+  const safeConsole = {};
+  for (const level of ['log', 'info', 'warn', 'error']) {
+    safeConsole[level] = (...args) => {
+      outbox.push({ type: 'log', level, message: format(args) });
+    };
+  }
+  const api = {};
+  for (const method of JSON.parse(methods)) {
+    const path = method.split('.');
+    let target = api;
+    for (const key of path.slice(0, -1)) target = target[key] = target[key] || {};
+    target[path[path.length - 1]] = (...args) =>
+      new Promise((resolve, reject) => {
+        const id = nextCallId++;
+        pending.set(id, { resolve, reject });
+        outbox.push({ type: 'call', id, method, args: JSON.stringify(args) });
+      });
+  }
+  const context = Object.freeze(Object.assign(JSON.parse(info), { api: Object.freeze(api) }));
+  const module = { exports: {} };
+  Object.defineProperty(globalThis, 'console', { value: Object.freeze(safeConsole) });
+  Object.defineProperty(globalThis, 'lousa', { value: Object.freeze(api) });
+  globalThis.module = module;
+  globalThis.exports = module.exports;
+
+  return Object.freeze({
+    start(hook) {
+      Promise.resolve()
+        .then(() => {
+          const exported = module.exports;
+          if (typeof exported === 'function') return exported(context);
+          if (exported && typeof exported[hook] === 'function') return exported[hook](context);
+          if (typeof globalThis[hook] === 'function') return globalThis[hook](context);
+        })
+        .then(
+          () => {
+            status = 'done';
+          },
+          (reason) => {
+            status = 'failed';
+            error = describe(reason);
+          }
+        );
+    },
+    deliver(id, failure, value) {
+      const call = pending.get(id);
+      if (!call) return;
+      pending.delete(id);
+      if (failure !== undefined) call.reject(new Error(failure));
+      else call.resolve(value === undefined ? undefined : JSON.parse(value));
+    },
+    take() {
+      return JSON.stringify({ messages: outbox.splice(0, outbox.length), status, error });
+    },
+  });
+})\`;
+
+const { source, filename, hook, methods, info, timeout } = workerData;
+const FLUSH = new vm.Script('undefined');
+let sandbox;
+let port;
+let outstanding = 0;
+let finished = false;
+
+function describe(error) {
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+function finish(message) {
+  finished = true;
+  parentPort.postMessage(message);
+}
+
+function fail(error) {
+  if (finished) return;
+  finish(
+    error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+      ? { type: 'timeout' }
+      : { type: 'failed', message: describe(error) }
+  );
+}
+
+/**
+ * Run pending continuations, then forward what the script queued
+ */
+function pump() {
+  FLUSH.runInContext(sandbox, { timeout });
+
+  const raw = port.take();
+  if (typeof raw !== 'string') throw new Error('Sandbox state is unreadable');
+  const { messages, status, error } = JSON.parse(raw);
+
+  for (const message of Array.isArray(messages) ? messages : []) {
+    if (message && message.type === 'log') {
+      parentPort.postMessage({
+        type: 'log',
+        level: String(message.level),
+        message: String(message.message),
+      });
+    } else if (message && message.type === 'call' && typeof message.id === 'number') {
+      outstanding++;
+      parentPort.postMessage({
+        type: 'api-call',
+        id: message.id,
+        method: String(message.method),
+        args: String(message.args),
+      });
+    }
+  }
+
+  if (status === 'done') finish({ type: 'done' });
+  else if (status === 'failed') finish({ type: 'failed', message: String(error) });
+  else if (outstanding === 0) finish({ type: 'failed', message: hook + ' never settled' });
+}
+
+parentPort.on('message', (reply) => {
+  if (finished) return;
+  try {
+    outstanding--;
+    port.deliver(
+      reply.id,
+      reply.error === undefined ? undefined : String(reply.error),
+      reply.value === undefined ? undefined : String(reply.value)
+    );
+    pump();
+  } catch (error) {
+    fail(error);
+  }
+});
+
+try {
+  sandbox = vm.createContext(Object.create(null), {
+    name: filename,
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate',
+  });
+  port = vm.runInContext(
+    '(' + BOOTSTRAP + ')(' + JSON.stringify(methods) + ', ' + JSON.stringify(info) + ')',
+    sandbox
+  );
+  vm.runInContext(source, sandbox, { filename, timeout });
+  port.start(hook);
+  pump();
+} catch (error) {
+  fail(error);
+}
+`;
+
+export class LifecycleSandbox {
+  private readonly handlers: Partial<Record<SandboxApiMethod, SandboxApiHandler>>;
+  private readonly isAvailable: NonNullable<LifecycleSandboxOptions['isAvailable']>;
+  private readonly authorize: NonNullable<LifecycleSandboxOptions['authorize']>;
+  private readonly defaultTimeout: number;
+  private readonly memoryLimitMb: number;
+
+  constructor(options: LifecycleSandboxOptions = {}) {
+    this.handlers = options.handlers ?? {};
+    this.isAvailable =
+      options.isAvailable ??
+      ((extension, permission) => extension.manifest.permissions.required.includes(permission));
+    this.authorize = options.authorize ?? this.isAvailable;
+    this.defaultTimeout = options.defaultTimeout ?? 5000;
+    this.memoryLimitMb = options.memoryLimitMb ?? 64;
+  }
+
+  /**
+   * Run the script of a lifecycle hook (or a migration) for an extension
+   * Uses the timeout declared for the hook in the manifest
+   */
+  public async runHook(
+    extension: Extension,
+    hook: LifecycleHook,
+    script: string
+  ): Promise<SandboxResult> {
+    return this.runScript(extension, script, {
+      hook,
+      timeout: extension.manifest.lifecycle?.[hook]?.timeout,
+    });
+  }
+
+  /**
+   * Run a script packaged under `scripts/` in the extension install path
+   */
+  public async runScript(
+    extension: Extension,
+    script: string,
+    options: SandboxRunOptions
+  ): Promise<SandboxResult> {
+    const scriptPath = resolveScriptPath(extension.installPath, script);
+
+    let source: string;
+    try {
+      source = await readFile(scriptPath, 'utf-8');
+    } catch {
+      throw new SandboxError('INVALID_SCRIPT', `Lifecycle script not found: ${script}`);
+    }
+
+    const methods = this.getAllowedMethods(extension);
+    const timeout = options.timeout ?? this.defaultTimeout;
+    const logs: string[] = [];
+    const startedAt = Date.now();
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        source,
+        filename: script,
+        hook: options.hook,
+        methods: JSON.stringify(methods),
+        info: JSON.stringify({
+          extensionId: extension.id,
+          version: extension.manifest.metadata.version,
+          hook: options.hook,
+          script,
+        }),
+        timeout,
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: this.memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(this.memoryLimitMb / 4)),
+      },
+      stdout: true,
+      stderr: true,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      let settled = false;
+      const finish = (error?: SandboxError) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        void worker.terminate();
+        if (error) reject(error);
+        else resolve();
+      };
+
+      const timer = setTimeout(() => {
+        finish(new SandboxError('TIMEOUT', `${options.hook} timed out after ${timeout}ms`));
+      }, timeout);
+
+      worker.on('message', (message: WorkerMessage) => {
+        switch (message.type) {
+          case 'log':
+            logs.push(`[${message.level}] ${message.message}`);
+            console.log(`[${extension.id}:${options.hook}] ${message.message}`);
+            break;
+          case 'api-call':
+            void this.handleApiCall(extension, methods, message).then((reply) => {
+              if (!settled) worker.postMessage(reply);
+            });
+            break;
+          case 'done':
+            finish();
+            break;
+          case 'failed':
+            finish(new SandboxError('SCRIPT_FAILED', message.message));
+            break;
+          case 'timeout':
+            finish(new SandboxError('TIMEOUT', `${options.hook} timed out after ${timeout}ms`));
+            break;
+        }
+      });
+
+      worker.on('error', (error: Error & { code?: string }) => {
+        if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+          finish(
+            new SandboxError('MEMORY_LIMIT', `${options.hook} exceeded ${this.memoryLimitMb}MB`)
+          );
+        } else if (/Script execution timed out/.test(error.message)) {
+          finish(new SandboxError('TIMEOUT', `${options.hook} timed out after ${timeout}ms`));
+        } else {
+          finish(new SandboxError('SCRIPT_FAILED', error.message));
+        }
+      });
+
+      worker.on('exit', () => {
+        finish(new SandboxError('SCRIPT_FAILED', `${options.hook} exited unexpectedly`));
+      });
+    });
+
+    return { durationMs: Date.now() - startedAt, logs };
+  }
+
+  /**
+   * APIs the extension may call given its granted permissions
+   */
+  public getAllowedMethods(extension: Extension): SandboxApiMethod[] {
+    return (Object.keys(SANDBOX_API_PERMISSIONS) as SandboxApiMethod[]).filter((method) =>
+      this.isAvailable(extension, SANDBOX_API_PERMISSIONS[method], method)
+    );
+  }
+
+  /**
+   * Execute an API call on behalf of the script once it is authorized
+   */
+  private async handleApiCall(
+    extension: Extension,
+    allowed: SandboxApiMethod[],
+    call: Extract<WorkerMessage, { type: 'api-call' }>
+  ): Promise<{ id: number; value?: string; error?: string }> {
+    const method = call.method as SandboxApiMethod;
+
+    if (
+      !allowed.includes(method) ||
+      !(await this.authorize(extension, SANDBOX_API_PERMISSIONS[method], method))
+    ) {
+      return { id: call.id, error: `Permission denied: ${call.method}` };
+    }
+
+    const handler = this.handlers[method];
+    if (!handler) {
+      return { id: call.id, error: `API not available: ${call.method}` };
+    }
+
+    try {
+      const args = JSON.parse(call.args) as unknown[];
+      const result = await handler(extension, ...args);
+      return { id: call.id, value: result === undefined ? undefined : JSON.stringify(result) };
+    } catch (error) {
+      return { id: call.id, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+type WorkerMessage =
+  | { type: 'log'; level: string; message: string }
+  | { type: 'api-call'; id: number; method: string; args: string }
+  | { type: 'done' }
+  | { type: 'failed'; message: string }
+  | { type: 'timeout' };
+
+/**
+ * Resolve a manifest script reference ("on-enable.js" or
+ * "./scripts/on-enable.js") to a file under the package's scripts/ folder
+ */
+function resolveScriptPath(installPath: string, script: string): string {
+  const normalized = normalize(script).replace(/\\/g, '/').replace(/^\.\//, '');
+  const relativePath = normalized.startsWith('scripts/') ? normalized : `scripts/${normalized}`;
+
+  const scriptsDir = join(installPath, 'scripts');
+  const resolved = join(installPath, relativePath);
+  const inside = relative(scriptsDir, resolved);
+
+  if (isAbsolute(script) || inside.startsWith('..') || isAbsolute(inside) || inside === '') {
+    throw new SandboxError(
+      'INVALID_SCRIPT',
+      `Lifecycle scripts must live under scripts/: ${script}`
+    );
+  }
+
+  return resolved;
+}
@@ -0,0 +1,384 @@
+/**
+ * Permission Broker
+ * Keeps the permissions granted to each extension and enforces them at
+ * runtime. Every check, request and change is recorded in an audit log.
+ */
+
+import { appendFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type {
+  ConsentRequest,
+  ExtensionManifest,
+  Permission,
+  PermissionAuditAction,
+  PermissionAuditEntry,
+  PermissionGrant,
+} from '@/shared/types';
+import { RESTRICTED_PERMISSIONS, validatePermissions } from '@/shared/utils';
+import { PermissionDeniedError } from './errors';
+
+/**
+ * Capabilities whose APIs must also be listed in `restrictedApis`
+ */
+export const GATED_PERMISSIONS: Permission[] = [
+  'network-access',
+  'file-system-read',
+  'file-system-write',
+  'cloud-storage-read',
+  'cloud-storage-write',
+];
+
+/**
+ * Number of audit entries kept in memory
+ */
+const MAX_AUDIT_ENTRIES = 1000;
+
+const NOT_GRANTED_OPTIONAL = 'optional permission not granted';
+
+export type ConsentPrompt = (request: ConsentRequest) => Promise<boolean> | boolean;
+
+export interface PermissionBrokerOptions {
+  /** Grants restored from persisted registry state */
+  grants?: Record<string, PermissionGrant[]>;
+  /**
+   * Asks the user to approve permissions
+   * Without it, installing counts as accepting the required permissions
+   * and runtime requests for optional ones are denied
+   */
+  consent?: ConsentPrompt;
+  /** JSON lines file every audit entry is appended to */
+  auditLogPath?: string;
+  /** Called whenever grants change so they can be persisted */
+  onChange?: () => void;
+}
+
+export interface PermissionDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+export interface AuditLogFilter {
+  extensionId?: string;
+  deniedOnly?: boolean;
+}
+
+export class PermissionBroker {
+  private readonly grants: Map<string, PermissionGrant[]>;
+  private readonly auditLog: PermissionAuditEntry[] = [];
+  private readonly consent?: ConsentPrompt;
+  private readonly auditLogPath?: string;
+  private readonly onChange: () => void;
+
+  constructor(options: PermissionBrokerOptions = {}) {
+    this.grants = new Map(Object.entries(options.grants ?? {}));
+    this.consent = options.consent;
+    this.auditLogPath = options.auditLogPath;
+    this.onChange = options.onChange ?? (() => undefined);
+  }
+
+  /**
+   * Ask the user to accept the required permissions of a package
+   * Only permissions that are not granted yet are presented
+   */
+  public async requestInstallConsent(manifest: ExtensionManifest): Promise<boolean> {
+    const extensionId = manifest.metadata.id;
+    const pending = manifest.permissions.required.filter(
+      (permission) => !this.isGranted(extensionId, permission)
+    );
+
+    if (pending.length === 0 || !this.consent) {
+      return true;
+    }
+
+    const { restrictedPermissions } = validatePermissions(manifest);
+    const approved = await this.consent({
+      extensionId,
+      extensionName: manifest.metadata.name,
+      permissions: pending,
+      restricted: restrictedPermissions.filter((permission) => pending.includes(permission)),
+      stage: 'install',
+    });
+
+    for (const permission of pending) {
+      this.audit(extensionId, permission, 'request', approved, {
+        reason: approved ? 'accepted at install' : 'declined at install',
+      });
+    }
+    return approved;
+  }
+
+  /**
+   * Grant the required permissions of a manifest
+   * Grants for permissions the manifest no longer declares are dropped.
+   * Returns the previous grants so the change can be undone.
+   */
+  public grantRequired(manifest: ExtensionManifest): PermissionGrant[] {
+    const extensionId = manifest.metadata.id;
+    const previous = this.getGrants(extensionId);
+    const declared = [...manifest.permissions.required, ...manifest.permissions.optional];
+    const next = previous.filter((grant) => declared.includes(grant.permission));
+
+    for (const permission of manifest.permissions.required) {
+      if (next.some((grant) => grant.permission === permission)) continue;
+      next.push({ permission, source: 'install', grantedAt: new Date() });
+      this.audit(extensionId, permission, 'grant', true, { reason: 'required at install' });
+    }
+
+    this.setGrants(extensionId, next);
+    return previous;
+  }
+
+  /**
+   * Drop grants for permissions a manifest does not declare, e.g. after
+   * switching to an older version of the extension
+   * Returns the previous grants so the change can be undone
+   */
+  public retainDeclared(manifest: ExtensionManifest): PermissionGrant[] {
+    const extensionId = manifest.metadata.id;
+    const previous = this.getGrants(extensionId);
+    const declared = [...manifest.permissions.required, ...manifest.permissions.optional];
+    const kept = previous.filter((grant) => declared.includes(grant.permission));
+    if (kept.length === previous.length) {
+      return previous;
+    }
+
+    for (const grant of previous.filter((grant) => !kept.includes(grant))) {
+      this.audit(extensionId, grant.permission, 'revoke', false, {
+        reason: 'not declared by the active version',
+      });
+    }
+    this.setGrants(extensionId, kept);
+    return previous;
+  }
+
+  /**
+   * Replace the grants of an extension (used to undo changes)
+   */
+  public restoreGrants(extensionId: string, grants: PermissionGrant[]): void {
+    this.setGrants(extensionId, grants);
+  }
+
+  /**
+   * Forget every grant of an uninstalled extension
+   * Returns the removed grants so the change can be undone
+   */
+  public removeExtension(extensionId: string): PermissionGrant[] {
+    const previous = this.getGrants(extensionId);
+    this.setGrants(extensionId, []);
+    return previous;
+  }
+
+  public getGrants(extensionId: string): PermissionGrant[] {
+    return [...(this.grants.get(extensionId) ?? [])];
+  }
+
+  public isGranted(extensionId: string, permission: Permission): boolean {
+    return (this.grants.get(extensionId) ?? []).some((grant) => grant.permission === permission);
+  }
+
+  /**
+   * Whether an API backed by the permission may be offered to the extension,
+   * either because it is allowed or because it can be requested
+   */
+  public isAvailable(manifest: ExtensionManifest, permission: Permission, api?: string): boolean {
+    const decision = this.evaluate(manifest, permission, api);
+    return decision.allowed || decision.reason === NOT_GRANTED_OPTIONAL;
+  }
+
+  /**
+   * Decide whether an extension may use a permission right now
+   * Recorded in the audit log; never prompts the user
+   */
+  public check(manifest: ExtensionManifest, permission: Permission, api?: string): PermissionDecision {
+    const decision = this.evaluate(manifest, permission, api);
+    this.audit(manifest.metadata.id, permission, 'check', decision.allowed, {
+      api,
+      reason: decision.reason,
+    });
+    return decision;
+  }
+
+  /**
+   * Throw a PermissionDeniedError unless the permission is allowed
+   */
+  public assert(manifest: ExtensionManifest, permission: Permission, api?: string): void {
+    const decision = this.check(manifest, permission, api);
+    if (!decision.allowed) {
+      throw new PermissionDeniedError(manifest.metadata.id, permission, decision.reason);
+    }
+  }
+
+  /**
+   * Check a permission, requesting it when it is an optional one that has
+   * not been granted yet
+   */
+  public async authorize(
+    manifest: ExtensionManifest,
+    permission: Permission,
+    api?: string
+  ): Promise<boolean> {
+    const decision = this.check(manifest, permission, api);
+    if (decision.allowed) return true;
+    if (decision.reason !== NOT_GRANTED_OPTIONAL) return false;
+    return this.request(manifest, permission, api);
+  }
+
+  /**
+   * Ask the user for an optional permission
+   */
+  public async request(
+    manifest: ExtensionManifest,
+    permission: Permission,
+    api?: string
+  ): Promise<boolean> {
+    const extensionId = manifest.metadata.id;
+    if (this.isGranted(extensionId, permission)) {
+      return true;
+    }
+
+    if (!manifest.permissions.optional.includes(permission)) {
+      this.audit(extensionId, permission, 'request', false, {
+        api,
+        reason: 'not an optional permission',
+      });
+      return false;
+    }
+
+    const approved = this.consent
+      ? await this.consent({
+          extensionId,
+          extensionName: manifest.metadata.name,
+          permissions: [permission],
+          restricted: RESTRICTED_PERMISSIONS.includes(permission) ? [permission] : [],
+          stage: 'runtime',
+          api,
+        })
+      : false;
+
+    this.audit(extensionId, permission, 'request', approved, {
+      api,
+      reason: approved ? 'accepted' : this.consent ? 'declined' : 'no consent prompt available',
+    });
+
+    if (approved) {
+      this.setGrants(extensionId, [
+        ...this.getGrants(extensionId),
+        { permission, source: 'consent', grantedAt: new Date() },
+      ]);
+      this.audit(extensionId, permission, 'grant', true, { api, reason: 'runtime consent' });
+    }
+
+    return approved;
+  }
+
+  /**
+   * Revoke one permission, or every permission when none is given
+   * Returns the permissions that were revoked
+   */
+  public revoke(extensionId: string, permission?: Permission): Permission[] {
+    const current = this.getGrants(extensionId);
+    const revoked = current.filter((grant) => !permission || grant.permission === permission);
+    if (revoked.length === 0) {
+      return [];
+    }
+
+    this.setGrants(
+      extensionId,
+      current.filter((grant) => !revoked.includes(grant))
+    );
+    for (const grant of revoked) {
+      this.audit(extensionId, grant.permission, 'revoke', false, { reason: 'revoked by user' });
+    }
+    return revoked.map((grant) => grant.permission);
+  }
+
+  /**
+   * Audit entries, oldest first
+   */
+  public getAuditLog(filter: AuditLogFilter = {}): PermissionAuditEntry[] {
+    return this.auditLog.filter(
+      (entry) =>
+        (!filter.extensionId || entry.extensionId === filter.extensionId) &&
+        (!filter.deniedOnly || !entry.allowed)
+    );
+  }
+
+  /**
+   * Grants of every extension, for persistence
+   */
+  public exportGrants(): Record<string, PermissionGrant[]> {
+    return Object.fromEntries(this.grants);
+  }
+
+  private evaluate(
+    manifest: ExtensionManifest,
+    permission: Permission,
+    api?: string
+  ): PermissionDecision {
+    const { required, optional, restrictedApis } = manifest.permissions;
+    const gated = GATED_PERMISSIONS.includes(permission);
+
+    if (!required.includes(permission) && !optional.includes(permission)) {
+      return { allowed: false, reason: 'not declared in manifest' };
+    }
+
+    if (gated && api && !restrictedApis.includes(api)) {
+      return { allowed: false, reason: `${api} is not listed in restrictedApis` };
+    }
+
+    // Declaring a permission is not enough: required ones are granted at
+    // install, optional ones on request, and revoked ones stay denied
+    if (this.isGranted(manifest.metadata.id, permission)) {
+      return { allowed: true, reason: 'granted' };
+    }
+
+    return {
+      allowed: false,
+      reason: optional.includes(permission) ? NOT_GRANTED_OPTIONAL : 'not granted',
+    };
+  }
+
+  private setGrants(extensionId: string, grants: PermissionGrant[]): void {
+    if (grants.length === 0) {
+      this.grants.delete(extensionId);
+    } else {
+      this.grants.set(extensionId, grants);
+    }
+    this.onChange();
+  }
+
+  private audit(
+    extensionId: string,
+    permission: Permission,
+    action: PermissionAuditAction,
+    allowed: boolean,
+    details: { api?: string; reason?: string } = {}
+  ): void {
+    const entry: PermissionAuditEntry = {
+      timestamp: new Date().toISOString(),
+      extensionId,
+      permission,
+      action,
+      allowed,
+      ...details,
+    };
+
+    this.auditLog.push(entry);
+    if (this.auditLog.length > MAX_AUDIT_ENTRIES) {
+      this.auditLog.splice(0, this.auditLog.length - MAX_AUDIT_ENTRIES);
+    }
+
+    if (!allowed && action !== 'revoke') {
+      console.warn(`Permission denied: ${extensionId} -> ${permission} (${details.reason})`);
+    }
+
+    if (this.auditLogPath) {
+      try {
+        mkdirSync(dirname(this.auditLogPath), { recursive: true });
+        appendFileSync(this.auditLogPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+      } catch (error) {
+        console.error('Failed to write permission audit log:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Prefetch Queue
+ * Runs background downloads with bounded concurrency. Queued tasks start in
+ * priority order, first come first served within a priority, so the visible
+ * page can overtake the rest of a lesson that is already queued.
+ */
+
+export type PrefetchPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<PrefetchPriority, number> = { high: 0, normal: 1, low: 2 };
+
+interface QueuedTask {
+  rank: number;
+  start: () => void;
+}
+
+export class PrefetchQueue {
+  /** Waiting tasks, kept sorted by rank */
+  private queued: QueuedTask[] = [];
+  private running = 0;
+
+  constructor(private readonly concurrency: number) {}
+
+  /**
+   * Run a task once a slot is free
+   * A task still queued when the signal aborts is dropped and rejects with
+   * the signal's reason; a running task has to watch the signal itself
+   */
+  public schedule<T>(
+    task: () => Promise<T>,
+    priority: PrefetchPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.queued = this.queued.filter((queued) => queued !== item);
+        reject(signal?.reason);
+      };
+      const item: QueuedTask = {
+        rank: PRIORITY_RANK[priority],
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.running++;
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.next();
+            });
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const index = this.queued.findIndex((queued) => queued.rank > item.rank);
+      this.queued.splice(index === -1 ? this.queued.length : index, 0, item);
+      this.next();
+    });
+  }
+
+  /**
+   * Tasks waiting for a slot
+   */
+  public get pending(): number {
+    return this.queued.length;
+  }
+
+  private next(): void {
+    while (this.running < this.concurrency && this.queued.length > 0) {
+      this.queued.shift()?.start();
+    }
+  }
+}
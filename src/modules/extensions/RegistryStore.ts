@@ -0,0 +1,348 @@
+/**
+ * Registry Store
+ * Durable JSON persistence for the extension registry
+ * Infrastructure Layer - file system access only
+ */
+
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import type {
+  Extension,
+  ExtensionStatus,
+  PermissionGrant,
+  RollbackRecord,
+  VersionHistoryEntry,
+} from '@/shared/types';
+
+/**
+ * Current on-disk format version
+ * v2 added the rollback history, v3 the per-extension version history,
+ * v4 the permission grants
+ */
+export const REGISTRY_SCHEMA_VERSION = 4;
+
+/**
+ * Number of rollback records kept on disk
+ */
+const MAX_ROLLBACK_RECORDS = 50;
+
+const EXTENSION_STATUSES: ExtensionStatus[] = [
+  'installed',
+  'enabled',
+  'disabled',
+  'degraded',
+  'error',
+];
+
+interface StoredExtension {
+  id: string;
+  manifest: Extension['manifest'];
+  status: ExtensionStatus;
+  installPath: string;
+  installedAt: string;
+  enabledAt?: string;
+  error?: string;
+}
+
+interface StoredVersion {
+  version: string;
+  manifest: Extension['manifest'];
+  installPath: string;
+  installedAt: string;
+  replacedAt: string;
+}
+
+interface StoredGrant {
+  permission: PermissionGrant['permission'];
+  source: PermissionGrant['source'];
+  grantedAt: string;
+}
+
+interface RegistryStoreFile {
+  schemaVersion: number;
+  updatedAt: string;
+  extensions: StoredExtension[];
+  rollbacks: RollbackRecord[];
+  history: Record<string, StoredVersion[]>;
+  permissions: Record<string, StoredGrant[]>;
+}
+
+export interface RegistryState {
+  extensions: Extension[];
+  rollbacks: RollbackRecord[];
+  history: Record<string, VersionHistoryEntry[]>;
+  permissions: Record<string, PermissionGrant[]>;
+}
+
+function emptyState(): RegistryState {
+  return { extensions: [], rollbacks: [], history: {}, permissions: {} };
+}
+
+export class RegistryStore {
+  private readonly backupPath: string;
+
+  constructor(private readonly filePath: string) {
+    this.backupPath = `${filePath}.bak`;
+  }
+
+  /**
+   * Load persisted registry state
+   * Missing files yield an empty registry; corrupt files are moved aside
+   * and the last good backup is used instead
+   */
+  public load(): RegistryState {
+    if (!existsSync(this.filePath)) {
+      return emptyState();
+    }
+
+    const primary = this.readFile(this.filePath);
+    if (primary) {
+      return primary;
+    }
+
+    const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+    console.warn(`Registry store is unreadable, moving it to: ${corruptPath}`);
+    renameSync(this.filePath, corruptPath);
+
+    const backup = existsSync(this.backupPath) ? this.readFile(this.backupPath) : null;
+    if (backup) {
+      console.warn('Recovered registry from backup');
+      this.save(backup);
+      return backup;
+    }
+
+    return emptyState();
+  }
+
+  /**
+   * Persist registry state atomically
+   * Writes to a temporary file and renames it over the store, keeping the
+   * previous version as a backup
+   */
+  public save(state: RegistryState): void {
+    const file: RegistryStoreFile = {
+      schemaVersion: REGISTRY_SCHEMA_VERSION,
+      updatedAt: new Date().toISOString(),
+      extensions: state.extensions.map(serializeExtension),
+      rollbacks: state.rollbacks.slice(-MAX_ROLLBACK_RECORDS),
+      history: Object.fromEntries(
+        Object.entries(state.history).map(([id, versions]) => [
+          id,
+          versions.map(serializeVersion),
+        ])
+      ),
+      permissions: Object.fromEntries(
+        Object.entries(state.permissions).map(([id, grants]) => [id, grants.map(serializeGrant)])
+      ),
+    };
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+
+    if (existsSync(this.filePath)) {
+      copyFileSync(this.filePath, this.backupPath);
+    }
+
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file, null, 2), 'utf-8');
+    renameSync(tempPath, this.filePath);
+  }
+
+  /**
+   * Read and decode a store file, returning null when it cannot be used
+   */
+  private readFile(path: string): RegistryState | null {
+    try {
+      const parsed = migrate(JSON.parse(readFileSync(path, 'utf-8')));
+      if (!parsed) {
+        return null;
+      }
+
+      const extensions = parsed.extensions.flatMap((entry) => {
+        const extension = deserializeExtension(entry);
+        if (!extension) {
+          console.warn('Skipping invalid registry entry:', entry?.id);
+          return [];
+        }
+        return [extension];
+      });
+
+      const history = Object.fromEntries(
+        Object.entries(parsed.history).map(([id, versions]) => [
+          id,
+          listOf(versions).map(deserializeVersion).filter(
+            (entry): entry is VersionHistoryEntry => entry !== null
+          ),
+        ])
+      );
+
+      const permissions = Object.fromEntries(
+        Object.entries(parsed.permissions).map(([id, grants]) => [
+          id,
+          listOf(grants).map(deserializeGrant).filter(
+            (grant): grant is PermissionGrant => grant !== null
+          ),
+        ])
+      );
+
+      return { extensions, rollbacks: parsed.rollbacks, history, permissions };
+    } catch (error) {
+      console.error(`Failed to read registry store: ${path}`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Upgrade older store formats to the current schema version
+ */
+function migrate(raw: Partial<RegistryStoreFile>): RegistryStoreFile | null {
+  if (!raw || !Array.isArray(raw.extensions)) {
+    return null;
+  }
+
+  switch (raw.schemaVersion) {
+    case 1:
+    case 2:
+    case 3:
+    case REGISTRY_SCHEMA_VERSION:
+      return {
+        schemaVersion: REGISTRY_SCHEMA_VERSION,
+        updatedAt: raw.updatedAt ?? new Date().toISOString(),
+        extensions: raw.extensions,
+        rollbacks: Array.isArray(raw.rollbacks) ? raw.rollbacks : [],
+        history: isRecord(raw.history) ? raw.history : {},
+        permissions: isRecord(raw.permissions)
+          ? raw.permissions
+          : grantsAcceptedAtInstall(raw.extensions),
+      };
+    default:
+      console.warn(`Unsupported registry schema version: ${raw.schemaVersion}`);
+      return null;
+  }
+}
+
+/**
+ * Malformed optional sections are treated as empty rather than making the
+ * whole store unreadable, which would discard every extension record
+ */
+function isRecord<T>(value: Record<string, T> | undefined): value is Record<string, T> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function listOf<T>(value: T[]): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Stores written before v4 have no grants; required permissions were
+ * accepted when those extensions were installed
+ */
+function grantsAcceptedAtInstall(extensions: StoredExtension[]): Record<string, StoredGrant[]> {
+  return Object.fromEntries(
+    extensions
+      .filter((entry) => entry?.manifest?.permissions)
+      .map((entry) => [
+        entry.id,
+        entry.manifest.permissions.required.map((permission) => ({
+          permission,
+          source: 'install' as const,
+          grantedAt: entry.installedAt,
+        })),
+      ])
+  );
+}
+
+function serializeExtension(extension: Extension): StoredExtension {
+  return {
+    id: extension.id,
+    manifest: extension.manifest,
+    status: extension.status,
+    installPath: extension.installPath,
+    installedAt: extension.installedAt.toISOString(),
+    enabledAt: extension.enabledAt?.toISOString(),
+    error: extension.error,
+  };
+}
+
+function deserializeExtension(entry: StoredExtension): Extension | null {
+  if (
+    !entry ||
+    typeof entry.id !== 'string' ||
+    typeof entry.installPath !== 'string' ||
+    !entry.manifest ||
+    !EXTENSION_STATUSES.includes(entry.status)
+  ) {
+    return null;
+  }
+
+  const installedAt = new Date(entry.installedAt);
+  if (Number.isNaN(installedAt.getTime())) {
+    return null;
+  }
+
+  return {
+    id: entry.id,
+    manifest: entry.manifest,
+    status: entry.status,
+    installPath: entry.installPath,
+    installedAt,
+    enabledAt: entry.enabledAt ? new Date(entry.enabledAt) : undefined,
+    error: entry.error,
+  };
+}
+
+function serializeVersion(entry: VersionHistoryEntry): StoredVersion {
+  return {
+    version: entry.version,
+    manifest: entry.manifest,
+    installPath: entry.installPath,
+    installedAt: entry.installedAt.toISOString(),
+    replacedAt: entry.replacedAt.toISOString(),
+  };
+}
+
+function deserializeVersion(entry: StoredVersion): VersionHistoryEntry | null {
+  if (
+    !entry ||
+    typeof entry.version !== 'string' ||
+    typeof entry.installPath !== 'string' ||
+    !entry.manifest
+  ) {
+    return null;
+  }
+
+  return {
+    version: entry.version,
+    manifest: entry.manifest,
+    installPath: entry.installPath,
+    installedAt: new Date(entry.installedAt),
+    replacedAt: new Date(entry.replacedAt),
+  };
+}
+
+function serializeGrant(grant: PermissionGrant): StoredGrant {
+  return {
+    permission: grant.permission,
+    source: grant.source,
+    grantedAt: grant.grantedAt.toISOString(),
+  };
+}
+
+function deserializeGrant(entry: StoredGrant): PermissionGrant | null {
+  if (!entry || typeof entry.permission !== 'string') {
+    return null;
+  }
+
+  return {
+    permission: entry.permission,
+    source: entry.source === 'consent' ? 'consent' : 'install',
+    grantedAt: new Date(entry.grantedAt),
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * Resilient Fetcher
+ * HTTP requests to the CDN with timeouts, retries with exponential backoff
+ * and jitter, and a circuit breaker per host (closed, open, half-open)
+ */
+
+import { CircuitOpenError, HttpStatusError, ResourceIntegrityError } from './errors';
+
+export interface ResiliencePolicy {
+  /** Retries after the first attempt; only retryable failures are retried */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles with every retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Fraction of each backoff that is randomized, from 0 (none) to 1 (full jitter) */
+  jitter: number;
+  /** HTTP statuses worth retrying; other statuses are returned to the caller */
+  retryableStatuses: number[];
+  /** Timeout of each attempt, manifests included */
+  requestTimeoutMs: number;
+  /** Consecutive failures that open the breaker of a host */
+  failureThreshold: number;
+  /** Time an open breaker waits before letting a probe through */
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  maxRetries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  jitter: 0.5,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+  requestTimeoutMs: 10000,
+  failureThreshold: 5,
+  resetTimeoutMs: 60000,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ResilienceEvents {
+  /** A host's breaker changed state */
+  'circuit-state': { host: string; state: CircuitState; previous: CircuitState };
+  /** A host's breaker opened; requests to it fail fast until a probe succeeds */
+  degraded: { host: string; failures: number; reason: string };
+  /** A probe to a degraded host succeeded and its breaker closed */
+  recovered: { host: string };
+  /** A failed attempt is about to be retried */
+  retry: { url: string; attempt: number; delayMs: number; reason: string };
+}
+
+export type ResilienceEventSink = <E extends keyof ResilienceEvents>(
+  event: E,
+  payload: ResilienceEvents[E]
+) => void;
+
+interface HostBreaker {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  /** A half-open breaker lets a single probe through at a time */
+  probing: boolean;
+}
+
+export class ResilientFetcher {
+  private breakers: Map<string, HostBreaker> = new Map();
+
+  constructor(
+    private readonly policy: ResiliencePolicy,
+    private readonly emit: ResilienceEventSink
+  ) {}
+
+  /**
+   * Request a URL and hand the response to `read`
+   * Network errors, timeouts and retryable statuses are retried with backoff.
+   * Other responses go to `read`: an HttpStatusError it throws leaves the
+   * breaker alone (the host answered), any other error counts as a failure
+   * without a retry. Throws CircuitOpenError while the host's breaker is open.
+   * Aborting `init.signal` cancels the attempt or the backoff in progress and
+   * rejects with the signal's reason; a cancelled request is not a failure.
+   */
+  public async request<T>(
+    url: string,
+    init: RequestInit,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const host = getHost(url);
+
+    const cancel = init.signal ?? undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      cancel?.throwIfAborted();
+      this.acquire(host);
+
+      const signal = createAttemptSignal(this.policy.requestTimeoutMs, cancel);
+      let response: Response | undefined;
+      let failure: unknown;
+      try {
+        response = await fetch(url, { ...init, signal: signal.signal });
+      } catch (error) {
+        failure = error;
+      }
+
+      if (cancel?.aborted) {
+        signal.dispose();
+        this.release(host);
+        throw cancel.reason;
+      }
+
+      if (response && !this.policy.retryableStatuses.includes(response.status)) {
+        try {
+          const result = await read(response);
+          this.recordSuccess(host);
+          return result;
+        } catch (error) {
+          if (cancel?.aborted) {
+            this.release(host);
+            throw cancel.reason;
+          }
+          if (error instanceof HttpStatusError) {
+            this.recordSuccess(host);
+          } else {
+            this.recordFailure(host, describeFailure(error));
+          }
+          throw error;
+        } finally {
+          signal.dispose();
+        }
+      }
+      signal.dispose();
+
+      if (response) {
+        failure = new HttpStatusError(url, response.status, response.statusText);
+      }
+      const reason = describeFailure(failure);
+      this.recordFailure(host, reason);
+
+      if (attempt > this.policy.maxRetries || this.getState(host) === 'open') {
+        throw failure;
+      }
+
+      const delayMs = this.getDelay(attempt, response);
+      this.emit('retry', { url, attempt, delayMs, reason });
+      await sleep(delayMs, cancel);
+    }
+  }
+
+  public getState(host: string): CircuitState {
+    return this.breakers.get(host)?.state ?? 'closed';
+  }
+
+  /**
+   * Hosts whose breaker is open or half-open
+   */
+  public getDegradedHosts(): string[] {
+    return Array.from(this.breakers.entries())
+      .filter(([, breaker]) => breaker.state !== 'closed')
+      .map(([host]) => host);
+  }
+
+  /**
+   * Throw unless the host's breaker lets a request through
+   */
+  private acquire(host: string): void {
+    const breaker = this.breakers.get(host);
+    if (!breaker || breaker.state === 'closed') return;
+
+    if (breaker.state === 'open') {
+      if (Date.now() - breaker.openedAt < this.policy.resetTimeoutMs) {
+        throw new CircuitOpenError(host);
+      }
+      this.transition(host, breaker, 'half-open');
+    }
+
+    if (breaker.probing) {
+      throw new CircuitOpenError(host);
+    }
+    breaker.probing = true;
+  }
+
+  /**
+   * Let the next probe through after a cancelled request
+   */
+  private release(host: string): void {
+    const breaker = this.breakers.get(host);
+    if (breaker) breaker.probing = false;
+  }
+
+  private recordSuccess(host: string): void {
+    const breaker = this.breakers.get(host);
+    if (!breaker) return;
+
+    breaker.failures = 0;
+    breaker.probing = false;
+    if (breaker.state !== 'closed') {
+      this.transition(host, breaker, 'closed');
+      this.emit('recovered', { host });
+      console.log(`CDN host recovered: ${host}`);
+    }
+  }
+
+  private recordFailure(host: string, reason: string): void {
+    const breaker = this.breakers.get(host) ?? {
+      state: 'closed',
+      failures: 0,
+      openedAt: 0,
+      probing: false,
+    };
+    this.breakers.set(host, breaker);
+
+    breaker.failures++;
+    breaker.probing = false;
+
+    if (breaker.state === 'half-open') {
+      breaker.openedAt = Date.now();
+      this.transition(host, breaker, 'open');
+    } else if (breaker.state === 'closed' && breaker.failures >= this.policy.failureThreshold) {
+      breaker.openedAt = Date.now();
+      this.transition(host, breaker, 'open');
+      this.emit('degraded', { host, failures: breaker.failures, reason });
+      console.warn(`CDN host degraded after ${breaker.failures} failures: ${host} (${reason})`);
+    }
+  }
+
+  private transition(host: string, breaker: HostBreaker, state: CircuitState): void {
+    const previous = breaker.state;
+    breaker.state = state;
+    this.emit('circuit-state', { host, state, previous });
+  }
+
+  /**
+   * Exponential backoff with jitter, stretched to honor Retry-After
+   */
+  private getDelay(attempt: number, response?: Response): number {
+    const { baseDelayMs, maxDelayMs, jitter } = this.policy;
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    const delay = backoff * (1 - jitter * Math.random());
+
+    const retryAfter = parseRetryAfter(response?.headers.get('retry-after'));
+    return Math.round(Math.min(maxDelayMs, Math.max(delay, retryAfter ?? 0)));
+  }
+}
+
+/**
+ * Signal for one attempt that aborts with a TimeoutError once the timeout
+ * passes, or with the caller's reason when the caller aborts. Combined by
+ * hand: `AbortSignal.any` needs Node 18.17, and `engines` allows older ones.
+ */
+function createAttemptSignal(
+  timeoutMs: number,
+  cancel?: AbortSignal
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onCancel = () => controller.abort(cancel?.reason);
+  const timer = setTimeout(
+    () => controller.abort(new DOMException('The request timed out', 'TimeoutError')),
+    timeoutMs
+  );
+
+  if (cancel?.aborted) onCancel();
+  else cancel?.addEventListener('abort', onCancel, { once: true });
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      cancel?.removeEventListener('abort', onCancel);
+    },
+  };
+}
+
+/**
+ * Wait, rejecting with the signal's reason once it aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function describeFailure(error: unknown): string {
+  if (error instanceof HttpStatusError || error instanceof ResourceIntegrityError) {
+    return error.message;
+  }
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return 'request timed out';
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Retry-After in milliseconds, from delay seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,386 @@
+/**
+ * Resource Cache
+ * Disk-backed, content-addressed store for downloaded cloud resources.
+ * Bodies are stored once per SHA-256 digest under `objects/`; an index maps
+ * each URL to its digest with TTL and access metadata, and the least
+ * recently used entries are evicted once the byte budget is exceeded.
+ * URLs pinned by an owner (an extension made available offline) are never
+ * evicted.
+ * Infrastructure Layer - file system access only
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { computeChecksum } from '@/shared/utils';
+
+/**
+ * Current on-disk index format version
+ */
+const CACHE_INDEX_VERSION = 1;
+
+const DEFAULT_MAX_BYTES = 512 * 1024 * 1024;
+
+export interface ResourceCacheOptions {
+  /** Directory holding the index and the content objects */
+  directory: string;
+  /** Byte budget for stored content; defaults to 512 MiB */
+  maxBytes?: number;
+}
+
+export interface CacheEntry {
+  url: string;
+  /** SHA-256 of the content, which is also its object name */
+  digest: string;
+  size: number;
+  type: string;
+  storedAt: number;
+  lastAccessedAt: number;
+  /** Null for immutable entries, which never expire */
+  expiresAt: number | null;
+  /** Extension the resource was loaded for */
+  extensionId?: string;
+}
+
+export interface CachePutOptions {
+  /** Time to live in milliseconds */
+  ttl?: number;
+  /** Immutable content never expires */
+  immutable?: boolean;
+  extensionId?: string;
+}
+
+export interface CachedResource {
+  data: Blob;
+  entry: CacheEntry;
+  /** True when the entry is past its TTL */
+  stale: boolean;
+}
+
+export interface ExtensionCacheUsage {
+  entries: number;
+  bytes: number;
+}
+
+export interface ResourceCacheStats {
+  entries: number;
+  /** Bytes stored on disk; content shared by several URLs is counted once */
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  /** Hits over lookups, 0 before the first lookup */
+  hitRatio: number;
+  evictions: number;
+  /** Bytes held by pinned entries, which eviction never frees */
+  pinnedBytes: number;
+  extensions: Record<string, ExtensionCacheUsage>;
+  urls: string[];
+}
+
+interface CacheIndexFile {
+  version: number;
+  entries: CacheEntry[];
+  /** Pinned URLs of each owner; absent in indexes written before pinning */
+  pins?: Record<string, string[]>;
+}
+
+export class ResourceCache {
+  /** Cached URLs; eviction orders them by last access */
+  private entries: Map<string, CacheEntry> = new Map();
+  /** Pinned URLs of each owner; a URL may be pinned before it is stored */
+  private pins: Map<string, Set<string>> = new Map();
+  private readonly maxBytes: number;
+  private readonly indexPath: string;
+  private readonly objectsDir: string;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  /** Serializes writes so eviction never races a write of the same object */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: ResourceCacheOptions) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.indexPath = join(options.directory, 'index.json');
+    this.objectsDir = join(options.directory, 'objects');
+    this.load();
+  }
+
+  /**
+   * Look up a fresh entry, counting a hit or a miss
+   */
+  public async get(url: string): Promise<CachedResource | null> {
+    const cached = await this.read(url);
+    if (!cached || cached.stale) {
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    return cached;
+  }
+
+  /**
+   * Look up an entry even if it has expired, e.g. as an offline fallback
+   * Not counted in the hit ratio
+   */
+  public async getStale(url: string): Promise<CachedResource | null> {
+    return this.read(url);
+  }
+
+  public has(url: string): boolean {
+    return this.entries.has(url);
+  }
+
+  public getEntry(url: string): CacheEntry | undefined {
+    return this.entries.get(url);
+  }
+
+  /**
+   * Store a resource, evicting least recently used entries to stay within budget
+   * Unpinned content larger than the whole budget is not stored; pinned
+   * content is stored even when pinned entries alone exceed the budget
+   */
+  public async put(
+    url: string,
+    data: Blob,
+    options: CachePutOptions = {}
+  ): Promise<CacheEntry | null> {
+    if (data.size > this.maxBytes && !this.isPinned(url)) {
+      console.warn(`Resource too large to cache (${data.size} bytes): ${url}`);
+      return null;
+    }
+
+    const content = Buffer.from(await data.arrayBuffer());
+    const digest = computeChecksum(content, 'sha256');
+
+    return this.exclusive(async () => {
+      await this.writeObject(digest, content);
+
+      const now = Date.now();
+      const entry: CacheEntry = {
+        url,
+        digest,
+        size: content.length,
+        type: data.type,
+        storedAt: now,
+        lastAccessedAt: now,
+        expiresAt: options.immutable ? null : now + (options.ttl ?? 0),
+        extensionId: options.extensionId,
+      };
+      const previous = this.entries.get(url);
+      this.entries.set(url, entry);
+      if (previous && previous.digest !== digest) {
+        await this.releaseObject(previous.digest);
+      }
+
+      await this.evict(url);
+      this.save();
+      return entry;
+    });
+  }
+
+  /**
+   * Remove one URL, or every unpinned entry when no URL is given
+   * Removing a pinned URL keeps its pin, so it shows up as missing
+   */
+  public async delete(url?: string): Promise<void> {
+    await this.exclusive(async () => {
+      const removed = url
+        ? [this.entries.get(url)]
+        : Array.from(this.entries.values()).filter((entry) => !this.isPinned(entry.url));
+      for (const entry of removed) {
+        if (!entry) continue;
+        this.entries.delete(entry.url);
+        await this.releaseObject(entry.digest);
+      }
+      this.save();
+    });
+  }
+
+  /**
+   * Pin URLs for an owner, replacing the owner's previous pins
+   * Pinned entries are never evicted and survive clearing the whole cache
+   */
+  public async pin(owner: string, urls: string[]): Promise<void> {
+    await this.exclusive(async () => {
+      this.pins.set(owner, new Set(urls));
+      this.save();
+    });
+  }
+
+  /**
+   * Drop an owner's pins; the entries stay cached and become evictable
+   */
+  public async unpin(owner: string): Promise<void> {
+    await this.exclusive(async () => {
+      if (!this.pins.delete(owner)) return;
+      await this.evict();
+      this.save();
+    });
+  }
+
+  public getPinned(owner: string): string[] {
+    return Array.from(this.pins.get(owner) ?? []);
+  }
+
+  public isPinned(url: string): boolean {
+    for (const urls of this.pins.values()) {
+      if (urls.has(url)) return true;
+    }
+    return false;
+  }
+
+  public getStats(): ResourceCacheStats {
+    const extensions: Record<string, ExtensionCacheUsage> = {};
+    const pinned = new Map<string, number>();
+    for (const entry of this.entries.values()) {
+      if (this.isPinned(entry.url)) {
+        pinned.set(entry.digest, entry.size);
+      }
+      if (!entry.extensionId) continue;
+      const usage = (extensions[entry.extensionId] ??= { entries: 0, bytes: 0 });
+      usage.entries++;
+      usage.bytes += entry.size;
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      bytes: this.getStoredBytes(),
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRatio: lookups === 0 ? 0 : this.hits / lookups,
+      evictions: this.evictions,
+      pinnedBytes: Array.from(pinned.values()).reduce((total, size) => total + size, 0),
+      extensions,
+      urls: Array.from(this.entries.keys()),
+    };
+  }
+
+  /**
+   * Read an entry's content, dropping entries whose object has disappeared
+   * Access times are persisted with the next write
+   */
+  private async read(url: string): Promise<CachedResource | null> {
+    const entry = this.entries.get(url);
+    if (!entry) return null;
+
+    const content = await readFile(this.getObjectPath(entry.digest)).catch(() => null);
+    if (!content) {
+      this.entries.delete(url);
+      return null;
+    }
+
+    entry.lastAccessedAt = Date.now();
+    return {
+      data: new Blob([content], { type: entry.type }),
+      entry,
+      stale: entry.expiresAt !== null && entry.expiresAt <= entry.lastAccessedAt,
+    };
+  }
+
+  /**
+   * Drop least recently used unpinned entries until the stored bytes fit the budget
+   */
+  private async evict(keepUrl?: string): Promise<void> {
+    if (this.getStoredBytes() <= this.maxBytes) return;
+
+    const candidates = Array.from(this.entries.values())
+      .filter((entry) => entry.url !== keepUrl && !this.isPinned(entry.url))
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+    for (const entry of candidates) {
+      if (this.getStoredBytes() <= this.maxBytes) break;
+      this.entries.delete(entry.url);
+      await this.releaseObject(entry.digest);
+      this.evictions++;
+      console.log(`Evicted from resource cache: ${entry.url}`);
+    }
+  }
+
+  /**
+   * Total size of the distinct objects referenced by the index
+   */
+  private getStoredBytes(): number {
+    const sizes = new Map<string, number>();
+    for (const entry of this.entries.values()) {
+      sizes.set(entry.digest, entry.size);
+    }
+    let total = 0;
+    for (const size of sizes.values()) {
+      total += size;
+    }
+    return total;
+  }
+
+  private async writeObject(digest: string, content: Buffer): Promise<void> {
+    const objectPath = this.getObjectPath(digest);
+    if (existsSync(objectPath)) return;
+
+    await mkdir(join(this.objectsDir, digest.slice(0, 2)), { recursive: true });
+    const tempPath = `${objectPath}.${process.pid}.tmp`;
+    await writeFile(tempPath, content);
+    await rename(tempPath, objectPath);
+  }
+
+  /**
+   * Delete an object once no entry refers to it
+   */
+  private async releaseObject(digest: string): Promise<void> {
+    for (const entry of this.entries.values()) {
+      if (entry.digest === digest) return;
+    }
+    await rm(this.getObjectPath(digest), { force: true });
+  }
+
+  private getObjectPath(digest: string): string {
+    return join(this.objectsDir, digest.slice(0, 2), digest);
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private load(): void {
+    if (!existsSync(this.indexPath)) {
+      return;
+    }
+
+    try {
+      const file = JSON.parse(readFileSync(this.indexPath, 'utf-8')) as CacheIndexFile;
+      if (file.version !== CACHE_INDEX_VERSION || !Array.isArray(file.entries)) {
+        console.warn(`Ignoring resource cache index with version ${file.version}`);
+        return;
+      }
+      for (const entry of file.entries) {
+        if (entry && typeof entry.url === 'string' && typeof entry.digest === 'string') {
+          this.entries.set(entry.url, entry);
+        }
+      }
+      for (const [owner, urls] of Object.entries(file.pins ?? {})) {
+        if (Array.isArray(urls)) {
+          this.pins.set(owner, new Set(urls.filter((url) => typeof url === 'string')));
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to read resource cache index: ${this.indexPath}`, error);
+    }
+  }
+
+  private save(): void {
+    const file: CacheIndexFile = {
+      version: CACHE_INDEX_VERSION,
+      entries: Array.from(this.entries.values()),
+      pins: Object.fromEntries(
+        Array.from(this.pins.entries()).map(([owner, urls]) => [owner, Array.from(urls)])
+      ),
+    };
+    mkdirSync(this.objectsDir, { recursive: true });
+    const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file), 'utf-8');
+    renameSync(tempPath, this.indexPath);
+  }
+}
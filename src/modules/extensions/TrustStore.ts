@@ -0,0 +1,95 @@
+/**
+ * Trust Store
+ * Local list of publisher keys whose signed packages may be installed
+ * Infrastructure Layer - file system access only
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { derivePublicKey, getKeyFingerprint } from '@/shared/utils';
+
+export interface TrustedKey {
+  /** SHA-256 fingerprint of the key */
+  fingerprint: string;
+  publisher: string;
+  publicKey: string;
+  addedAt: string;
+}
+
+export class TrustStore {
+  private keys: Map<string, TrustedKey> = new Map();
+
+  constructor(private readonly filePath: string) {
+    this.load();
+  }
+
+  /**
+   * Trust a publisher key (PEM, public or private)
+   */
+  public add(key: string, publisher: string): TrustedKey {
+    const publicKey = derivePublicKey(key);
+    const fingerprint = getKeyFingerprint(publicKey);
+    const entry: TrustedKey = {
+      fingerprint,
+      publisher,
+      publicKey,
+      addedAt: new Date().toISOString(),
+    };
+
+    this.keys.set(fingerprint, entry);
+    this.save();
+    console.log(`Trusted publisher key ${fingerprint} (${publisher})`);
+    return entry;
+  }
+
+  /**
+   * Stop trusting a key
+   */
+  public remove(fingerprint: string): boolean {
+    const removed = this.keys.delete(fingerprint);
+    if (removed) {
+      this.save();
+    }
+    return removed;
+  }
+
+  public isTrusted(publicKey: string): boolean {
+    try {
+      return this.keys.has(getKeyFingerprint(publicKey));
+    } catch {
+      return false;
+    }
+  }
+
+  public get(fingerprint: string): TrustedKey | undefined {
+    return this.keys.get(fingerprint);
+  }
+
+  public list(): TrustedKey[] {
+    return Array.from(this.keys.values());
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const entries = JSON.parse(readFileSync(this.filePath, 'utf-8')) as TrustedKey[];
+      for (const entry of entries) {
+        if (entry && typeof entry.fingerprint === 'string' && typeof entry.publicKey === 'string') {
+          this.keys.set(entry.fingerprint, entry);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to read trust store: ${this.filePath}`, error);
+    }
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.list(), null, 2), 'utf-8');
+    renameSync(tempPath, this.filePath);
+  }
+}
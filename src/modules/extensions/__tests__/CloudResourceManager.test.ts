@@ -0,0 +1,942 @@
+/**
+ * Tests for cloud resource loading and the on-disk resource cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Mock } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CloudResourceManager } from '../CloudResourceManager';
+import type { CloudResourceManagerOptions } from '../CloudResourceManager';
+import { OfflineResourceError, ResourceIntegrityError } from '../errors';
+import { getResourceManifestChecksum } from '@/shared/services';
+import type {
+  AudioResource,
+  CloudResourceManifest,
+  Extension,
+  FontResource,
+  ImageResource,
+  Pagination,
+  ResourceReference,
+  VideoResource,
+} from '@/shared/types';
+
+const CDN = 'https://cdn.example.com';
+
+describe('CloudResourceManager', () => {
+  let cacheDir: string;
+  let bodies: Map<string, string>;
+  let fetchMock: Mock<[string, RequestInit?], Promise<Response>>;
+
+  function createManager(options: CloudResourceManagerOptions = {}): CloudResourceManager {
+    CloudResourceManager.resetInstance();
+    return CloudResourceManager.getInstance({ cacheDir, ...options });
+  }
+
+  async function countObjects(): Promise<number> {
+    const objectsDir = join(cacheDir, 'objects');
+    let count = 0;
+    for (const prefix of await readdir(objectsDir)) {
+      count += (await readdir(join(objectsDir, prefix))).length;
+    }
+    return count;
+  }
+
+  function reference(path: string, body: string, algorithm = 'sha256'): ResourceReference {
+    return {
+      id: path,
+      filename: path,
+      url: `${CDN}/${path}`,
+      type: 'text/plain',
+      size: Buffer.byteLength(body),
+      checksum: {
+        algorithm,
+        value: createHash(algorithm.replace('-', '').toLowerCase()).update(body).digest('hex'),
+      },
+    };
+  }
+
+  function createResourceManifest(
+    resources: ResourceReference[],
+    pagination?: Pagination
+  ): CloudResourceManifest {
+    const manifest: CloudResourceManifest = {
+      version: '1.0.0',
+      baseUrl: CDN,
+      resources,
+      pagination,
+      integrity: { checksum: '', timestamp: '2024-01-01T00:00:00.000Z' },
+    };
+    manifest.integrity.checksum = getResourceManifestChecksum(manifest);
+    return manifest;
+  }
+
+  function serve(path: string, body: string | object): void {
+    bodies.set(`${CDN}/${path}`, typeof body === 'string' ? body : JSON.stringify(body));
+  }
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'ldip-resources-'));
+    bodies = new Map();
+    fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      const body = bodies.get(url);
+      if (body === undefined) {
+        return new Response(null, { status: 404, statusText: 'Not Found' });
+      }
+      const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+      if (new Headers(init?.headers).get('if-none-match') === etag) {
+        return new Response(null, { status: 304, statusText: 'Not Modified' });
+      }
+      return new Response(body, { headers: { 'content-type': 'text/plain', etag } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    CloudResourceManager.resetInstance();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('cache', () => {
+    it('should keep cached resources across restarts', async () => {
+      bodies.set(`${CDN}/a.txt`, 'alpha');
+      await createManager().loadResource(`${CDN}/a.txt`);
+
+      const blob = await createManager().loadResource(`${CDN}/a.txt`);
+
+      expect(await blob.text()).toBe('alpha');
+      expect(blob.type).toBe('text/plain');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store identical content once', async () => {
+      bodies.set(`${CDN}/a.txt`, 'same bytes');
+      bodies.set(`${CDN}/b.txt`, 'same bytes');
+      const manager = createManager();
+
+      await manager.loadResource(`${CDN}/a.txt`);
+      await manager.loadResource(`${CDN}/b.txt`);
+
+      expect(manager.getCacheStats()).toMatchObject({ entries: 2, bytes: 10 });
+      expect(await countObjects()).toBe(1);
+    });
+
+    it('should evict the least recently used entries to stay within budget', async () => {
+      for (const name of ['a', 'b', 'c']) {
+        bodies.set(`${CDN}/${name}.txt`, name.repeat(40));
+      }
+      const manager = createManager({ maxCacheBytes: 100 });
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(1000);
+      await manager.loadResource(`${CDN}/a.txt`);
+      vi.setSystemTime(2000);
+      await manager.loadResource(`${CDN}/b.txt`);
+      vi.setSystemTime(3000);
+      await manager.loadResource(`${CDN}/a.txt`);
+      vi.setSystemTime(4000);
+      await manager.loadResource(`${CDN}/c.txt`);
+
+      const stats = manager.getCacheStats();
+      expect(stats.urls.sort()).toEqual([`${CDN}/a.txt`, `${CDN}/c.txt`]);
+      expect(stats.bytes).toBe(80);
+      expect(stats.evictions).toBe(1);
+      expect(await countObjects()).toBe(2);
+    });
+
+    it('should refetch expired entries and keep immutable ones', async () => {
+      bodies.set(`${CDN}/mutable.txt`, 'v1');
+      bodies.set(`${CDN}/immutable.txt`, 'v1');
+      const manager = createManager();
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(0);
+      await manager.loadResource(`${CDN}/mutable.txt`, { caching: { enabled: true, ttl: 60 } });
+      await manager.loadResource(`${CDN}/immutable.txt`, {
+        caching: { enabled: true, ttl: 60, immutable: true },
+      });
+
+      bodies.set(`${CDN}/mutable.txt`, 'v2');
+      bodies.set(`${CDN}/immutable.txt`, 'v2');
+      vi.setSystemTime(61 * 1000);
+
+      expect(await (await manager.loadResource(`${CDN}/mutable.txt`)).text()).toBe('v2');
+      expect(await (await manager.loadResource(`${CDN}/immutable.txt`)).text()).toBe('v1');
+    });
+
+    it('should fall back to an expired copy when the CDN fails', async () => {
+      bodies.set(`${CDN}/a.txt`, 'cached');
+      const manager = createManager();
+      await manager.loadResource(`${CDN}/a.txt`, { cacheTTL: 0 });
+      bodies.delete(`${CDN}/a.txt`);
+
+      const blob = await manager.loadResource(`${CDN}/a.txt`, { fallback: 'cache' });
+
+      expect(await blob.text()).toBe('cached');
+    });
+
+    it('should not cache when the CDN config disables caching', async () => {
+      bodies.set(`${CDN}/a.txt`, 'alpha');
+      const manager = createManager();
+
+      await manager.loadResource(`${CDN}/a.txt`, { caching: { enabled: false, ttl: 60 } });
+
+      expect(manager.getCacheStats().entries).toBe(0);
+    });
+
+    it('should report hit ratio and usage per extension', async () => {
+      bodies.set(`${CDN}/a.txt`, 'aaaa');
+      bodies.set(`${CDN}/b.txt`, 'bb');
+      bodies.set(`${CDN}/c.txt`, 'c');
+      const manager = createManager();
+
+      await manager.loadResource(`${CDN}/a.txt`, { extensionId: 'com.example.one' });
+      await manager.loadResource(`${CDN}/b.txt`, { extensionId: 'com.example.one' });
+      await manager.loadResource(`${CDN}/c.txt`, { extensionId: 'com.example.two' });
+      await manager.loadResource(`${CDN}/a.txt`, { extensionId: 'com.example.one' });
+
+      expect(manager.getCacheStats()).toMatchObject({
+        hits: 1,
+        misses: 3,
+        hitRatio: 0.25,
+        bytes: 7,
+        extensions: {
+          'com.example.one': { entries: 2, bytes: 6 },
+          'com.example.two': { entries: 1, bytes: 1 },
+        },
+      });
+    });
+
+    it('should remove objects when the cache is invalidated', async () => {
+      bodies.set(`${CDN}/a.txt`, 'alpha');
+      const manager = createManager();
+      await manager.loadResource(`${CDN}/a.txt`);
+
+      await manager.invalidateCache();
+
+      expect(manager.getCacheStats()).toMatchObject({ entries: 0, bytes: 0 });
+      expect(await countObjects()).toBe(0);
+    });
+  });
+
+  describe('integrity', () => {
+    it('should return and cache content that matches its reference', async () => {
+      bodies.set(`${CDN}/a.txt`, 'alpha');
+      const manager = createManager();
+
+      const blob = await manager.loadResourceByReference(reference('a.txt', 'alpha', 'SHA-512'));
+
+      expect(await blob.text()).toBe('alpha');
+      expect(manager.getCacheStats().urls).toEqual([`${CDN}/a.txt`]);
+    });
+
+    it.each([
+      ['digest', 'alphx'],
+      ['size', 'alpha!'],
+    ])('should reject a %s mismatch without caching', async (_name, served) => {
+      bodies.set(`${CDN}/a.txt`, served);
+      const manager = createManager();
+      const ref = reference('a.txt', 'alpha');
+
+      await expect(manager.loadResourceByReference(ref, { fallback: 'none' })).rejects.toThrow(
+        `Failed to load resource: ${CDN}/a.txt`
+      );
+      const placeholder = await manager.loadResourceByReference(ref, { fallback: 'placeholder' });
+
+      expect(placeholder.type).toBe('image/png');
+      expect(manager.getCacheStats().entries).toBe(0);
+    });
+
+    it('should count mismatches towards the circuit breaker', async () => {
+      bodies.set(`${CDN}/a.txt`, 'tampered');
+      const manager = createManager();
+      const ref = reference('a.txt', 'original');
+
+      for (let attempt = 0; attempt < 6; attempt++) {
+        await manager.loadResourceByReference(ref, { fallback: 'placeholder' });
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+    });
+
+    it('should not fall back to a cached copy that fails verification', async () => {
+      bodies.set(`${CDN}/a.txt`, 'stale and wrong');
+      const manager = createManager();
+      await manager.loadResource(`${CDN}/a.txt`);
+      bodies.delete(`${CDN}/a.txt`);
+
+      await expect(
+        manager.loadResourceByReference(reference('a.txt', 'alpha'), { fallback: 'cache' })
+      ).rejects.toThrow('Failed to load resource');
+      expect(manager.getCacheStats().entries).toBe(0);
+    });
+
+    it('should verify the resource manifest checksum', async () => {
+      const manifest = createResourceManifest([reference('a.txt', 'alpha')]);
+      manifest.integrity.checksum = getResourceManifestChecksum(manifest, 'sha512');
+      const manager = createManager();
+
+      bodies.set(`${CDN}/manifest.json`, JSON.stringify(manifest));
+      await expect(manager.loadResourceManifest(CDN)).resolves.toEqual(manifest);
+
+      bodies.set(
+        `${CDN}/manifest.json`,
+        JSON.stringify({ ...manifest, resources: [reference('a.txt', 'evil')] })
+      );
+      await expect(manager.loadResourceManifest(CDN)).rejects.toBeInstanceOf(
+        ResourceIntegrityError
+      );
+    });
+  });
+
+  describe('manifest pages', () => {
+    const alpha = reference('a.txt', 'alpha');
+    const beta = reference('b.txt', 'beta');
+    const gamma = reference('c.txt', 'gamma');
+
+    function servePages(): void {
+      serve(
+        'manifest.json',
+        createResourceManifest([alpha], { total: 3, page: 1, perPage: 1, nextPage: 'pages/2.json' })
+      );
+      serve(
+        'pages/2.json',
+        createResourceManifest([beta], { total: 3, page: 2, perPage: 1, nextPage: '3.json' })
+      );
+      serve('pages/3.json', createResourceManifest([gamma], { total: 3, page: 3, perPage: 1 }));
+    }
+
+    it('should follow nextPage until the last page', async () => {
+      servePages();
+
+      const manifest = await createManager().loadResourceManifest(CDN);
+
+      expect(manifest.resources.map((ref) => ref.id)).toEqual(['a.txt', 'b.txt', 'c.txt']);
+      expect(manifest.pagination).toBeUndefined();
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        `${CDN}/manifest.json`,
+        `${CDN}/pages/2.json`,
+        `${CDN}/pages/3.json`,
+      ]);
+    });
+
+    it('should fetch pages lazily when iterated', async () => {
+      servePages();
+
+      for await (const page of createManager().iterateResourceManifest(CDN)) {
+        expect(page.resources).toEqual([alpha]);
+        break;
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject pagination that loops', async () => {
+      const pagination = { total: 2, perPage: 1 };
+      serve(
+        'manifest.json',
+        createResourceManifest([alpha], { ...pagination, page: 1, nextPage: '2.json' })
+      );
+      serve(
+        '2.json',
+        createResourceManifest([beta], { ...pagination, page: 2, nextPage: 'manifest.json' })
+      );
+
+      await expect(createManager().loadResourceManifest(CDN)).rejects.toThrow('loops back');
+    });
+
+    it('should revalidate pages with conditional requests', async () => {
+      servePages();
+      const manager = createManager();
+      await manager.loadResourceManifest(CDN);
+      fetchMock.mockClear();
+
+      const manifest = await manager.loadResourceManifest(CDN);
+
+      expect(manifest.resources).toHaveLength(3);
+      const responses = await Promise.all(
+        fetchMock.mock.results.map((result) => result.value as Promise<Response>)
+      );
+      expect(responses.map((response) => response.status)).toEqual([304, 304, 304]);
+      expect(new Headers(fetchMock.mock.calls[0][1]?.headers).get('if-none-match')).toMatch(
+        /^"[0-9a-f]+"$/
+      );
+    });
+
+    it('should only download resources that changed since the last sync', async () => {
+      const alphaV2 = reference('a.txt', 'alpha v2');
+      const delta = reference('d.txt', 'delta');
+      serve('manifest.json', createResourceManifest([alpha, beta, gamma]));
+      for (const [path, body] of [['a.txt', 'alpha'], ['b.txt', 'beta'], ['c.txt', 'gamma']]) {
+        serve(path, body);
+      }
+      const manager = createManager();
+
+      const first = await manager.syncResourceManifest(CDN);
+      expect(first.added).toHaveLength(3);
+
+      const unchanged = await manager.syncResourceManifest(CDN);
+      expect(unchanged).toMatchObject({ notModified: true, unchanged: 3, added: [], changed: [] });
+
+      serve('manifest.json', createResourceManifest([alphaV2, beta, delta]));
+      serve('a.txt', 'alpha v2');
+      serve('d.txt', 'delta');
+      fetchMock.mockClear();
+
+      const result = await manager.syncResourceManifest(CDN);
+
+      expect(result.changed).toEqual([alphaV2]);
+      expect(result.added).toEqual([delta]);
+      expect(result.removed).toEqual([gamma]);
+      expect(result).toMatchObject({ unchanged: 1, failed: [], notModified: false });
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        `${CDN}/manifest.json`,
+        `${CDN}/d.txt`,
+        `${CDN}/a.txt`,
+      ]);
+      expect(manager.getCacheStats().urls.sort()).toEqual([
+        `${CDN}/a.txt`,
+        `${CDN}/b.txt`,
+        `${CDN}/d.txt`,
+      ]);
+    });
+  });
+
+  describe('resilience', () => {
+    const fast = { baseDelayMs: 1, jitter: 0, maxRetries: 2 };
+
+    function respondWith(...statuses: Array<number | Error>): void {
+      for (const status of statuses) {
+        fetchMock.mockImplementationOnce(async () => {
+          if (status instanceof Error) throw status;
+          return new Response(status === 200 ? 'ok' : null, { status });
+        });
+      }
+    }
+
+    it('should retry retryable statuses with exponential backoff', async () => {
+      const manager = createManager({ resilience: { ...fast, baseDelayMs: 5 } });
+      const retries: number[] = [];
+      manager.on('retry', ({ delayMs }) => retries.push(delayMs));
+      respondWith(503, new TypeError('fetch failed'), 200);
+
+      const blob = await manager.loadResource(`${CDN}/a.txt`, { fallback: 'none' });
+
+      expect(await blob.text()).toBe('ok');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(retries).toEqual([5, 10]);
+    });
+
+    it('should not retry other statuses', async () => {
+      const manager = createManager({ resilience: fast });
+      respondWith(404);
+
+      await expect(manager.loadResource(`${CDN}/a.txt`, { fallback: 'none' })).rejects.toThrow();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(manager.getCircuitState(`${CDN}/a.txt`)).toBe('closed');
+    });
+
+    it('should open one breaker per host', async () => {
+      const manager = createManager({
+        resilience: { ...fast, maxRetries: 0, failureThreshold: 2 },
+      });
+      const degraded: string[] = [];
+      manager.on('degraded', ({ host }) => degraded.push(host));
+      fetchMock.mockImplementation(async (url: string) =>
+        url.startsWith(CDN) ? new Response(null, { status: 500 }) : new Response('mirror')
+      );
+
+      for (const path of ['a.txt', 'b.txt', 'c.txt']) {
+        await manager.loadResource(`${CDN}/${path}`, { fallback: 'placeholder' });
+      }
+      const mirror = await manager.loadResource('https://mirror.example.com/a.txt');
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(await mirror.text()).toBe('mirror');
+      expect(degraded).toEqual(['cdn.example.com']);
+      expect(manager.getDegradedHosts()).toEqual(['cdn.example.com']);
+    });
+
+    it('should probe a half-open breaker and close it on success', async () => {
+      const manager = createManager({
+        resilience: { ...fast, maxRetries: 0, failureThreshold: 1, resetTimeoutMs: 1000 },
+      });
+      const states: string[] = [];
+      manager.on('circuit-state', ({ state }) => states.push(state));
+      const recovered = vi.fn();
+      manager.on('recovered', recovered);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(0);
+
+      respondWith(500);
+      await manager.loadResource(`${CDN}/a.txt`, { fallback: 'placeholder' });
+      vi.setSystemTime(1000);
+      respondWith(500);
+      await manager.loadResource(`${CDN}/a.txt`, { fallback: 'placeholder' });
+      expect(manager.getCircuitState(`${CDN}/a.txt`)).toBe('open');
+
+      vi.setSystemTime(2000);
+      respondWith(200);
+      const blob = await manager.loadResource(`${CDN}/a.txt`, { fallback: 'none' });
+
+      expect(await blob.text()).toBe('ok');
+      expect(states).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+      expect(recovered).toHaveBeenCalledWith({ host: 'cdn.example.com' });
+      expect(manager.getDegradedHosts()).toEqual([]);
+    });
+
+    it('should time out manifest requests', async () => {
+      const manager = createManager({ resilience: { ...fast, requestTimeoutMs: 20 } });
+      fetchMock.mockImplementation(
+        (_url: string, init?: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+          })
+      );
+
+      await expect(manager.loadResourceManifest(CDN)).rejects.toThrow();
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should time out and cancel requests where AbortSignal.any is missing', async () => {
+      const any = vi.spyOn(AbortSignal, 'any').mockImplementation(() => {
+        throw new TypeError('AbortSignal.any is not a function');
+      });
+      const manager = createManager({ resilience: { ...fast, requestTimeoutMs: 20 } });
+      const reasons: string[] = [];
+      manager.on('retry', ({ reason }) => reasons.push(reason));
+      fetchMock.mockImplementation(
+        (_url: string, init?: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+          })
+      );
+      const navigation = new AbortController();
+
+      const timedOut = manager.loadResource(`${CDN}/a.txt`, {
+        signal: navigation.signal,
+        fallback: 'none',
+      });
+      await expect(timedOut).rejects.toThrow('Failed to load resource');
+      expect(reasons).toEqual(['request timed out', 'request timed out']);
+
+      const started = fetchMock.mock.calls.length;
+      const cancelled = createManager({ resilience: fast }).loadResource(`${CDN}/b.txt`, {
+        signal: navigation.signal,
+        fallback: 'none',
+      });
+      await vi.waitFor(() => expect(fetchMock.mock.calls.length).toBeGreaterThan(started));
+      navigation.abort();
+      await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+      expect(any).not.toHaveBeenCalled();
+      any.mockRestore();
+    });
+
+    it('should stop listening after unsubscribing', async () => {
+      const manager = createManager({ resilience: { ...fast, maxRetries: 1 } });
+      const listener = vi.fn();
+      const unsubscribe = manager.on('retry', listener);
+      unsubscribe();
+      respondWith(503, 200);
+
+      await manager.loadResource(`${CDN}/a.txt`);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offline', () => {
+    const alpha = reference('a.txt', 'a'.repeat(40));
+    const beta = reference('b.txt', 'b'.repeat(40));
+
+    function serveBundle(): void {
+      serve(
+        'manifest.json',
+        createResourceManifest([alpha], { total: 2, page: 1, perPage: 1, nextPage: '2.json' })
+      );
+      serve('2.json', createResourceManifest([beta], { total: 2, page: 2, perPage: 1 }));
+      serve('a.txt', 'a'.repeat(40));
+      serve('b.txt', 'b'.repeat(40));
+    }
+
+    it('should download every resource of the manifest and report progress', async () => {
+      serveBundle();
+      const manager = createManager();
+      const onProgress = vi.fn();
+
+      const result = await manager.makeAvailableOffline('com.example.one', CDN, { onProgress });
+
+      expect(result).toMatchObject({ downloaded: 2, cached: 0, failed: [], bytes: 80 });
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        extensionId: 'com.example.one',
+        total: 2,
+        completed: 2,
+        failed: 0,
+        bytes: 80,
+        totalBytes: 80,
+        url: beta.url,
+      });
+      expect(manager.getOfflineStatus('com.example.one')).toMatchObject({
+        total: 4,
+        available: 4,
+        missing: [],
+      });
+    });
+
+    it('should serve a bundle without the network after a restart', async () => {
+      serveBundle();
+      await createManager().makeAvailableOffline('com.example.one', CDN);
+      fetchMock.mockClear();
+
+      const manager = createManager({ offline: true });
+      const manifest = await manager.loadResourceManifest(CDN);
+      const blob = await manager.loadResourceByReference(beta);
+
+      expect(manifest.resources).toEqual([alpha, beta]);
+      expect(await blob.text()).toBe('b'.repeat(40));
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should keep pinned resources through eviction and cache clearing', async () => {
+      serveBundle();
+      serve('c.txt', 'c'.repeat(40));
+      serve('d.txt', 'd'.repeat(40));
+      const manager = createManager({ maxCacheBytes: 100 });
+      await manager.makeAvailableOffline('com.example.one', CDN);
+
+      await manager.loadResource(`${CDN}/c.txt`);
+      await manager.loadResource(`${CDN}/d.txt`);
+      await manager.invalidateCache();
+
+      expect(manager.getOfflineStatus('com.example.one').missing).toEqual([]);
+      expect(manager.getCacheStats().urls).not.toContain(`${CDN}/c.txt`);
+
+      await manager.removeOfflineBundle('com.example.one');
+
+      expect(manager.getCacheStats().bytes).toBeLessThanOrEqual(100);
+    });
+
+    it('should report resources that failed to download as missing', async () => {
+      serveBundle();
+      bodies.delete(beta.url);
+      const manager = createManager();
+
+      const result = await manager.makeAvailableOffline('com.example.one', CDN);
+
+      expect(result.failed).toEqual([beta]);
+      expect(manager.getOfflineStatus('com.example.one').missing).toEqual([beta.url]);
+    });
+
+    it('should never fetch in offline mode and report missing resources', async () => {
+      serve('a.txt', 'alpha');
+      const manager = createManager();
+      const missing = vi.fn();
+      manager.on('offline-missing', missing);
+      manager.setOfflineMode(true);
+
+      await expect(manager.loadResource(`${CDN}/a.txt`)).rejects.toThrow(OfflineResourceError);
+      const placeholder = await manager.loadResource(`${CDN}/b.txt`, {
+        fallback: 'placeholder',
+        extensionId: 'com.example.one',
+      });
+
+      expect(placeholder.type).toBe('image/png');
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(manager.getMissingResources()).toEqual([`${CDN}/a.txt`, `${CDN}/b.txt`]);
+      expect(missing).toHaveBeenLastCalledWith({
+        url: `${CDN}/b.txt`,
+        extensionId: 'com.example.one',
+      });
+    });
+  });
+
+  describe('placeholders', () => {
+    function unavailable<T extends ResourceReference>(type: string, extra: object = {}): T {
+      return { ...reference('missing.bin', 'never served'), type, ...extra } as T;
+    }
+
+    async function readPngSize(blob: Blob): Promise<{ width: number; height: number }> {
+      const bytes = Buffer.from(await blob.arrayBuffer());
+      return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+    }
+
+    it('should size image placeholders from the declared dimensions', async () => {
+      const manager = createManager();
+      const ref = unavailable<ImageResource>('image/jpeg', {
+        dimensions: { width: 800, height: 600 },
+      });
+
+      const placeholder = await manager.loadResourceByReference(ref, { fallback: 'placeholder' });
+
+      expect(placeholder.type).toBe('image/png');
+      expect(await readPngSize(placeholder)).toEqual({ width: 800, height: 600 });
+    });
+
+    it('should use a poster frame for videos and an SVG for SVG images', async () => {
+      const manager = createManager();
+      const video = unavailable<VideoResource>('video/mp4', {
+        dimensions: { width: 1920, height: 1080 },
+      });
+      const svg = unavailable<ImageResource>('image/svg+xml', {
+        dimensions: { width: 64, height: 32 },
+      });
+
+      const poster = await manager.loadResourceByReference(video, { fallback: 'placeholder' });
+      const vector = await manager.loadResourceByReference(svg, { fallback: 'placeholder' });
+
+      expect(await readPngSize(poster)).toEqual({ width: 1920, height: 1080 });
+      expect(vector.type).toBe('image/svg+xml');
+      expect(await vector.text()).toContain('width="64" height="32"');
+    });
+
+    it('should return silent audio of the declared duration', async () => {
+      const manager = createManager();
+      const ref = unavailable<AudioResource>('audio/mpeg', { duration: 2 });
+
+      const placeholder = await manager.loadResourceByReference(ref, { fallback: 'placeholder' });
+      const bytes = Buffer.from(await placeholder.arrayBuffer());
+
+      expect(placeholder.type).toBe('audio/wav');
+      expect(bytes.toString('ascii', 0, 4)).toBe('RIFF');
+      expect(bytes.readUInt32LE(40)).toBe(16000);
+      expect(bytes.subarray(44).every((sample) => sample === 0x80)).toBe(true);
+    });
+
+    it('should map fonts to system fonts', async () => {
+      const manager = createManager();
+      const ref = unavailable<FontResource>('font/woff2', {
+        fontFamily: 'Lesson Sans',
+        fontWeight: '700',
+      });
+
+      const placeholder = await manager.loadResourceByReference(ref, { fallback: 'placeholder' });
+      const css = await placeholder.text();
+
+      expect(placeholder.type).toBe('text/css');
+      expect(css).toContain('font-family: "Lesson Sans"');
+      expect(css).toContain('local("Arial")');
+      expect(css).toContain('font-weight: 700');
+    });
+
+    it('should prefer placeholders shipped in the extension package', async () => {
+      const installPath = join(cacheDir, 'extension');
+      await mkdir(join(installPath, 'placeholders'), { recursive: true });
+      await writeFile(join(installPath, 'placeholders', 'poster.webp'), 'custom poster');
+      const manager = createManager();
+      manager.registerPlaceholders({
+        id: 'com.example.one',
+        installPath,
+        manifest: {
+          resources: { placeholders: { 'video/*': 'poster.webp', '*': '../escape.png' } },
+        },
+      } as unknown as Extension);
+      const video = unavailable<VideoResource>('video/webm');
+      const audio = unavailable<AudioResource>('audio/ogg');
+
+      const poster = await manager.loadResourceByReference(video, {
+        fallback: 'placeholder',
+        extensionId: 'com.example.one',
+      });
+      const silence = await manager.loadResourceByReference(audio, {
+        fallback: 'placeholder',
+        extensionId: 'com.example.one',
+      });
+      const generated = await manager.loadResourceByReference(video, { fallback: 'placeholder' });
+
+      expect(poster.type).toBe('image/webp');
+      expect(await poster.text()).toBe('custom poster');
+      expect(silence.type).toBe('audio/wav');
+      expect(generated.type).toBe('image/png');
+    });
+  });
+
+  describe('prefetch', () => {
+    /**
+     * Hold every response until the returned function is called; held
+     * requests reject when their signal aborts
+     */
+    function holdResponses(): () => void {
+      let open!: () => void;
+      const gate = new Promise<void>((resolve) => (open = resolve));
+      const respond = fetchMock.getMockImplementation()!;
+      fetchMock.mockImplementation(async (url, init) => {
+        await new Promise<void>((resolve, reject) => {
+          gate.then(resolve);
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        });
+        return respond(url, init);
+      });
+      return open;
+    }
+
+    function requestedUrls(): string[] {
+      return fetchMock.mock.calls.map(([url]) => url);
+    }
+
+    it('should share one download between concurrent loads of a URL', async () => {
+      serve('a.txt', 'alpha');
+      const manager = createManager();
+      const open = holdResponses();
+
+      const loads = [
+        manager.loadResource(`${CDN}/a.txt`),
+        manager.loadResource(`${CDN}/a.txt`, { cache: false }),
+        manager.loadResourceByReference(reference('a.txt', 'alpha')),
+      ];
+      open();
+      const blobs = await Promise.all(loads);
+
+      expect(await Promise.all(blobs.map((blob) => blob.text()))).toEqual([
+        'alpha',
+        'alpha',
+        'alpha',
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start queued resources by priority', async () => {
+      for (const name of ['a', 'b', 'c', 'x']) {
+        serve(`${name}.txt`, name);
+      }
+      const manager = createManager({ maxConcurrentPrefetches: 1 });
+
+      const lessonUrls = ['a', 'b', 'c'].map((name) => `${CDN}/${name}.txt`);
+      const lesson = manager.prefetchResources(lessonUrls, { priority: 'low' });
+      const page = manager.prefetchResources([`${CDN}/x.txt`], { priority: 'high' });
+      await Promise.all([lesson, page]);
+
+      expect(requestedUrls()).toEqual(['a', 'x', 'b', 'c'].map((name) => `${CDN}/${name}.txt`));
+    });
+
+    it('should limit concurrent downloads and report progress', async () => {
+      const urls = ['a', 'b', 'c', 'd', 'e'].map((name) => `${CDN}/${name}.txt`);
+      urls.forEach((url) => bodies.set(url, 'body'));
+      bodies.delete(urls[4]);
+      const manager = createManager({ maxConcurrentPrefetches: 2 });
+      const open = holdResponses();
+      const onProgress = vi.fn();
+
+      const prefetch = manager.prefetchResources(urls, { onProgress });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      open();
+      const result = await prefetch;
+
+      expect(result).toEqual({
+        total: 5,
+        loaded: 4,
+        failed: [urls[4]],
+        cancelled: 0,
+        bytes: 16,
+      });
+      expect(onProgress).toHaveBeenCalledTimes(5);
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ loaded: 4, failed: 1, total: 5 })
+      );
+    });
+
+    it('should cancel queued and running downloads', async () => {
+      const urls = ['a', 'b', 'c'].map((name) => `${CDN}/${name}.txt`);
+      urls.forEach((url) => bodies.set(url, 'body'));
+      const manager = createManager({ maxConcurrentPrefetches: 1 });
+      const retry = vi.fn();
+      manager.on('retry', retry);
+      holdResponses();
+      const navigation = new AbortController();
+
+      const prefetch = manager.prefetchResources(urls, { signal: navigation.signal });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+      navigation.abort();
+      const result = await prefetch;
+
+      expect(result).toMatchObject({ loaded: 0, failed: [], cancelled: 3 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(retry).not.toHaveBeenCalled();
+      expect(manager.getCircuitState(urls[0])).toBe('closed');
+    });
+
+    it('should keep a shared download for loads that were not cancelled', async () => {
+      serve('a.txt', 'alpha');
+      const manager = createManager();
+      const open = holdResponses();
+      const navigation = new AbortController();
+
+      const cancelled = manager.loadResource(`${CDN}/a.txt`, {
+        signal: navigation.signal,
+        fallback: 'placeholder',
+      });
+      const kept = manager.loadResource(`${CDN}/a.txt`);
+      navigation.abort();
+      open();
+
+      await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+      expect(await (await kept).text()).toBe('alpha');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('image variants', () => {
+    function withVariants(): ImageResource {
+      serve('dna.png', 'original');
+      serve('dna.thumbnail.webp', 'thumbnail');
+      serve('dna.preview.webp', 'preview');
+      const variant = (path: string, body: string, width: number) => {
+        const { url, type, size, checksum } = reference(path, body);
+        return { url, type, size, checksum, dimensions: { width, height: width / 2 } };
+      };
+      return {
+        ...reference('dna.png', 'original'),
+        type: 'image/png',
+        dimensions: { width: 2048, height: 1024 },
+        variantDetails: {
+          thumbnail: variant('dna.thumbnail.webp', 'thumbnail', 256),
+          preview: variant('dna.preview.webp', 'preview', 1024),
+        },
+      };
+    }
+
+    it.each([
+      ['thumbnail', { width: 200, height: 200 }, 'thumbnail'],
+      ['preview', { width: 800, height: 600 }, 'preview'],
+      ['original', { width: 4000, height: 3000 }, 'original'],
+      ['preview for a box limited by its height', { width: 4000, height: 300 }, 'preview'],
+    ])('should load the %s when it covers the display size', async (_name, size, expected) => {
+      const manager = createManager();
+
+      const blob = await manager.loadResourceForDisplay(withVariants(), size);
+
+      expect(await blob.text()).toBe(expected);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the original when a variant cannot be loaded', async () => {
+      const ref = withVariants();
+      serve('dna.thumbnail.webp', 'tampered');
+      const manager = createManager();
+
+      const blob = await manager.loadResourceForDisplay(ref, { width: 100, height: 100 });
+
+      expect(await blob.text()).toBe('original');
+    });
+
+    it('should load the original when the image has no variants', async () => {
+      serve('plain.png', 'plain');
+      const manager = createManager();
+
+      const blob = await manager.loadResourceForDisplay(reference('plain.png', 'plain'), {
+        width: 10,
+        height: 10,
+      });
+
+      expect(await blob.text()).toBe('plain');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the dependency resolver
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DependencyResolver } from '../DependencyResolver';
+import type { Dependency, ExtensionManifest } from '@/shared/types';
+
+function manifest(id: string, version: string, dependencies: Dependency[] = []): ExtensionManifest {
+  return {
+    metadata: { id, version },
+    requirements: { minAppVersion: '1.0.0', dependencies },
+  } as ExtensionManifest;
+}
+
+function dep(id: string, version: string, optional = false): Dependency {
+  return { id, version, optional };
+}
+
+describe('DependencyResolver', () => {
+  it('should order transitive dependencies before dependents', () => {
+    const resolver = new DependencyResolver(
+      [manifest('com.example.c', '1.0.0')],
+      [
+        manifest('com.example.a', '1.0.0', [dep('com.example.b', '^1.0.0')]),
+        manifest('com.example.b', '1.2.0', [dep('com.example.c', '~1.0.0')]),
+      ]
+    );
+
+    const resolution = resolver.resolve(['com.example.a']);
+
+    expect(resolution.ok).toBe(true);
+    expect(resolution.order).toEqual(['com.example.c', 'com.example.b', 'com.example.a']);
+    expect(resolution.selected.get('com.example.c')?.source).toBe('installed');
+  });
+
+  it('should report missing required dependencies but not optional ones', () => {
+    const resolver = new DependencyResolver(
+      [],
+      [
+        manifest('com.example.a', '1.0.0', [
+          dep('com.example.b', '^1.0.0'),
+          dep('com.example.extra', '^1.0.0', true),
+        ]),
+      ]
+    );
+
+    const resolution = resolver.resolve(['com.example.a']);
+
+    expect(resolution.ok).toBe(false);
+    expect(resolution.explanation).toEqual([
+      'com.example.a requires com.example.b ^1.0.0 but it is not installed or provided',
+    ]);
+    expect(resolution.missing.map((m) => [m.id, m.optional])).toEqual([
+      ['com.example.b', false],
+      ['com.example.extra', true],
+    ]);
+  });
+
+  it('should include optional dependencies that are available', () => {
+    const resolver = new DependencyResolver(
+      [manifest('com.example.extra', '1.0.0')],
+      [manifest('com.example.a', '1.0.0', [dep('com.example.extra', '^1.0.0', true)])]
+    );
+
+    expect(resolver.resolve(['com.example.a']).order).toEqual([
+      'com.example.extra',
+      'com.example.a',
+    ]);
+  });
+
+  it('should explain version conflicts between dependents', () => {
+    const resolver = new DependencyResolver(
+      [manifest('com.example.b', '1.4.2')],
+      [
+        manifest('com.example.a', '1.0.0', [dep('com.example.b', '^2.0.0')]),
+        manifest('com.example.c', '1.0.0', [dep('com.example.b', '~1.4.0')]),
+        manifest('com.example.b', '2.1.0'),
+      ]
+    );
+
+    const resolution = resolver.resolve(['com.example.a', 'com.example.c']);
+
+    expect(resolution.ok).toBe(false);
+    expect(resolution.conflicts).toHaveLength(1);
+    expect(resolution.explanation).toEqual([
+      'com.example.a requires com.example.b ^2.0.0 but com.example.c pins com.example.b ~1.4.0',
+    ]);
+  });
+
+  it('should fall back to an older provider that satisfies every range', () => {
+    const resolver = new DependencyResolver(
+      [manifest('com.example.b', '1.4.2')],
+      [
+        manifest('com.example.a', '1.0.0', [dep('com.example.b', '~1.4.0')]),
+        manifest('com.example.b', '2.1.0'),
+      ]
+    );
+
+    const resolution = resolver.resolve(['com.example.a']);
+
+    expect(resolution.ok).toBe(true);
+    expect(resolution.selected.get('com.example.b')?.manifest.metadata.version).toBe('1.4.2');
+  });
+
+  it('should detect cycles', () => {
+    const resolver = new DependencyResolver(
+      [],
+      [
+        manifest('com.example.a', '1.0.0', [dep('com.example.b', '*')]),
+        manifest('com.example.b', '1.0.0', [dep('com.example.c', '*')]),
+        manifest('com.example.c', '1.0.0', [dep('com.example.a', '*')]),
+      ]
+    );
+
+    const resolution = resolver.resolve(['com.example.a']);
+
+    expect(resolution.ok).toBe(false);
+    expect(resolution.order).toEqual([]);
+    expect(resolution.explanation).toEqual([
+      'Circular dependency: com.example.a -> com.example.b -> com.example.c -> com.example.a',
+    ]);
+  });
+
+  it('should find transitive dependents', () => {
+    const resolver = new DependencyResolver([
+      manifest('com.example.base', '1.0.0'),
+      manifest('com.example.mid', '1.0.0', [dep('com.example.base', '^1.0.0')]),
+      manifest('com.example.top', '1.0.0', [dep('com.example.mid', '^1.0.0')]),
+      manifest('com.example.soft', '1.0.0', [dep('com.example.base', '^1.0.0', true)]),
+    ]);
+
+    expect(resolver.findDependents('com.example.base')).toEqual([
+      'com.example.mid',
+      'com.example.top',
+    ]);
+  });
+});
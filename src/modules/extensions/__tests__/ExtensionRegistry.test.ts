@@ -0,0 +1,893 @@
+/**
+ * Integration tests for the extension registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile, access } from 'fs/promises';
+import { generateKeyPairSync } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import JSZip from 'jszip';
+import { CloudResourceManager } from '../CloudResourceManager';
+import { ExtensionRegistry } from '../ExtensionRegistry';
+import { ManifestGenerator, PackageBuilder } from '@/shared/services';
+import type { ManifestOptions } from '@/shared/services';
+import type { ExtensionManifest, Lifecycle, ResourceReference } from '@/shared/types';
+
+const generator = new ManifestGenerator();
+const builder = new PackageBuilder();
+
+async function writePackage(
+  dir: string,
+  manifest: ExtensionManifest,
+  name = 'extension.ldip'
+): Promise<string> {
+  const blob = await builder.buildPackage({
+    manifest,
+    documentation: { readme: '# Test pack' },
+  });
+  const packagePath = join(dir, name);
+  await writeFile(packagePath, Buffer.from(await blob.arrayBuffer()));
+  return packagePath;
+}
+
+function createManifestWithLifecycle(id: string, lifecycle: Lifecycle): ExtensionManifest {
+  return generator.createManifest({
+    ...generator.createTemplatePackManifest(id, 'Lifecycle Pack', 'Author', 'author@example.com'),
+    lifecycle,
+  });
+}
+
+function createVersionedManifest(
+  id: string,
+  version: string,
+  overrides: Partial<ManifestOptions> = {}
+): ExtensionManifest {
+  const base = generator.createTemplatePackManifest(id, 'Versioned Pack', 'Author', 'author@example.com');
+  return generator.createManifest({
+    ...base,
+    metadata: { ...base.metadata, version },
+    ...overrides,
+  });
+}
+
+describe('ExtensionRegistry', () => {
+  let dataDir: string;
+  let registry: ExtensionRegistry;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'ldip-registry-'));
+    ExtensionRegistry.resetInstance();
+    CloudResourceManager.resetInstance();
+    registry = ExtensionRegistry.getInstance({ dataDir, appVersion: '1.0.0' });
+  });
+
+  afterEach(async () => {
+    ExtensionRegistry.resetInstance();
+    CloudResourceManager.resetInstance();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('install', () => {
+    it('should install a valid package into its own directory', async () => {
+      const manifest = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Example Pack',
+        'Author',
+        'author@example.com'
+      );
+      const packagePath = await writePackage(dataDir, manifest);
+
+      const result = await registry.install(packagePath);
+
+      expect(result.success).toBe(true);
+      expect(result.extensionId).toBe('com.example.pack');
+
+      const extension = registry.getExtension('com.example.pack');
+      expect(extension?.status).toBe('installed');
+      expect(extension?.installedAt).toBeInstanceOf(Date);
+      expect(extension?.installPath).toBe(
+        join(dataDir, 'extensions', 'com.example.pack', '1.0.0')
+      );
+
+      const readme = await readFile(join(extension!.installPath, 'README.md'), 'utf-8');
+      expect(readme).toBe('# Test pack');
+    });
+
+    it('should report unreadable packages', async () => {
+      const result = await registry.install(join(dataDir, 'missing.ldip'));
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('PACKAGE_READ_FAILED');
+    });
+
+    it('should reject tampered packages', async () => {
+      const manifest = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Example Pack',
+        'Author',
+        'author@example.com'
+      );
+      const packagePath = await writePackage(dataDir, manifest);
+
+      // Edit the packaged manifest without regenerating its checksum
+      const zip = await JSZip.loadAsync(await readFile(packagePath));
+      const packaged = JSON.parse(await zip.file('manifest.json')!.async('string'));
+      packaged.metadata.name = 'Tampered';
+      zip.file('manifest.json', JSON.stringify(packaged));
+      await writeFile(packagePath, await zip.generateAsync({ type: 'nodebuffer' }));
+
+      const result = await registry.install(packagePath);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('PACKAGE_INVALID');
+      expect(registry.getExtension('com.example.pack')).toBeUndefined();
+    });
+
+    it('should refuse packages with entries outside the install directory', async () => {
+      const manifest = createVersionedManifest('com.example.slip', '1.0.0');
+      const packagePath = await writePackage(dataDir, manifest);
+
+      const zip = await JSZip.loadAsync(await readFile(packagePath));
+      zip.file('../../outside.js', 'void 0;');
+      await writeFile(packagePath, await zip.generateAsync({ type: 'nodebuffer' }));
+
+      const result = await registry.install(packagePath);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('UNSAFE_PATH');
+      await expect(access(join(dataDir, 'outside.js'))).rejects.toThrow();
+    });
+
+    it('should report missing dependencies without extracting', async () => {
+      const manifest = generator.createManifest({
+        ...generator.createTemplatePackManifest(
+          'com.example.dependent',
+          'Dependent Pack',
+          'Author',
+          'author@example.com'
+        ),
+        requirements: {
+          minAppVersion: '1.0.0',
+          dependencies: [{ id: 'com.example.base', version: '1.0.0', optional: false }],
+        },
+      });
+      const packagePath = await writePackage(dataDir, manifest);
+
+      const result = await registry.install(packagePath);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('DEPENDENCIES_MISSING');
+      expect(result.missingDependencies?.map((d) => d.id)).toEqual(['com.example.base']);
+      await expect(
+        access(join(dataDir, 'extensions', 'com.example.dependent'))
+      ).rejects.toThrow();
+    });
+
+    it('should refuse to install the same extension twice', async () => {
+      const manifest = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Example Pack',
+        'Author',
+        'author@example.com'
+      );
+      const packagePath = await writePackage(dataDir, manifest);
+
+      await registry.install(packagePath);
+      const result = await registry.install(packagePath);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('ALREADY_INSTALLED');
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore installed extensions after a restart', async () => {
+      const manifest = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Example Pack',
+        'Author',
+        'author@example.com'
+      );
+      await registry.install(await writePackage(dataDir, manifest));
+      await registry.enable('com.example.pack');
+
+      ExtensionRegistry.resetInstance();
+      const restarted = ExtensionRegistry.getInstance({ dataDir });
+
+      const extension = restarted.getExtension('com.example.pack');
+      expect(extension?.status).toBe('enabled');
+      expect(extension?.installedAt).toBeInstanceOf(Date);
+      expect(extension?.enabledAt).toBeInstanceOf(Date);
+    });
+
+    it('should recover from a corrupt store using the backup', async () => {
+      const manifest = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Example Pack',
+        'Author',
+        'author@example.com'
+      );
+      await registry.install(await writePackage(dataDir, manifest));
+      await registry.enable('com.example.pack');
+      await writeFile(join(dataDir, 'registry.json'), '{ not json');
+
+      ExtensionRegistry.resetInstance();
+      const restarted = ExtensionRegistry.getInstance({ dataDir });
+
+      expect(restarted.getExtension('com.example.pack')?.status).toBe('installed');
+    });
+
+    it('should keep extensions when the version history is malformed', async () => {
+      const manifest = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Example Pack',
+        'Author',
+        'author@example.com'
+      );
+      await registry.install(await writePackage(dataDir, manifest));
+
+      // Without a backup to fall back on, discarding the store loses the extension
+      const storePath = join(dataDir, 'registry.json');
+      const stored = JSON.parse(await readFile(storePath, 'utf-8'));
+      await rm(`${storePath}.bak`, { force: true });
+      await writeFile(
+        storePath,
+        JSON.stringify({ ...stored, history: { 'com.example.pack': 'not a list' } })
+      );
+      ExtensionRegistry.resetInstance();
+      let restarted = ExtensionRegistry.getInstance({ dataDir });
+      expect(restarted.getExtension('com.example.pack')?.status).toBe('installed');
+      expect(restarted.getVersionHistory('com.example.pack')).toEqual([]);
+
+      await writeFile(storePath, JSON.stringify({ ...stored, history: 'not a record' }));
+      await rm(`${storePath}.bak`, { force: true });
+      ExtensionRegistry.resetInstance();
+      restarted = ExtensionRegistry.getInstance({ dataDir });
+      expect(restarted.getExtension('com.example.pack')?.status).toBe('installed');
+    });
+
+    it('should start empty when the store is missing', () => {
+      expect(registry.listExtensions()).toEqual([]);
+    });
+  });
+
+  describe('transactions', () => {
+    const lifecycle: Lifecycle = {
+      onInstall: { script: 'install.js' },
+      onEnable: { script: 'enable.js' },
+      onUninstall: { script: 'uninstall.js' },
+    };
+
+    function useFailingHook(hook: string): ExtensionRegistry {
+      ExtensionRegistry.resetInstance();
+      return ExtensionRegistry.getInstance({
+        dataDir,
+        hookRunner: async (_extension, name) => {
+          if (name === hook) throw new Error(`${hook} exploded`);
+        },
+      });
+    }
+
+    it('should roll back an install when the onInstall hook fails', async () => {
+      registry = useFailingHook('onInstall');
+      const manifest = createManifestWithLifecycle('com.example.pack', lifecycle);
+
+      const result = await registry.install(await writePackage(dataDir, manifest));
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('ROLLED_BACK');
+      expect(result.rollback?.failedStep).toBe('onInstall');
+      expect(result.rollback?.reason).toBe('onInstall exploded');
+      expect(registry.getExtension('com.example.pack')).toBeUndefined();
+      await expect(
+        access(join(dataDir, 'extensions', 'com.example.pack', '1.0.0'))
+      ).rejects.toThrow();
+    });
+
+    it('should remove partly extracted files when staging fails', async () => {
+      const manifest = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Example Pack',
+        'Author',
+        'author@example.com'
+      );
+      const packagePath = await writePackage(dataDir, manifest);
+      // The second file needs a directory where the first one was written
+      const readFiles = vi.spyOn(PackageBuilder.prototype, 'readFiles').mockResolvedValue([
+        { path: 'README.md', content: new TextEncoder().encode('# Test pack') },
+        { path: 'README.md/nested.txt', content: new Uint8Array(1) },
+      ]);
+
+      try {
+        const result = await registry.install(packagePath);
+
+        expect(result.success).toBe(false);
+        expect(result.rollback?.failedStep).toBe('stage');
+        expect(result.rollback?.complete).toBe(true);
+        expect(await readdir(join(dataDir, 'staging'))).toEqual([]);
+      } finally {
+        readFiles.mockRestore();
+      }
+    });
+
+    it('should roll back an install when enabling fails', async () => {
+      registry = useFailingHook('onEnable');
+      const manifest = createManifestWithLifecycle('com.example.pack', lifecycle);
+
+      const result = await registry.install(await writePackage(dataDir, manifest), {
+        enable: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.rollback?.failedStep).toBe('onEnable');
+      expect(registry.getExtension('com.example.pack')).toBeUndefined();
+    });
+
+    it('should persist rollback records', async () => {
+      registry = useFailingHook('onInstall');
+      const manifest = createManifestWithLifecycle('com.example.pack', lifecycle);
+      await registry.install(await writePackage(dataDir, manifest));
+
+      ExtensionRegistry.resetInstance();
+      const restarted = ExtensionRegistry.getInstance({ dataDir });
+
+      const history = restarted.getRollbackHistory('com.example.pack');
+      expect(history).toHaveLength(1);
+      expect(history[0].operation).toBe('install');
+    });
+
+    it('should record a failing enable hook on the extension', async () => {
+      registry = useFailingHook('onEnable');
+      const manifest = createManifestWithLifecycle('com.example.pack', lifecycle);
+      await registry.install(await writePackage(dataDir, manifest));
+
+      await expect(registry.enable('com.example.pack')).rejects.toThrow('onEnable exploded');
+
+      const extension = registry.getExtension('com.example.pack');
+      expect(extension?.status).toBe('error');
+      expect(extension?.error).toBe('onEnable failed: onEnable exploded');
+    });
+
+    it('should restore the extension when uninstall fails', async () => {
+      registry = useFailingHook('onUninstall');
+      const manifest = createManifestWithLifecycle('com.example.pack', lifecycle);
+      await registry.install(await writePackage(dataDir, manifest), { enable: true });
+
+      await expect(registry.uninstall('com.example.pack')).rejects.toThrow(/rolled back/);
+
+      const extension = registry.getExtension('com.example.pack');
+      expect(extension?.status).toBe('enabled');
+      expect((await registry.checkHealth('com.example.pack')).status).toBe('healthy');
+    });
+
+    it('should remove files on a successful uninstall', async () => {
+      const manifest = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Example Pack',
+        'Author',
+        'author@example.com'
+      );
+      await registry.install(await writePackage(dataDir, manifest));
+
+      await registry.uninstall('com.example.pack');
+
+      expect(registry.getExtension('com.example.pack')).toBeUndefined();
+      await expect(
+        access(join(dataDir, 'extensions', 'com.example.pack'))
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('upgrade', () => {
+    it('should upgrade to a newer version and keep the previous one', async () => {
+      await registry.install(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.0.0'), 'v1.ldip')
+      );
+
+      const result = await registry.upgrade(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.1.0'), 'v2.ldip')
+      );
+
+      expect(result.success).toBe(true);
+      expect(registry.getExtension('com.example.pack')?.manifest.metadata.version).toBe('1.1.0');
+
+      const history = registry.getVersionHistory('com.example.pack');
+      expect(history.map((entry) => entry.version)).toEqual(['1.0.0']);
+      await access(join(history[0].installPath, 'manifest.json'));
+    });
+
+    it('should refuse downgrades unless forced', async () => {
+      await registry.install(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '2.0.0'), 'v2.ldip')
+      );
+      const olderPath = await writePackage(
+        dataDir,
+        createVersionedManifest('com.example.pack', '1.0.0'),
+        'v1.ldip'
+      );
+
+      const refused = await registry.upgrade(olderPath);
+      expect(refused.success).toBe(false);
+      expect(refused.errorCode).toBe('DOWNGRADE_REFUSED');
+
+      const forced = await registry.upgrade(olderPath, { force: true });
+      expect(forced.success).toBe(true);
+      expect(registry.getExtension('com.example.pack')?.manifest.metadata.version).toBe('1.0.0');
+    });
+
+    it('should reject upgrades that break installed dependents', async () => {
+      await registry.install(
+        await writePackage(dataDir, createVersionedManifest('com.example.base', '1.0.0'), 'base.ldip')
+      );
+      await registry.install(
+        await writePackage(
+          dataDir,
+          createVersionedManifest('com.example.dependent', '1.0.0', {
+            requirements: {
+              minAppVersion: '1.0.0',
+              dependencies: [{ id: 'com.example.base', version: '^1.0.0', optional: false }],
+            },
+          }),
+          'dependent.ldip'
+        )
+      );
+
+      const result = await registry.upgrade(
+        await writePackage(dataDir, createVersionedManifest('com.example.base', '2.0.0'), 'base2.ldip')
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('DEPENDENT_CONFLICT');
+      expect(result.details).toEqual(['com.example.dependent requires com.example.base@^1.0.0']);
+    });
+
+    it('should run migrations in order before the onInstall hook', async () => {
+      const executed: string[] = [];
+      ExtensionRegistry.resetInstance();
+      registry = ExtensionRegistry.getInstance({
+        dataDir,
+        hookRunner: async (_extension, _hook, script) => {
+          executed.push(script);
+        },
+      });
+      await registry.install(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.0.0'), 'v1.ldip')
+      );
+
+      await registry.upgrade(
+        await writePackage(
+          dataDir,
+          createVersionedManifest('com.example.pack', '1.1.0', {
+            lifecycle: {
+              onInstall: { script: 'install.js', migrations: ['m1.js', 'm2.js'] },
+            },
+          }),
+          'v2.ldip'
+        )
+      );
+
+      expect(executed).toEqual(['m1.js', 'm2.js', 'install.js']);
+    });
+
+    it('should restore a previous version from history', async () => {
+      await registry.install(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.0.0'), 'v1.ldip'),
+        { enable: true }
+      );
+      await registry.upgrade(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.1.0'), 'v2.ldip')
+      );
+
+      const result = await registry.restoreVersion('com.example.pack', '1.0.0');
+
+      expect(result.success).toBe(true);
+      const extension = registry.getExtension('com.example.pack');
+      expect(extension?.manifest.metadata.version).toBe('1.0.0');
+      expect(extension?.status).toBe('enabled');
+      expect(registry.getVersionHistory('com.example.pack').map((e) => e.version)).toEqual([
+        '1.1.0',
+      ]);
+    });
+
+    it('should only keep the configured number of versions', async () => {
+      ExtensionRegistry.resetInstance();
+      registry = ExtensionRegistry.getInstance({ dataDir, maxVersionHistory: 1 });
+
+      for (const version of ['1.0.0', '1.1.0', '1.2.0']) {
+        const packagePath = await writePackage(
+          dataDir,
+          createVersionedManifest('com.example.pack', version),
+          `${version}.ldip`
+        );
+        if (version === '1.0.0') {
+          await registry.install(packagePath);
+        } else {
+          await registry.upgrade(packagePath);
+        }
+      }
+
+      expect(registry.getVersionHistory('com.example.pack').map((e) => e.version)).toEqual([
+        '1.1.0',
+      ]);
+      await expect(
+        access(join(dataDir, 'extensions', 'com.example.pack', '1.0.0'))
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('events', () => {
+    it('should report every change to the installed extensions', async () => {
+      const changes: unknown[] = [];
+      const off = registry.on('changed', (change) => changes.push(change));
+
+      await registry.install(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.0.0'), 'v1.ldip')
+      );
+      await registry.upgrade(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.1.0'), 'v2.ldip')
+      );
+      await registry.enable('com.example.pack');
+      await registry.disable('com.example.pack');
+      await registry.restoreVersion('com.example.pack', '1.0.0');
+      await registry.uninstall('com.example.pack');
+      off();
+      await registry.install(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.0.0'), 'v1.ldip')
+      );
+
+      const extensionId = 'com.example.pack';
+      expect(changes).toEqual([
+        { extensionId, change: 'installed', version: '1.0.0' },
+        { extensionId, change: 'updated', version: '1.1.0' },
+        { extensionId, change: 'enabled', version: '1.1.0' },
+        { extensionId, change: 'disabled', version: '1.1.0' },
+        { extensionId, change: 'restored', version: '1.0.0' },
+        { extensionId, change: 'uninstalled' },
+      ]);
+    });
+
+    it('should not report changes that were rolled back', async () => {
+      ExtensionRegistry.resetInstance();
+      registry = ExtensionRegistry.getInstance({
+        dataDir,
+        hookRunner: async (_extension, hook) => {
+          if (hook === 'onInstall') throw new Error('hook failed');
+        },
+      });
+      const listener = vi.fn();
+      registry.on('changed', listener);
+
+      const manifest = createManifestWithLifecycle('com.example.pack', {
+        onInstall: { script: 'install.js' },
+      });
+
+      const result = await registry.install(await writePackage(dataDir, manifest));
+
+      expect(result.success).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('placeholders', () => {
+    it('should serve shipped placeholders unless the extension is disabled or gone', async () => {
+      const base = generator.createTemplatePackManifest(
+        'com.example.pack',
+        'Placeholder Pack',
+        'Author',
+        'author@example.com'
+      );
+      const manifest = generator.createManifest({
+        ...base,
+        resources: { ...base.resources, placeholders: { 'video/*': 'poster.webp' } },
+      });
+      const blob = await builder.buildPackage({
+        manifest,
+        placeholders: [{ name: 'poster.webp', content: new TextEncoder().encode('poster') }],
+      });
+      const packagePath = join(dataDir, 'extension.ldip');
+      await writeFile(packagePath, Buffer.from(await blob.arrayBuffer()));
+
+      const video = {
+        id: 'intro',
+        filename: 'intro.webm',
+        url: 'https://cdn.example.com/intro.webm',
+        type: 'video/webm',
+        size: 1,
+        checksum: { algorithm: 'sha256', value: '' },
+      } satisfies ResourceReference;
+      const placeholderType = async () => {
+        // The registry created the manager; offline, every load falls back
+        const resources = CloudResourceManager.getInstance();
+        resources.setOfflineMode(true);
+        const placeholder = await resources.loadResourceByReference(video, {
+          fallback: 'placeholder',
+          extensionId: 'com.example.pack',
+        });
+        return placeholder.type;
+      };
+
+      await registry.install(packagePath);
+      expect(await placeholderType()).toBe('image/webp');
+
+      await registry.disable('com.example.pack');
+      expect(await placeholderType()).toBe('image/png');
+      await registry.enable('com.example.pack');
+      expect(await placeholderType()).toBe('image/webp');
+
+      ExtensionRegistry.resetInstance();
+      CloudResourceManager.resetInstance();
+      registry = ExtensionRegistry.getInstance({ dataDir });
+      expect(await placeholderType()).toBe('image/webp');
+
+      await registry.uninstall('com.example.pack');
+      expect(await placeholderType()).toBe('image/png');
+    });
+
+    it('should register the upgraded version', async () => {
+      const resources = { registerPlaceholders: vi.fn(), unregisterPlaceholders: vi.fn() };
+      ExtensionRegistry.resetInstance();
+      registry = ExtensionRegistry.getInstance({ dataDir, resources });
+      await registry.install(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.0.0'), 'v1.ldip')
+      );
+
+      await registry.upgrade(
+        await writePackage(dataDir, createVersionedManifest('com.example.pack', '1.1.0'), 'v2.ldip')
+      );
+
+      expect(resources.registerPlaceholders).toHaveBeenLastCalledWith(
+        registry.getExtension('com.example.pack')
+      );
+      expect(resources.registerPlaceholders.mock.lastCall?.[0].installPath).toBe(
+        join(dataDir, 'extensions', 'com.example.pack', '1.1.0')
+      );
+    });
+  });
+
+  describe('dependencies', () => {
+    const dependentManifest = () =>
+      createVersionedManifest('com.example.dependent', '1.0.0', {
+        requirements: {
+          minAppVersion: '1.0.0',
+          dependencies: [{ id: 'com.example.base', version: '^1.0.0', optional: false }],
+        },
+      });
+
+    it('should install a batch in dependency order', async () => {
+      const result = await registry.installAll([
+        await writePackage(dataDir, dependentManifest(), 'dependent.ldip'),
+        await writePackage(dataDir, createVersionedManifest('com.example.base', '1.2.0'), 'base.ldip'),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.order).toEqual(['com.example.base', 'com.example.dependent']);
+      expect(registry.listExtensions()).toHaveLength(2);
+    });
+
+    it('should skip batch entries whose version is already installed', async () => {
+      const basePath = await writePackage(
+        dataDir,
+        createVersionedManifest('com.example.base', '1.0.0'),
+        'base.ldip'
+      );
+      await registry.install(basePath);
+
+      const result = await registry.installAll([
+        basePath,
+        await writePackage(dataDir, dependentManifest(), 'dependent.ldip'),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.results).toMatchObject([
+        {
+          success: true,
+          extensionId: 'com.example.base',
+          warnings: ['com.example.base@1.0.0 is already installed'],
+        },
+        { success: true, extensionId: 'com.example.dependent' },
+      ]);
+      expect(registry.getVersionHistory('com.example.base')).toEqual([]);
+    });
+
+    it('should refuse to uninstall an extension enabled dependents rely on', async () => {
+      await registry.installAll(
+        [
+          await writePackage(dataDir, createVersionedManifest('com.example.base', '1.0.0'), 'base.ldip'),
+          await writePackage(dataDir, dependentManifest(), 'dependent.ldip'),
+        ],
+        { enable: true }
+      );
+
+      await expect(registry.uninstall('com.example.base')).rejects.toMatchObject({
+        code: 'HAS_DEPENDENTS',
+        details: ['com.example.dependent depends on com.example.base'],
+      });
+      expect(registry.getExtension('com.example.base')).toBeDefined();
+    });
+
+    it('should cascade uninstall after confirmation', async () => {
+      await registry.installAll(
+        [
+          await writePackage(dataDir, createVersionedManifest('com.example.base', '1.0.0'), 'base.ldip'),
+          await writePackage(dataDir, dependentManifest(), 'dependent.ldip'),
+        ],
+        { enable: true }
+      );
+
+      await expect(
+        registry.uninstall('com.example.base', { cascade: true, confirm: () => false })
+      ).rejects.toThrow(/cancelled/);
+
+      const asked: string[][] = [];
+      await registry.uninstall('com.example.base', {
+        cascade: true,
+        confirm: (dependents) => {
+          asked.push(dependents);
+          return true;
+        },
+      });
+
+      expect(asked).toEqual([['com.example.dependent']]);
+      expect(registry.listExtensions()).toEqual([]);
+    });
+
+    it('should restore cascaded dependents when the uninstall fails', async () => {
+      ExtensionRegistry.resetInstance();
+      registry = ExtensionRegistry.getInstance({
+        dataDir,
+        hookRunner: async (extension, hook) => {
+          if (extension.id === 'com.example.base' && hook === 'onUninstall') {
+            throw new Error('onUninstall exploded');
+          }
+        },
+      });
+      const lifecycle: Lifecycle = { onUninstall: { script: 'uninstall.js' } };
+      await registry.installAll(
+        [
+          await writePackage(
+            dataDir,
+            createVersionedManifest('com.example.base', '1.0.0', { lifecycle }),
+            'base.ldip'
+          ),
+          await writePackage(dataDir, dependentManifest(), 'dependent.ldip'),
+        ],
+        { enable: true }
+      );
+
+      await expect(
+        registry.uninstall('com.example.base', { cascade: true })
+      ).rejects.toMatchObject({ code: 'ROLLED_BACK' });
+
+      const dependent = registry.getExtension('com.example.dependent');
+      expect(dependent?.status).toBe('enabled');
+      await access(join(dependent!.installPath, 'manifest.json'));
+      expect(registry.getExtension('com.example.base')?.status).toBe('enabled');
+      expect(registry.getRollbackHistory('com.example.base')).toMatchObject([
+        { operation: 'uninstall', failedStep: 'onUninstall' },
+      ]);
+    });
+  });
+
+  describe('permissions', () => {
+    function networkManifest(): ExtensionManifest {
+      return createVersionedManifest('com.example.net', '1.0.0', {
+        permissions: {
+          required: ['document-read', 'network-access'],
+          optional: ['cloud-storage-read'],
+          restrictedApis: ['network.fetch'],
+        },
+      });
+    }
+
+    it('should refuse the install when required permissions are declined', async () => {
+      ExtensionRegistry.resetInstance();
+      registry = ExtensionRegistry.getInstance({ dataDir, consent: () => false });
+
+      const result = await registry.install(await writePackage(dataDir, networkManifest()));
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('PERMISSION_DENIED');
+      expect(registry.getExtension('com.example.net')).toBeUndefined();
+    });
+
+    it('should persist grants and drop them on uninstall', async () => {
+      await registry.install(await writePackage(dataDir, networkManifest()));
+
+      ExtensionRegistry.resetInstance();
+      registry = ExtensionRegistry.getInstance({ dataDir });
+      const broker = registry.getPermissionBroker();
+      expect(broker.isGranted('com.example.net', 'network-access')).toBe(true);
+
+      await registry.uninstall('com.example.net');
+      expect(broker.getGrants('com.example.net')).toEqual([]);
+    });
+
+    it('should drop grants the restored version does not declare', async () => {
+      await registry.install(
+        await writePackage(
+          dataDir,
+          createVersionedManifest('com.example.net', '1.0.0', {
+            permissions: { required: ['document-read'], optional: [], restrictedApis: [] },
+          }),
+          'v1.ldip'
+        )
+      );
+      await registry.upgrade(
+        await writePackage(
+          dataDir,
+          createVersionedManifest('com.example.net', '1.1.0', {
+            permissions: networkManifest().permissions,
+          }),
+          'v2.ldip'
+        )
+      );
+      const broker = registry.getPermissionBroker();
+      expect(broker.isGranted('com.example.net', 'network-access')).toBe(true);
+
+      const result = await registry.restoreVersion('com.example.net', '1.0.0');
+
+      expect(result.success).toBe(true);
+      expect(broker.getGrants('com.example.net').map((grant) => grant.permission)).toEqual([
+        'document-read',
+      ]);
+    });
+
+    it('should degrade an enabled extension when a required permission is revoked', async () => {
+      await registry.install(await writePackage(dataDir, networkManifest()), { enable: true });
+
+      expect(registry.revokePermission('com.example.net', 'network-access')).toEqual([
+        'network-access',
+      ]);
+
+      const extension = registry.getExtension('com.example.net');
+      expect(extension?.status).toBe('degraded');
+      expect(extension?.error).toBe('Required permission revoked: network-access');
+      const audit = await readFile(join(dataDir, 'permission-audit.log'), 'utf-8');
+      expect(audit).toContain('"action":"revoke"');
+    });
+  });
+
+  describe('signatures', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const signingKey = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    async function writeSignedPackage(): Promise<string> {
+      const manifest = createVersionedManifest('com.example.signed', '1.0.0');
+      const blob = await builder.buildPackage({ manifest }, { signingKey });
+      const packagePath = join(dataDir, 'signed.ldip');
+      await writeFile(packagePath, Buffer.from(await blob.arrayBuffer()));
+      return packagePath;
+    }
+
+    it('should install packages signed by a trusted publisher', async () => {
+      registry.getTrustStore().add(signingKey, 'Example Publisher');
+
+      const result = await registry.install(await writeSignedPackage());
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).not.toContain('Package is not signed');
+    });
+
+    it('should refuse packages from publishers missing from the trust store', async () => {
+      const result = await registry.install(await writeSignedPackage());
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('UNTRUSTED_PUBLISHER');
+    });
+
+    it('should apply the unsigned package policy', async () => {
+      const manifest = createVersionedManifest('com.example.unsigned', '1.0.0');
+
+      const warned = await registry.install(await writePackage(dataDir, manifest));
+      expect(warned.warnings).toContain('Package is not signed');
+
+      ExtensionRegistry.resetInstance();
+      registry = ExtensionRegistry.getInstance({ dataDir, unsignedPackagePolicy: 'reject' });
+      await registry.uninstall('com.example.unsigned');
+
+      const rejected = await registry.install(await writePackage(dataDir, manifest));
+      expect(rejected.errorCode).toBe('UNSIGNED_PACKAGE');
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for the lifecycle script sandbox
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LifecycleSandbox } from '../LifecycleSandbox';
+import type { Extension, ExtensionManifest, Permission } from '@/shared/types';
+
+describe('LifecycleSandbox', () => {
+  let installPath: string;
+
+  beforeEach(async () => {
+    installPath = await mkdtemp(join(tmpdir(), 'ldip-sandbox-'));
+    await mkdir(join(installPath, 'scripts'));
+  });
+
+  afterEach(async () => {
+    await rm(installPath, { recursive: true, force: true });
+  });
+
+  async function createExtension(
+    scripts: Record<string, string>,
+    required: Permission[] = [],
+    timeout?: number
+  ): Promise<Extension> {
+    for (const [name, content] of Object.entries(scripts)) {
+      await writeFile(join(installPath, 'scripts', name), content);
+    }
+
+    return {
+      id: 'com.example.sandboxed',
+      manifest: {
+        metadata: { id: 'com.example.sandboxed', version: '1.0.0' },
+        permissions: { required, optional: [] },
+        lifecycle: { onEnable: { script: './scripts/enable.js', timeout } },
+      } as unknown as ExtensionManifest,
+      status: 'installed',
+      installPath,
+      installedAt: new Date(),
+    };
+  }
+
+  it('should run the hook with its context and granted APIs', async () => {
+    const written: unknown[] = [];
+    const sandbox = new LifecycleSandbox({
+      handlers: {
+        'document.write': (_extension, value) => {
+          written.push(value);
+          return { saved: true };
+        },
+      },
+    });
+    const extension = await createExtension(
+      {
+        'enable.js': `
+          exports.onEnable = async (context) => {
+            const result = await context.api.document.write({ hook: context.hook });
+            console.log('saved', result.saved);
+          };
+        `,
+      },
+      ['document-write']
+    );
+
+    const result = await sandbox.runHook(extension, 'onEnable', './scripts/enable.js');
+
+    expect(written).toEqual([{ hook: 'onEnable' }]);
+    expect(result.logs).toEqual(['[log] saved true']);
+  });
+
+  it('should not expose Node globals or ungranted APIs', async () => {
+    const sandbox = new LifecycleSandbox();
+    const extension = await createExtension({
+      'enable.js': `
+        function onEnable() {
+          const leaked = [typeof require, typeof process, typeof Buffer, typeof setTimeout];
+          if (leaked.some((type) => type !== 'undefined')) throw new Error('leak: ' + leaked);
+          if (lousa.network !== undefined) throw new Error('network exposed');
+          if (lousa.document !== undefined) throw new Error('document exposed');
+        }
+      `,
+    });
+
+    await expect(sandbox.runHook(extension, 'onEnable', 'enable.js')).resolves.toBeDefined();
+  });
+
+  it('should not let scripts reach the host through constructors or callers', async () => {
+    const sandbox = new LifecycleSandbox({ handlers: { 'document.write': () => ({}) } });
+    const extension = await createExtension(
+      {
+        'enable.js': `
+          const topLevel = this;
+          const callers = [];
+          Object.prototype.toJSON = function toJSON() {
+            callers.push(toJSON.caller);
+            return this;
+          };
+          Error.prepareStackTrace = (error, frames) => {
+            for (const frame of frames) callers.push(frame.getFunction(), frame.getThis());
+            return '';
+          };
+
+          exports.onEnable = async (context) => {
+            await context.api.document.write({ probe: true });
+            void new Error('probe').stack;
+
+            const roots = [
+              topLevel,
+              globalThis,
+              console.log,
+              lousa.document.write,
+              context.api.document.write,
+              ...callers,
+            ];
+            for (const root of roots) {
+              let process;
+              try {
+                process = root.constructor.constructor('return process')();
+              } catch {
+                continue;
+              }
+              if (process && typeof process.exit === 'function') throw new Error('escaped');
+            }
+          };
+        `,
+      },
+      ['document-write']
+    );
+
+    await expect(sandbox.runHook(extension, 'onEnable', 'enable.js')).resolves.toBeDefined();
+  });
+
+  it('should block dynamic code generation', async () => {
+    const sandbox = new LifecycleSandbox();
+    const extension = await createExtension({
+      'enable.js': `exports.onEnable = () => new Function('return this')();`,
+    });
+
+    await expect(sandbox.runHook(extension, 'onEnable', 'enable.js')).rejects.toMatchObject({
+      code: 'SCRIPT_FAILED',
+    });
+  });
+
+  it('should stop scripts that exceed the manifest timeout', async () => {
+    const sandbox = new LifecycleSandbox();
+    const extension = await createExtension(
+      { 'enable.js': `exports.onEnable = () => { for (;;) {} };` },
+      [],
+      200
+    );
+
+    await expect(sandbox.runHook(extension, 'onEnable', 'enable.js')).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+  });
+
+  it('should fail hooks that wait on something that can never happen', async () => {
+    const sandbox = new LifecycleSandbox({ defaultTimeout: 10000 });
+    const extension = await createExtension({
+      'enable.js': `exports.onEnable = () => new Promise(() => {});`,
+    });
+
+    await expect(sandbox.runHook(extension, 'onEnable', 'enable.js')).rejects.toMatchObject({
+      code: 'SCRIPT_FAILED',
+      message: 'onEnable never settled',
+    });
+  });
+
+  it('should stop scripts that exceed the memory limit', async () => {
+    const sandbox = new LifecycleSandbox({ memoryLimitMb: 16, defaultTimeout: 10000 });
+    const extension = await createExtension({
+      'enable.js': `
+        exports.onEnable = () => {
+          const hoard = [];
+          for (;;) hoard.push(new Array(10000).fill('x'));
+        };
+      `,
+    });
+
+    await expect(sandbox.runHook(extension, 'onEnable', 'enable.js')).rejects.toMatchObject({
+      code: 'MEMORY_LIMIT',
+    });
+  });
+
+  it('should refuse scripts outside the scripts folder', async () => {
+    const sandbox = new LifecycleSandbox();
+    const extension = await createExtension({});
+
+    await expect(
+      sandbox.runHook(extension, 'onEnable', '../manifest.json')
+    ).rejects.toMatchObject({ code: 'INVALID_SCRIPT' });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for runtime permission enforcement
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PermissionBroker } from '../PermissionBroker';
+import { PermissionDeniedError } from '../errors';
+import type { ConsentRequest, ExtensionManifest, Permission } from '@/shared/types';
+
+function manifest(
+  required: Permission[],
+  optional: Permission[] = [],
+  restrictedApis: string[] = []
+): ExtensionManifest {
+  return {
+    metadata: { id: 'com.example.tool', name: 'Example Tool', version: '1.0.0' },
+    permissions: { required, optional, restrictedApis },
+  } as unknown as ExtensionManifest;
+}
+
+describe('PermissionBroker', () => {
+  it('should grant required permissions at install', async () => {
+    const broker = new PermissionBroker();
+    const tool = manifest(['document-read', 'network-access'], [], ['network.fetch']);
+
+    expect(await broker.requestInstallConsent(tool)).toBe(true);
+    broker.grantRequired(tool);
+
+    expect(broker.getGrants('com.example.tool').map((grant) => grant.permission)).toEqual([
+      'document-read',
+      'network-access',
+    ]);
+    expect(broker.check(tool, 'network-access', 'network.fetch').allowed).toBe(true);
+  });
+
+  it('should present only ungranted required permissions for consent', async () => {
+    const requests: ConsentRequest[] = [];
+    const broker = new PermissionBroker({
+      consent: (request) => {
+        requests.push(request);
+        return false;
+      },
+    });
+
+    const approved = await broker.requestInstallConsent(
+      manifest(['document-read', 'file-system-write'])
+    );
+
+    expect(approved).toBe(false);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].stage).toBe('install');
+    expect(requests[0].restricted).toEqual(['file-system-write']);
+  });
+
+  it('should reject gated capabilities that were not granted', () => {
+    const broker = new PermissionBroker();
+    const tool = manifest(['document-read'], ['cloud-storage-read']);
+    broker.grantRequired(tool);
+
+    expect(broker.check(tool, 'document-read').allowed).toBe(true);
+    expect(broker.check(tool, 'cloud-storage-read')).toEqual({
+      allowed: false,
+      reason: 'optional permission not granted',
+    });
+    expect(broker.check(tool, 'network-access').reason).toBe('not declared in manifest');
+    expect(() => broker.assert(tool, 'file-system-read')).toThrow(PermissionDeniedError);
+  });
+
+  it('should require gated APIs to be listed in restrictedApis', () => {
+    const broker = new PermissionBroker();
+    const tool = manifest(['network-access']);
+    broker.grantRequired(tool);
+
+    expect(broker.check(tool, 'network-access', 'network.fetch')).toEqual({
+      allowed: false,
+      reason: 'network.fetch is not listed in restrictedApis',
+    });
+  });
+
+  it('should request optional permissions lazily', async () => {
+    const requests: ConsentRequest[] = [];
+    const broker = new PermissionBroker({
+      consent: (request) => {
+        requests.push(request);
+        return true;
+      },
+    });
+    const tool = manifest([], ['cloud-storage-read'], ['storage.read']);
+
+    expect(await broker.authorize(tool, 'cloud-storage-read', 'storage.read')).toBe(true);
+    expect(await broker.authorize(tool, 'cloud-storage-read', 'storage.read')).toBe(true);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ stage: 'runtime', api: 'storage.read' });
+    expect(broker.getGrants('com.example.tool')[0].source).toBe('consent');
+  });
+
+  it('should deny optional permissions when no consent prompt is available', async () => {
+    const broker = new PermissionBroker();
+    const tool = manifest([], ['network-access'], ['network.fetch']);
+
+    expect(broker.isAvailable(tool, 'network-access', 'network.fetch')).toBe(true);
+    expect(await broker.authorize(tool, 'network-access', 'network.fetch')).toBe(false);
+  });
+
+  it('should ask for optional permissions even when they are not gated', async () => {
+    const requests: ConsentRequest[] = [];
+    const broker = new PermissionBroker({
+      consent: (request) => {
+        requests.push(request);
+        return false;
+      },
+    });
+    const tool = manifest(['document-read'], ['document-write']);
+    broker.grantRequired(tool);
+
+    expect(broker.check(tool, 'document-write')).toEqual({
+      allowed: false,
+      reason: 'optional permission not granted',
+    });
+    expect(await broker.authorize(tool, 'document-write')).toBe(false);
+    expect(requests.map((request) => request.permissions)).toEqual([['document-write']]);
+  });
+
+  it('should deny revoked permissions even when they are not gated', () => {
+    const broker = new PermissionBroker();
+    const tool = manifest(['document-read', 'document-write']);
+    broker.grantRequired(tool);
+
+    expect(broker.revoke('com.example.tool', 'document-write')).toEqual(['document-write']);
+
+    expect(broker.check(tool, 'document-read').allowed).toBe(true);
+    expect(broker.check(tool, 'document-write')).toEqual({
+      allowed: false,
+      reason: 'not granted',
+    });
+  });
+
+  it('should revoke grants and audit every decision', async () => {
+    const broker = new PermissionBroker();
+    const tool = manifest(['file-system-read']);
+    broker.grantRequired(tool);
+
+    expect(broker.revoke('com.example.tool')).toEqual(['file-system-read']);
+    expect(broker.check(tool, 'file-system-read').allowed).toBe(false);
+
+    expect(broker.getAuditLog().map((entry) => [entry.action, entry.allowed])).toEqual([
+      ['grant', true],
+      ['revoke', false],
+      ['check', false],
+    ]);
+    expect(broker.getAuditLog({ deniedOnly: true })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Data Directory
+ * Root of the on-disk extension state shared by the extension services
+ */
+
+import { homedir } from 'os';
+import { join } from 'path';
+
+/**
+ * Default data directory when none is configured
+ */
+export function getDefaultDataDir(): string {
+  return process.env.LOUSA_STUDIO_DATA_DIR ?? join(homedir(), '.lousa-digital-studio');
+}
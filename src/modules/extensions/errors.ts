@@ -0,0 +1,88 @@
+/**
+ * Extension Runtime Errors
+ * Typed errors surfaced through InstallResult
+ */
+
+import type { InstallErrorCode, Permission } from '@/shared/types';
+
+export class InstallError extends Error {
+  public readonly code: InstallErrorCode;
+  public readonly details: string[];
+
+  constructor(code: InstallErrorCode, message: string, details: string[] = []) {
+    super(message);
+    this.name = 'InstallError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class PermissionDeniedError extends Error {
+  public readonly extensionId: string;
+  public readonly permission: Permission;
+
+  constructor(extensionId: string, permission: Permission, reason: string) {
+    super(`Permission denied: ${extensionId} cannot use ${permission} (${reason})`);
+    this.name = 'PermissionDeniedError';
+    this.extensionId = extensionId;
+    this.permission = permission;
+  }
+}
+
+export type ResourceIntegrityFailure = 'size' | 'digest' | 'algorithm' | 'missing';
+
+/**
+ * Downloaded content that does not match what its manifest declares
+ */
+export class ResourceIntegrityError extends Error {
+  public readonly url: string;
+  public readonly failure: ResourceIntegrityFailure;
+
+  constructor(url: string, failure: ResourceIntegrityFailure, message: string) {
+    super(`Integrity check failed for ${url}: ${message}`);
+    this.name = 'ResourceIntegrityError';
+    this.url = url;
+    this.failure = failure;
+  }
+}
+
+/**
+ * A CDN response with a status the caller cannot use
+ */
+export class HttpStatusError extends Error {
+  public readonly url: string;
+  public readonly status: number;
+
+  constructor(url: string, status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = 'HttpStatusError';
+    this.url = url;
+    this.status = status;
+  }
+}
+
+/**
+ * Request refused because the host's circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  public readonly host: string;
+
+  constructor(host: string) {
+    super(`Circuit breaker open for: ${host}`);
+    this.name = 'CircuitOpenError';
+    this.host = host;
+  }
+}
+
+/**
+ * Resource requested in offline mode that is not in the cache
+ */
+export class OfflineResourceError extends Error {
+  public readonly url: string;
+
+  constructor(url: string) {
+    super(`Resource not available offline: ${url}`);
+    this.name = 'OfflineResourceError';
+    this.url = url;
+  }
+}
@@ -4,5 +4,76 @@
  */
 
 export { ExtensionRegistry, getExtensionRegistry } from './ExtensionRegistry';
+export type {
+  ExtensionRegistryEvents,
+  ExtensionRegistryOptions,
+  InstallOptions,
+  UpgradeOptions,
+  UninstallOptions,
+  LifecycleHookRunner,
+  PlaceholderRegistry,
+} from './ExtensionRegistry';
+export { DependencyResolver } from './DependencyResolver';
+export type {
+  DependencyResolution,
+  DependencyConflict,
+  DependencyRequirement,
+  MissingDependency,
+} from './DependencyResolver';
+export { InstallTransaction } from './InstallTransaction';
+export {
+  InstallError,
+  PermissionDeniedError,
+  ResourceIntegrityError,
+  HttpStatusError,
+  CircuitOpenError,
+  OfflineResourceError,
+} from './errors';
+export type { ResourceIntegrityFailure } from './errors';
+export { LifecycleSandbox, SandboxError, SANDBOX_API_PERMISSIONS } from './LifecycleSandbox';
+export type {
+  LifecycleSandboxOptions,
+  SandboxApiHandler,
+  SandboxApiMethod,
+  SandboxErrorCode,
+  SandboxResult,
+} from './LifecycleSandbox';
+export { PermissionBroker, GATED_PERMISSIONS } from './PermissionBroker';
+export type {
+  AuditLogFilter,
+  ConsentPrompt,
+  PermissionBrokerOptions,
+  PermissionDecision,
+} from './PermissionBroker';
+export { TrustStore } from './TrustStore';
+export type { TrustedKey } from './TrustStore';
+export { RegistryStore, REGISTRY_SCHEMA_VERSION } from './RegistryStore';
+export type { RegistryState } from './RegistryStore';
 export { CloudResourceManager, getCloudResourceManager } from './CloudResourceManager';
-export type { LoadResourceOptions } from './CloudResourceManager';
+export type {
+  CloudResourceEvents,
+  CloudResourceManagerOptions,
+  LoadResourceOptions,
+  ManifestSyncOptions,
+  ManifestSyncResult,
+  OfflineBundleOptions,
+  OfflineBundleResult,
+  OfflineProgress,
+  OfflineStatus,
+  PrefetchOptions,
+  PrefetchProgress,
+  PrefetchResult,
+} from './CloudResourceManager';
+export { PrefetchQueue } from './PrefetchQueue';
+export type { PrefetchPriority } from './PrefetchQueue';
+export { ResilientFetcher, DEFAULT_RESILIENCE_POLICY } from './ResilientFetcher';
+export type { CircuitState, ResilienceEvents, ResiliencePolicy } from './ResilientFetcher';
+export { ResourceCache } from './ResourceCache';
+export type {
+  CacheEntry,
+  CachePutOptions,
+  CachedResource,
+  ExtensionCacheUsage,
+  ResourceCacheOptions,
+  ResourceCacheStats,
+} from './ResourceCache';
@@ -0,0 +1,205 @@
+/**
+ * Resource Placeholders
+ * Valid stand-ins for cloud resources that could not be loaded, chosen by
+ * the resource type: a transparent image of the declared size, silent audio
+ * of the declared duration, a poster frame for video and a stylesheet that
+ * maps a font family to system fonts
+ */
+
+import { deflateSync } from 'zlib';
+import type {
+  AudioResource,
+  FontResource,
+  ImageResource,
+  ResourceDimensions,
+  ResourceReference,
+  VideoResource,
+} from '@/shared/types';
+
+/**
+ * Largest side of a generated image; bigger sizes are scaled down keeping the aspect ratio
+ */
+const MAX_IMAGE_SIDE = 8192;
+
+/**
+ * Longest generated silence, in seconds
+ */
+const MAX_AUDIO_DURATION = 600;
+
+const AUDIO_SAMPLE_RATE = 8000;
+
+const SYSTEM_FONTS = ['Arial', 'Helvetica', 'Liberation Sans', 'DejaVu Sans', 'Roboto'];
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  woff2: 'font/woff2',
+  woff: 'font/woff',
+  ttf: 'font/ttf',
+  css: 'text/css',
+};
+
+/**
+ * Generate a placeholder for a resource; without a reference it is a 1x1 transparent PNG
+ * Videos get a poster frame (a PNG) and fonts a `text/css` stylesheet
+ */
+export function createPlaceholder(ref?: ResourceReference): Blob {
+  const type = ref?.type ?? '';
+
+  if (type === 'image/svg+xml') {
+    const { width, height } = fitDimensions((ref as ImageResource).dimensions);
+    return new Blob(
+      [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+          `viewBox="0 0 ${width} ${height}"></svg>`,
+      ],
+      { type }
+    );
+  }
+  if (type.startsWith('image/') || type.startsWith('video/')) {
+    const { width, height } = fitDimensions((ref as ImageResource | VideoResource).dimensions);
+    return new Blob([createTransparentPng(width, height)], { type: 'image/png' });
+  }
+  if (type.startsWith('audio/')) {
+    return new Blob([createSilentWav((ref as AudioResource).duration ?? 1)], {
+      type: 'audio/wav',
+    });
+  }
+  if (type.startsWith('font/')) {
+    const font = ref as FontResource;
+    return new Blob([createSystemFontFace(font.fontFamily ?? font.id, font.fontWeight)], {
+      type: 'text/css',
+    });
+  }
+
+  return new Blob([createTransparentPng(1, 1)], { type: 'image/png' });
+}
+
+/**
+ * Pick the package placeholder for a MIME type: the exact type wins over
+ * its family (`video/*`), which wins over `*`
+ */
+export function findPackagePlaceholder(
+  placeholders: Record<string, string>,
+  type: string
+): string | undefined {
+  const family = `${type.split('/')[0]}/*`;
+  return placeholders[type] ?? placeholders[family] ?? placeholders['*'];
+}
+
+/**
+ * MIME type of a placeholder file, from its extension
+ */
+export function getPlaceholderType(path: string): string {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+function fitDimensions(dimensions?: ResourceDimensions): ResourceDimensions {
+  const width = Math.max(1, Math.round(dimensions?.width ?? 1));
+  const height = Math.max(1, Math.round(dimensions?.height ?? 1));
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Fully transparent PNG: one bit per pixel indexing a palette whose only
+ * color is transparent, which keeps large sizes small
+ */
+function createTransparentPng(width: number, height: number): Uint8Array<ArrayBuffer> {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 1; // bit depth
+  header[9] = 3; // indexed color
+
+  // Each row is a filter byte followed by the packed pixels, all zero
+  const pixels = Buffer.alloc((1 + Math.ceil(width / 8)) * height);
+
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('PLTE', Buffer.from([0, 0, 0])),
+    pngChunk('tRNS', Buffer.from([0])),
+    pngChunk('IDAT', deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+  return new Uint8Array(png);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 8-bit mono PCM WAV of silence
+ */
+function createSilentWav(duration: number): Buffer<ArrayBuffer> {
+  const seconds = Math.min(MAX_AUDIO_DURATION, Math.max(0, duration));
+  const samples = Math.round(seconds * AUDIO_SAMPLE_RATE);
+  const wav = Buffer.alloc(44 + samples, 0x80); // 0x80 is silence for unsigned 8-bit samples
+
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(36 + samples, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16); // fmt chunk size
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(AUDIO_SAMPLE_RATE, 24);
+  wav.writeUInt32LE(AUDIO_SAMPLE_RATE, 28); // byte rate
+  wav.writeUInt16LE(1, 32); // block align
+  wav.writeUInt16LE(8, 34); // bits per sample
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(samples, 40);
+  return wav;
+}
+
+/**
+ * Stylesheet declaring the font family with local system fonts as its source
+ */
+function createSystemFontFace(family: string, weight?: string): string {
+  const name = family.replace(/["\\\n]/g, '');
+  const sources = SYSTEM_FONTS.map((font) => `local("${font}")`).join(', ');
+  return (
+    `@font-face {\n  font-family: "${name}";\n  src: ${sources};\n` +
+    `  font-weight: ${weight && /^[\w ]+$/.test(weight) ? weight : 'normal'};\n}\n`
+  );
+}
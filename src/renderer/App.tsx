@@ -3,6 +3,7 @@
  */
 
 import { useState } from 'react';
+import { TemplateBuilderPage } from './template-builder/TemplateBuilderPage';
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<'home' | 'templates' | 'resources' | 'build'>('home');
@@ -113,15 +114,6 @@ function HomePage() {
   );
 }
 
-function TemplateBuilderPage() {
-  return (
-    <div className="p-8">
-      <h2 className="text-3xl font-bold mb-4">Template Builder</h2>
-      <p className="text-gray-400">Visual template builder coming soon...</p>
-    </div>
-  );
-}
-
 function ResourceManagerPage() {
   return (
     <div className="p-8">
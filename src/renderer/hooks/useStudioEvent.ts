@@ -0,0 +1,22 @@
+/**
+ * Studio Event Hook
+ * Subscribes a component to an event pushed by the main process for as long
+ * as it is mounted; the subscription is ended through its handle, so
+ * remounts never leave listeners behind
+ */
+
+import { useEffect, useRef } from 'react';
+import type { StudioEventChannel, StudioEventListener } from '@/shared/types';
+
+export function useStudioEvent<E extends StudioEventChannel>(
+  channel: E,
+  listener: StudioEventListener<E>
+): void {
+  // The latest listener is called, so passing an inline function does not resubscribe
+  const latest = useRef(listener);
+  useEffect(() => {
+    latest.current = listener;
+  });
+
+  useEffect(() => window.studioAPI.on(channel, (payload) => latest.current(payload)), [channel]);
+}
@@ -0,0 +1,125 @@
+/**
+ * Object View
+ * Draws the content of a template object inside its box, from its type and
+ * properties; media is shown as a still preview, not played
+ */
+
+import type { TemplateObject } from '@/shared/types';
+
+function text(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function number(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function points(value: unknown): Array<[number, number]> {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (point): point is [number, number] =>
+      Array.isArray(point) && typeof point[0] === 'number' && typeof point[1] === 'number'
+  );
+}
+
+interface ObjectViewProps {
+  object: TemplateObject;
+}
+
+export function ObjectView({ object }: ObjectViewProps) {
+  const { properties } = object;
+
+  switch (object.type) {
+    case 'text':
+      return (
+        <div
+          className="w-full h-full overflow-hidden whitespace-pre-wrap break-words"
+          style={{
+            fontSize: number(properties.fontSize, 32),
+            fontFamily: text(properties.fontFamily, 'inherit'),
+            color: text(properties.color, '#000000'),
+            textAlign: text(properties.align, 'left') as React.CSSProperties['textAlign'],
+            fontWeight: properties.bold ? 700 : undefined,
+            fontStyle: properties.italic ? 'italic' : undefined,
+            lineHeight: 1.2,
+          }}
+        >
+          {text(properties.text)}
+        </div>
+      );
+
+    case 'image':
+      return properties.src ? (
+        <img
+          src={text(properties.src)}
+          alt={text(properties.alt)}
+          draggable={false}
+          className="w-full h-full"
+          style={{ objectFit: text(properties.fit, 'contain') as React.CSSProperties['objectFit'] }}
+        />
+      ) : (
+        <MediaPlaceholder label="Image" />
+      );
+
+    case 'shape': {
+      const strokeWidth = number(properties.strokeWidth, 0);
+      const inset = strokeWidth / 2;
+      const width = Math.max(0, object.width - strokeWidth);
+      const height = Math.max(0, object.height - strokeWidth);
+      const paint = {
+        fill: text(properties.fill, 'transparent'),
+        stroke: text(properties.stroke, 'none'),
+        strokeWidth,
+      };
+      return (
+        <svg width="100%" height="100%" viewBox={`0 0 ${object.width} ${object.height}`}>
+          {properties.shape === 'ellipse' ? (
+            <ellipse
+              cx={object.width / 2}
+              cy={object.height / 2}
+              rx={width / 2}
+              ry={height / 2}
+              {...paint}
+            />
+          ) : (
+            <rect x={inset} y={inset} width={width} height={height} {...paint} />
+          )}
+        </svg>
+      );
+    }
+
+    case 'stroke':
+      return (
+        <svg width="100%" height="100%" viewBox={`0 0 ${object.width} ${object.height}`}>
+          <polyline
+            points={points(properties.points)
+              .map(([x, y]) => `${x * object.width},${y * object.height}`)
+              .join(' ')}
+            fill="none"
+            stroke={text(properties.color, '#000000')}
+            strokeWidth={number(properties.strokeWidth, 4)}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        </svg>
+      );
+
+    case 'video':
+      return <MediaPlaceholder label="Video" source={text(properties.src)} />;
+
+    case 'audio':
+      return <MediaPlaceholder label="Audio" source={text(properties.src)} />;
+
+    default:
+      return <MediaPlaceholder label={object.type} />;
+  }
+}
+
+function MediaPlaceholder({ label, source }: { label: string; source?: string }) {
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center bg-gray-200 text-gray-600 border border-dashed border-gray-400 overflow-hidden">
+      <span className="text-2xl font-semibold">{label}</span>
+      {source && <span className="text-sm truncate max-w-full px-2">{source}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Page List
+ * Pages of the template in order; pages are reordered by dragging them or
+ * with the arrow buttons, and are renumbered after every move
+ */
+
+import { useState } from 'react';
+import { DEFAULT_BACKGROUND_COLOR } from './templateOperations';
+import { useTemplateBuilder } from './templateStore';
+
+export function PageList() {
+  const pages = useTemplateBuilder((state) => state.template.pages);
+  const selectedPageId = useTemplateBuilder((state) => state.selectedPageId);
+  const selectPage = useTemplateBuilder((state) => state.selectPage);
+  const addPage = useTemplateBuilder((state) => state.addPage);
+  const removePage = useTemplateBuilder((state) => state.removePage);
+  const movePage = useTemplateBuilder((state) => state.movePage);
+  const [draggedPageId, setDraggedPageId] = useState<string | null>(null);
+
+  return (
+    <aside className="w-56 bg-gray-800 border-r border-gray-700 flex flex-col">
+      <div className="p-3 border-b border-gray-700 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">Pages</h3>
+        <button
+          onClick={addPage}
+          className="px-2 py-1 text-xs rounded bg-primary-600 hover:bg-primary-500 text-white"
+        >
+          Add page
+        </button>
+      </div>
+
+      <ol className="flex-1 overflow-auto p-2 space-y-2">
+        {pages.map((page, index) => (
+          <li
+            key={page.id}
+            draggable
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move';
+              setDraggedPageId(page.id);
+            }}
+            onDragOver={(event) => {
+              if (draggedPageId) event.preventDefault();
+            }}
+            onDrop={(event) => {
+              event.preventDefault();
+              if (draggedPageId) movePage(draggedPageId, index);
+              setDraggedPageId(null);
+            }}
+            onDragEnd={() => setDraggedPageId(null)}
+            onClick={() => selectPage(page.id)}
+            className={`
+              rounded-lg p-2 cursor-pointer border transition-colors
+              ${page.id === selectedPageId
+                ? 'border-primary-500 bg-gray-700'
+                : 'border-gray-700 hover:bg-gray-700'
+              }
+              ${page.id === draggedPageId ? 'opacity-50' : ''}
+            `}
+          >
+            <div
+              className="aspect-video rounded border border-gray-600 mb-2"
+              style={{ backgroundColor: page.backgroundColor ?? DEFAULT_BACKGROUND_COLOR }}
+            />
+            <div className="flex items-center gap-1 text-xs">
+              <span className="text-gray-400">{page.pageNumber}.</span>
+              <span className="flex-1 truncate text-gray-200">{page.title || 'Untitled'}</span>
+              <PageButton
+                label="Move up"
+                disabled={index === 0}
+                onClick={() => movePage(page.id, index - 1)}
+              >
+                ↑
+              </PageButton>
+              <PageButton
+                label="Move down"
+                disabled={index === pages.length - 1}
+                onClick={() => movePage(page.id, index + 1)}
+              >
+                ↓
+              </PageButton>
+              <PageButton
+                label="Delete page"
+                disabled={pages.length === 1}
+                onClick={() => removePage(page.id)}
+              >
+                ✕
+              </PageButton>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+}
+
+interface PageButtonProps {
+  label: string;
+  disabled: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+function PageButton({ label, disabled, onClick, children }: PageButtonProps) {
+  return (
+    <button
+      title={label}
+      aria-label={label}
+      disabled={disabled}
+      onClick={(event) => {
+        event.stopPropagation();
+        onClick();
+      }}
+      className="w-5 h-5 rounded text-gray-400 hover:bg-gray-600 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+    >
+      {children}
+    </button>
+  );
+}
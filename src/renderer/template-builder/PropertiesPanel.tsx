@@ -0,0 +1,381 @@
+/**
+ * Properties Panel
+ * Edits the selected object: its geometry, and one field per entry of its
+ * `properties`, chosen by the value's type. Without a selection it edits
+ * the selected page and the template's metadata.
+ */
+
+import { useEffect, useState } from 'react';
+import type { TemplateObject, TemplatePage } from '@/shared/types';
+import { DEFAULT_BACKGROUND_COLOR, findObject, findPage } from './templateOperations';
+import type { ObjectChanges } from './templateOperations';
+import { useTemplateBuilder } from './templateStore';
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const inputClass =
+  'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100 ' +
+  'focus:outline-none focus:border-primary-500 disabled:opacity-50';
+
+/**
+ * `fontSize` becomes `Font size`
+ */
+function toLabel(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function PropertiesPanel() {
+  const page = useTemplateBuilder((state) => findPage(state.template, state.selectedPageId));
+  const object = useTemplateBuilder((state) =>
+    state.selectedObjectId
+      ? findObject(state.template, state.selectedPageId, state.selectedObjectId)
+      : undefined
+  );
+
+  return (
+    <aside className="w-72 bg-gray-800 border-l border-gray-700 overflow-auto">
+      {page && object ? (
+        <ObjectProperties page={page} object={object} />
+      ) : (
+        <>
+          {page && <PageProperties page={page} />}
+          <TemplateProperties />
+        </>
+      )}
+    </aside>
+  );
+}
+
+function ObjectProperties({ page, object }: { page: TemplatePage; object: TemplateObject }) {
+  const updateObject = useTemplateBuilder((state) => state.updateObject);
+  const updateObjectProperties = useTemplateBuilder((state) => state.updateObjectProperties);
+  const removeObject = useTemplateBuilder((state) => state.removeObject);
+
+  const update = (changes: ObjectChanges) => updateObject(page.id, object.id, changes);
+  const locked = object.locked ?? false;
+
+  return (
+    <>
+      <Section title={`${toLabel(object.type)} object`}>
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label="X"
+            value={object.x}
+            disabled={locked}
+            onChange={(x) => update({ x })}
+          />
+          <NumberField
+            label="Y"
+            value={object.y}
+            disabled={locked}
+            onChange={(y) => update({ y })}
+          />
+          <NumberField
+            label="Width"
+            value={object.width}
+            min={1}
+            disabled={locked}
+            onChange={(width) => update({ width })}
+          />
+          <NumberField
+            label="Height"
+            value={object.height}
+            min={1}
+            disabled={locked}
+            onChange={(height) => update({ height })}
+          />
+          <NumberField
+            label="Rotation"
+            value={object.rotation ?? 0}
+            disabled={locked}
+            onChange={(rotation) => update({ rotation: ((rotation % 360) + 360) % 360 })}
+          />
+          <Field label="Opacity">
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={object.opacity ?? 1}
+              onChange={(event) => update({ opacity: Number(event.target.value) })}
+              className="w-full"
+            />
+          </Field>
+        </div>
+        <label className="flex items-center gap-2 mt-3 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={locked}
+            onChange={(event) => update({ locked: event.target.checked })}
+          />
+          Locked
+        </label>
+      </Section>
+
+      <Section title="Properties">
+        {Object.keys(object.properties).length === 0 && (
+          <p className="text-xs text-gray-500">This object has no properties.</p>
+        )}
+        {Object.entries(object.properties).map(([name, value]) => (
+          <PropertyField
+            key={`${object.id}:${name}`}
+            name={name}
+            value={value}
+            onChange={(next) => updateObjectProperties(page.id, object.id, { [name]: next })}
+          />
+        ))}
+      </Section>
+
+      <div className="p-4">
+        <button
+          onClick={() => removeObject(page.id, object.id)}
+          className="w-full px-3 py-2 text-sm rounded bg-red-700 hover:bg-red-600 text-white"
+        >
+          Delete object
+        </button>
+      </div>
+    </>
+  );
+}
+
+function PageProperties({ page }: { page: TemplatePage }) {
+  const updatePage = useTemplateBuilder((state) => state.updatePage);
+
+  return (
+    <Section title={`Page ${page.pageNumber}`}>
+      <Field label="Title">
+        <input
+          className={inputClass}
+          value={page.title ?? ''}
+          onChange={(event) => updatePage(page.id, { title: event.target.value })}
+        />
+      </Field>
+      <ColorField
+        label="Background color"
+        value={page.backgroundColor ?? DEFAULT_BACKGROUND_COLOR}
+        onChange={(backgroundColor) => updatePage(page.id, { backgroundColor })}
+      />
+    </Section>
+  );
+}
+
+function TemplateProperties() {
+  const metadata = useTemplateBuilder((state) => state.template.metadata);
+  const updateMetadata = useTemplateBuilder((state) => state.updateMetadata);
+
+  return (
+    <Section title="Template">
+      <Field label="Name">
+        <input
+          className={inputClass}
+          value={metadata.name}
+          onChange={(event) => updateMetadata({ name: event.target.value })}
+        />
+      </Field>
+      <Field label="Description">
+        <textarea
+          className={inputClass}
+          rows={3}
+          value={metadata.description}
+          onChange={(event) => updateMetadata({ description: event.target.value })}
+        />
+      </Field>
+      <Field label="Category">
+        <input
+          className={inputClass}
+          value={metadata.category ?? ''}
+          onChange={(event) => updateMetadata({ category: event.target.value || undefined })}
+        />
+      </Field>
+      <JsonField
+        label="Tags"
+        value={metadata.tags ?? []}
+        onChange={(tags) => {
+          if (Array.isArray(tags) && tags.every((tag) => typeof tag === 'string')) {
+            updateMetadata({ tags });
+            return true;
+          }
+          return false;
+        }}
+      />
+    </Section>
+  );
+}
+
+interface PropertyFieldProps {
+  name: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+/**
+ * Field for one object property, picked by the type of its current value
+ */
+function PropertyField({ name, value, onChange }: PropertyFieldProps) {
+  const label = toLabel(name);
+
+  if (typeof value === 'boolean') {
+    return (
+      <label className="flex items-center gap-2 mb-3 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={value}
+          onChange={(event) => onChange(event.target.checked)}
+        />
+        {label}
+      </label>
+    );
+  }
+  if (typeof value === 'number') {
+    return <NumberField label={label} value={value} onChange={onChange} />;
+  }
+  if (typeof value === 'string' && HEX_COLOR.test(value)) {
+    return <ColorField label={label} value={value} onChange={onChange} />;
+  }
+  if (typeof value === 'string') {
+    return (
+      <Field label={label}>
+        {name === 'text' ? (
+          <textarea
+            className={inputClass}
+            rows={3}
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+          />
+        ) : (
+          <input
+            className={inputClass}
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+          />
+        )}
+      </Field>
+    );
+  }
+
+  return (
+    <JsonField
+      label={label}
+      value={value}
+      onChange={(parsed) => {
+        onChange(parsed);
+        return true;
+      }}
+    />
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min?: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ label, value, min, disabled, onChange }: NumberFieldProps) {
+  return (
+    <Field label={label}>
+      <input
+        type="number"
+        className={inputClass}
+        value={value}
+        min={min}
+        disabled={disabled}
+        onChange={(event) => {
+          const next = event.target.valueAsNumber;
+          if (Number.isFinite(next) && (min === undefined || next >= min)) onChange(next);
+        }}
+      />
+    </Field>
+  );
+}
+
+interface ColorFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function ColorField({ label, value, onChange }: ColorFieldProps) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <Field label={label}>
+      <div className="flex gap-2">
+        <input
+          type="color"
+          value={HEX_COLOR.test(value) ? value : '#000000'}
+          onChange={(event) => onChange(event.target.value.toUpperCase())}
+          className="w-10 h-8 bg-transparent"
+        />
+        <input
+          className={inputClass}
+          value={draft}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            if (HEX_COLOR.test(event.target.value)) onChange(event.target.value.toUpperCase());
+          }}
+        />
+      </div>
+    </Field>
+  );
+}
+
+interface JsonFieldProps {
+  label: string;
+  value: unknown;
+  /** Returns false when the parsed value is refused */
+  onChange: (value: unknown) => boolean;
+}
+
+/**
+ * JSON editor for lists and nested values, committed when it loses focus
+ */
+function JsonField({ label, value, onChange }: JsonFieldProps) {
+  const serialized = JSON.stringify(value);
+  const [draft, setDraft] = useState(serialized);
+  const [invalid, setInvalid] = useState(false);
+  useEffect(() => {
+    setDraft(serialized);
+    setInvalid(false);
+  }, [serialized]);
+
+  return (
+    <Field label={label}>
+      <textarea
+        className={`${inputClass} font-mono ${invalid ? 'border-red-500' : ''}`}
+        rows={2}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={() => {
+          try {
+            setInvalid(!onChange(JSON.parse(draft)));
+          } catch {
+            setInvalid(true);
+          }
+        }}
+      />
+    </Field>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block mb-3">
+      <span className="block text-xs text-gray-400 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="p-4 border-b border-gray-700">
+      <h3 className="text-sm font-semibold text-gray-300 mb-3">{title}</h3>
+      {children}
+    </section>
+  );
+}
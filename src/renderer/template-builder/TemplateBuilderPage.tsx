@@ -0,0 +1,229 @@
+/**
+ * Template Builder Page
+ * Visual editor for lesson templates: page list, canvas and properties
+ * panel. Templates are opened from packages and saved as the JSON files a
+ * package keeps under `templates/`; once saved, a template is autosaved to
+ * the same file.
+ */
+
+import { useEffect, useState } from 'react';
+import type { FileFilter, IpcError, LessonTemplate } from '@/shared/types';
+import { getTemplateFilename, serializeTemplate } from '@/shared/utils/templates';
+import { PageList } from './PageList';
+import { PropertiesPanel } from './PropertiesPanel';
+import { TemplateCanvas } from './TemplateCanvas';
+import { startAutosave } from './templateAutosave';
+import { TEMPLATE_OBJECT_TYPES } from './templateOperations';
+import { templateBuilderStore, useTemplateBuilder } from './templateStore';
+
+const PACKAGE_FILTERS: FileFilter[] = [{ name: 'Lousa Digital Package', extensions: ['ldip'] }];
+
+const TEMPLATE_FILTERS: FileFilter[] = [{ name: 'Lesson Template', extensions: ['json'] }];
+
+type Status = { kind: 'info' | 'error'; message: string } | null;
+
+function isEditingText(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+function describeError(error: IpcError): string {
+  return error.details?.length ? `${error.message}: ${error.details.join('; ')}` : error.message;
+}
+
+export function TemplateBuilderPage() {
+  const name = useTemplateBuilder((state) => state.template.metadata.name);
+  const dirty = useTemplateBuilder((state) => state.dirty);
+  const filePath = useTemplateBuilder((state) => state.filePath);
+  const newTemplate = useTemplateBuilder((state) => state.newTemplate);
+  const loadTemplate = useTemplateBuilder((state) => state.loadTemplate);
+  const markSaved = useTemplateBuilder((state) => state.markSaved);
+  const addObject = useTemplateBuilder((state) => state.addObject);
+  const undoLabel = useTemplateBuilder((state) => state.history.past.at(-1)?.label);
+  const redoLabel = useTemplateBuilder((state) => state.history.future.at(-1)?.label);
+  const undo = useTemplateBuilder((state) => state.undo);
+  const redo = useTemplateBuilder((state) => state.redo);
+
+  const [status, setStatus] = useState<Status>(null);
+  const [choices, setChoices] = useState<LessonTemplate[]>([]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo, Delete removes the
+  // selected object, Escape clears the selection
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditingText(event.target)) return;
+
+      const { selectedPageId, selectedObjectId, removeObject, selectObject, undo, redo } =
+        templateBuilderStore.getState();
+      const key = event.key.toLowerCase();
+      if ((event.ctrlKey || event.metaKey) && (key === 'z' || key === 'y')) {
+        event.preventDefault();
+        if (key === 'y' || event.shiftKey) redo();
+        else undo();
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedObjectId) {
+        event.preventDefault();
+        removeObject(selectedPageId, selectedObjectId);
+      } else if (event.key === 'Escape') {
+        selectObject(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(
+    () =>
+      startAutosave(templateBuilderStore, async (path, content) => {
+        const written = await window.studioAPI.writeFile({ path, content });
+        if (!written.ok) {
+          setStatus({ kind: 'error', message: `Autosave failed: ${describeError(written.error)}` });
+        }
+        return written.ok;
+      }),
+    []
+  );
+
+  const confirmDiscard = () =>
+    !templateBuilderStore.getState().dirty || window.confirm('Discard unsaved changes?');
+
+  const handleNew = () => {
+    if (!confirmDiscard()) return;
+    newTemplate();
+    setStatus(null);
+  };
+
+  const handleOpen = async () => {
+    if (!confirmDiscard()) return;
+
+    const selection = await window.studioAPI.selectFile({
+      title: 'Open Template Pack',
+      filters: PACKAGE_FILTERS,
+    });
+    if (!selection.ok) return setStatus({ kind: 'error', message: describeError(selection.error) });
+    if (!selection.data) return;
+
+    const loaded = await window.studioAPI.loadExtension(selection.data);
+    if (!loaded.ok) return setStatus({ kind: 'error', message: describeError(loaded.error) });
+
+    const templates = loaded.data.data.templates ?? [];
+    if (templates.length === 0) {
+      setStatus({ kind: 'error', message: 'This package has no templates' });
+    } else if (templates.length === 1) {
+      openTemplate(templates[0]);
+    } else {
+      setChoices(templates);
+    }
+  };
+
+  const openTemplate = (template: LessonTemplate) => {
+    loadTemplate(template);
+    setChoices([]);
+    setStatus({ kind: 'info', message: `Opened ${template.metadata.name}` });
+  };
+
+  const handleSave = async () => {
+    const { template } = templateBuilderStore.getState();
+    const saved = await window.studioAPI.saveFile({
+      title: 'Save Template',
+      defaultPath: filePath ?? getTemplateFilename(template),
+      filters: TEMPLATE_FILTERS,
+      content: serializeTemplate(template),
+    });
+    if (!saved.ok) return setStatus({ kind: 'error', message: describeError(saved.error) });
+    if (!saved.data) return;
+
+    markSaved(saved.data);
+    setStatus({ kind: 'info', message: `Saved to ${saved.data}` });
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <header className="flex items-center gap-2 px-4 py-2 bg-gray-800 border-b border-gray-700">
+        <h2 className="text-lg font-semibold mr-2 truncate">
+          {name || 'Untitled Template'}
+          {dirty && <span className="text-gray-400"> •</span>}
+        </h2>
+        <ToolbarButton onClick={handleNew}>New</ToolbarButton>
+        <ToolbarButton onClick={handleOpen}>Open…</ToolbarButton>
+        <ToolbarButton onClick={handleSave}>Save…</ToolbarButton>
+
+        <div className="w-px h-6 bg-gray-700 mx-2" />
+        <ToolbarButton
+          onClick={undo}
+          disabled={!undoLabel}
+          title={undoLabel ? `Undo ${undoLabel}` : 'Nothing to undo'}
+        >
+          Undo
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={redo}
+          disabled={!redoLabel}
+          title={redoLabel ? `Redo ${redoLabel}` : 'Nothing to redo'}
+        >
+          Redo
+        </ToolbarButton>
+
+        <div className="w-px h-6 bg-gray-700 mx-2" />
+        {TEMPLATE_OBJECT_TYPES.map((type) => (
+          <ToolbarButton key={type} onClick={() => addObject(type)}>
+            + {type.charAt(0).toUpperCase() + type.slice(1)}
+          </ToolbarButton>
+        ))}
+
+        {status && (
+          <span
+            className={`ml-auto text-sm truncate ${
+              status.kind === 'error' ? 'text-red-400' : 'text-gray-400'
+            }`}
+          >
+            {status.message}
+          </span>
+        )}
+      </header>
+
+      {choices.length > 0 && (
+        <div className="px-4 py-3 bg-gray-800 border-b border-gray-700 flex flex-wrap gap-2 items-center">
+          <span className="text-sm text-gray-400">Choose a template:</span>
+          {choices.map((template) => (
+            <ToolbarButton key={template.id} onClick={() => openTemplate(template)}>
+              {template.metadata.name}
+            </ToolbarButton>
+          ))}
+          <ToolbarButton onClick={() => setChoices([])}>Cancel</ToolbarButton>
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        <PageList />
+        <TemplateCanvas />
+        <PropertiesPanel />
+      </div>
+    </div>
+  );
+}
+
+interface ToolbarButtonProps {
+  onClick: () => void;
+  disabled?: boolean;
+  title?: string;
+  children: React.ReactNode;
+}
+
+function ToolbarButton({ onClick, disabled, title, children }: ToolbarButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      className={
+        'px-3 py-1 text-sm rounded bg-gray-700 hover:bg-gray-600 text-gray-100 ' +
+        'disabled:opacity-50'
+      }
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * Template Canvas
+ * Shows the selected page scaled to fit the editor and lets the author
+ * select, drag, resize and rotate its objects. Pointer positions are
+ * converted to page units, so the stored geometry does not depend on zoom.
+ * Each drag is one gesture, so it is undone in a single step.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { TemplateObject } from '@/shared/types';
+import { ObjectView } from './ObjectView';
+import {
+  RESIZE_HANDLES,
+  ROTATION_SNAP,
+  moveBox,
+  resizeBox,
+  rotationTowards,
+} from './geometry';
+import type { Box, ResizeHandle } from './geometry';
+import { DEFAULT_BACKGROUND_COLOR, PAGE_SIZE, findPage } from './templateOperations';
+import { useTemplateBuilder } from './templateStore';
+
+/**
+ * Space kept around the page, in screen pixels
+ */
+const CANVAS_PADDING = 32;
+
+/**
+ * Size of the handles in screen pixels, whatever the zoom
+ */
+const HANDLE_SIZE = 12;
+
+const HANDLE_POSITIONS: Record<ResizeHandle, { left: string; top: string; cursor: string }> = {
+  n: { left: '50%', top: '0%', cursor: 'ns-resize' },
+  ne: { left: '100%', top: '0%', cursor: 'nesw-resize' },
+  e: { left: '100%', top: '50%', cursor: 'ew-resize' },
+  se: { left: '100%', top: '100%', cursor: 'nwse-resize' },
+  s: { left: '50%', top: '100%', cursor: 'ns-resize' },
+  sw: { left: '0%', top: '100%', cursor: 'nesw-resize' },
+  w: { left: '0%', top: '50%', cursor: 'ew-resize' },
+  nw: { left: '0%', top: '0%', cursor: 'nwse-resize' },
+};
+
+type Interaction =
+  | { kind: 'move'; objectId: string; start: Box; startX: number; startY: number }
+  | {
+      kind: 'resize';
+      objectId: string;
+      handle: ResizeHandle;
+      start: Box;
+      startX: number;
+      startY: number;
+    }
+  | { kind: 'rotate'; objectId: string; start: Box };
+
+function toBox(object: TemplateObject): Box {
+  return {
+    x: object.x,
+    y: object.y,
+    width: object.width,
+    height: object.height,
+    rotation: object.rotation ?? 0,
+  };
+}
+
+export function TemplateCanvas() {
+  const page = useTemplateBuilder((state) => findPage(state.template, state.selectedPageId));
+  const selectedObjectId = useTemplateBuilder((state) => state.selectedObjectId);
+  const selectObject = useTemplateBuilder((state) => state.selectObject);
+  const updateObject = useTemplateBuilder((state) => state.updateObject);
+  const beginGesture = useTemplateBuilder((state) => state.beginGesture);
+  const endGesture = useTemplateBuilder((state) => state.endGesture);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const interaction = useRef<Interaction | null>(null);
+  const [scale, setScale] = useState(0.5);
+
+  // Fit the page into the available space
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setScale(
+        Math.max(
+          0.05,
+          Math.min(
+            (width - CANVAS_PADDING * 2) / PAGE_SIZE.width,
+            (height - CANVAS_PADDING * 2) / PAGE_SIZE.height
+          )
+        )
+      );
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  if (!page) return null;
+
+  const toPagePoint = (event: React.PointerEvent) => {
+    const rect = pageRef.current?.getBoundingClientRect();
+    return {
+      x: (event.clientX - (rect?.left ?? 0)) / scale,
+      y: (event.clientY - (rect?.top ?? 0)) / scale,
+    };
+  };
+
+  const begin = (event: React.PointerEvent, object: TemplateObject, next: Interaction | null) => {
+    event.stopPropagation();
+    selectObject(object.id);
+    if (object.locked || !next || event.button !== 0) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    interaction.current = next;
+    beginGesture();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const current = interaction.current;
+    if (!current) return;
+
+    if (current.kind === 'rotate') {
+      const point = toPagePoint(event);
+      const snap = event.shiftKey ? ROTATION_SNAP : 0;
+      updateObject(page.id, current.objectId, {
+        rotation: rotationTowards(current.start, point.x, point.y, snap),
+      });
+      return;
+    }
+
+    const dx = (event.clientX - current.startX) / scale;
+    const dy = (event.clientY - current.startY) / scale;
+    if (current.kind === 'move') {
+      const { x, y } = moveBox(current.start, dx, dy);
+      updateObject(page.id, current.objectId, { x, y });
+    } else {
+      const { x, y, width, height } = resizeBox(current.start, current.handle, dx, dy);
+      updateObject(page.id, current.objectId, { x, y, width, height });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!interaction.current) return;
+    interaction.current = null;
+    endGesture();
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  const handleSize = HANDLE_SIZE / scale;
+
+  return (
+    <div
+      ref={containerRef}
+      className="flex-1 flex items-center justify-center overflow-hidden bg-gray-950"
+      onPointerDown={() => selectObject(null)}
+    >
+      <div style={{ width: PAGE_SIZE.width * scale, height: PAGE_SIZE.height * scale }}>
+        <div
+          ref={pageRef}
+          className="relative shadow-2xl select-none"
+          style={{
+            width: PAGE_SIZE.width,
+            height: PAGE_SIZE.height,
+            transform: `scale(${scale})`,
+            transformOrigin: 'top left',
+            backgroundColor: page.backgroundColor ?? DEFAULT_BACKGROUND_COLOR,
+          }}
+          onPointerDown={(event) => {
+            event.stopPropagation();
+            selectObject(null);
+          }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {page.objects.map((object) => {
+            const selected = object.id === selectedObjectId;
+            const start = toBox(object);
+
+            return (
+              <div
+                key={object.id}
+                className="absolute"
+                style={{
+                  left: object.x,
+                  top: object.y,
+                  width: object.width,
+                  height: object.height,
+                  transform: `rotate(${object.rotation ?? 0}deg)`,
+                  opacity: object.opacity ?? 1,
+                  cursor: object.locked ? 'default' : 'move',
+                  outline: selected ? `${2 / scale}px solid #3B82F6` : undefined,
+                }}
+                onPointerDown={(event) =>
+                  begin(event, object, {
+                    kind: 'move',
+                    objectId: object.id,
+                    start,
+                    startX: event.clientX,
+                    startY: event.clientY,
+                  })
+                }
+              >
+                <ObjectView object={object} />
+
+                {selected && !object.locked && (
+                  <>
+                    {RESIZE_HANDLES.map((handle) => (
+                      <div
+                        key={handle}
+                        className="absolute bg-white border border-primary-600"
+                        style={{
+                          width: handleSize,
+                          height: handleSize,
+                          left: HANDLE_POSITIONS[handle].left,
+                          top: HANDLE_POSITIONS[handle].top,
+                          transform: 'translate(-50%, -50%)',
+                          cursor: HANDLE_POSITIONS[handle].cursor,
+                        }}
+                        onPointerDown={(event) =>
+                          begin(event, object, {
+                            kind: 'resize',
+                            objectId: object.id,
+                            handle,
+                            start,
+                            startX: event.clientX,
+                            startY: event.clientY,
+                          })
+                        }
+                      />
+                    ))}
+                    <div
+                      className="absolute rounded-full bg-primary-500 border border-white"
+                      style={{
+                        width: handleSize,
+                        height: handleSize,
+                        left: '50%',
+                        top: -handleSize * 3,
+                        transform: 'translateX(-50%)',
+                        cursor: 'grab',
+                      }}
+                      title="Rotate (hold Shift to snap)"
+                      onPointerDown={(event) =>
+                        begin(event, object, { kind: 'rotate', objectId: object.id, start })
+                      }
+                    />
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Tests for drag, resize and rotate math of the template canvas
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MIN_OBJECT_SIZE, moveBox, resizeBox, rotationTowards } from '../geometry';
+import type { Box } from '../geometry';
+
+const box: Box = { x: 100, y: 100, width: 200, height: 100, rotation: 0 };
+
+/**
+ * Page position of a point given relative to the box's center, in its own frame
+ */
+function toPage(target: Box, localX: number, localY: number) {
+  const angle = (target.rotation * Math.PI) / 180;
+  return {
+    x: target.x + target.width / 2 + localX * Math.cos(angle) - localY * Math.sin(angle),
+    y: target.y + target.height / 2 + localX * Math.sin(angle) + localY * Math.cos(angle),
+  };
+}
+
+describe('canvas geometry', () => {
+  it('should move a box', () => {
+    expect(moveBox(box, 10.4, -20.6)).toEqual({ ...box, x: 110, y: 79 });
+  });
+
+  it('should resize from a handle keeping the opposite corner in place', () => {
+    expect(resizeBox(box, 'se', 50, 20)).toEqual({ ...box, width: 250, height: 120 });
+    expect(resizeBox(box, 'nw', 50, 20)).toEqual({
+      x: 150,
+      y: 120,
+      width: 150,
+      height: 80,
+      rotation: 0,
+    });
+    expect(resizeBox(box, 'e', 50, 20)).toEqual({ ...box, width: 250 });
+  });
+
+  it('should not shrink a box below the minimum size', () => {
+    const resized = resizeBox(box, 'w', 500, 0);
+
+    expect(resized.width).toBe(MIN_OBJECT_SIZE);
+    expect(resized.x + resized.width).toBe(box.x + box.width);
+  });
+
+  it('should resize rotated boxes in their own frame', () => {
+    const rotated = { ...box, rotation: 90 };
+    const anchor = toPage(rotated, -rotated.width / 2, 0);
+
+    // With a quarter turn the east handle points down the page
+    const resized = resizeBox(rotated, 'e', 0, 40);
+
+    expect(resized.width).toBe(240);
+    expect(resized.height).toBe(100);
+    const moved = toPage(resized, -resized.width / 2, 0);
+    expect(moved.x).toBeCloseTo(anchor.x, 0);
+    expect(moved.y).toBeCloseTo(anchor.y, 0);
+  });
+
+  it('should point the top of a box at the pointer', () => {
+    // Center is at (200, 150)
+    expect(rotationTowards(box, 200, 0)).toBe(0);
+    expect(rotationTowards(box, 400, 150)).toBe(90);
+    expect(rotationTowards(box, 0, 150)).toBe(270);
+    expect(rotationTowards(box, 300, 40, 15)).toBe(45);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for autosaving the template builder store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { LessonTemplate } from '@/shared/types';
+import { startAutosave } from '../templateAutosave';
+import { createTemplateBuilderStore } from '../templateStore';
+
+describe('template autosave', () => {
+  let store: ReturnType<typeof createTemplateBuilderStore>;
+  let written: Array<{ path: string; template: LessonTemplate }>;
+  let stop: () => void;
+
+  const write = vi.fn(async (path: string, content: string) => {
+    written.push({ path, template: JSON.parse(content) });
+    return true;
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createTemplateBuilderStore();
+    written = [];
+    write.mockClear();
+    stop = startAutosave(store, write, { intervalMs: 1000 });
+  });
+
+  afterEach(() => {
+    stop();
+    vi.useRealTimers();
+  });
+
+  it('should only write templates that were saved to a file before', async () => {
+    store.getState().updateMetadata({ name: 'Draft' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(write).not.toHaveBeenCalled();
+
+    store.getState().markSaved('/work/lesson.json');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(write).not.toHaveBeenCalled();
+
+    store.getState().updateMetadata({ name: 'Lesson' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(written.map(({ path, template }) => [path, template.metadata.name])).toEqual([
+      ['/work/lesson.json', 'Lesson'],
+    ]);
+    expect(store.getState().dirty).toBe(false);
+  });
+
+  it('should keep the undo history across an autosave', async () => {
+    store.getState().markSaved('/work/lesson.json');
+    store.getState().updateMetadata({ name: 'First' });
+    store.getState().updateMetadata({ name: 'Second' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(store.getState().dirty).toBe(false);
+
+    store.getState().undo();
+    expect(store.getState().template.metadata.name).toBe('First');
+    expect(store.getState().dirty).toBe(true);
+
+    store.getState().redo();
+    expect(store.getState().template.metadata.name).toBe('Second');
+    expect(store.getState().dirty).toBe(false);
+  });
+
+  it('should keep edits made during a write dirty for the next tick', async () => {
+    let finish: (written: boolean) => void = () => {};
+    write.mockImplementationOnce(
+      (path, content) =>
+        new Promise((resolve) => {
+          written.push({ path, template: JSON.parse(content) });
+          finish = resolve;
+        })
+    );
+    store.getState().markSaved('/work/lesson.json');
+    store.getState().updateMetadata({ name: 'First' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    store.getState().updateMetadata({ name: 'Second' });
+    finish(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.getState().dirty).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(written.map(({ template }) => template.metadata.name)).toEqual(['First', 'Second']);
+    expect(store.getState().dirty).toBe(false);
+  });
+
+  it('should stay dirty when a write fails', async () => {
+    write.mockResolvedValueOnce(false);
+    store.getState().markSaved('/work/lesson.json');
+    store.getState().updateMetadata({ name: 'Lesson' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(store.getState().dirty).toBe(true);
+  });
+});
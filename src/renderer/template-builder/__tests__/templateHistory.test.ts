@@ -0,0 +1,206 @@
+/**
+ * Tests for undo and redo in the template builder store
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTemplateBuilderStore } from '../templateStore';
+
+describe('template builder history', () => {
+  let store: ReturnType<typeof createTemplateBuilderStore>;
+
+  const state = () => store.getState();
+  const selectedObject = () =>
+    state().template.pages[0].objects.find((object) => object.id === state().selectedObjectId);
+
+  beforeEach(() => {
+    store = createTemplateBuilderStore();
+  });
+
+  it('should undo and redo object edits', () => {
+    const pageId = state().selectedPageId;
+    state().addObject('shape');
+    const objectId = state().selectedObjectId as string;
+    const added = state().template;
+
+    state().updateObject(pageId, objectId, { x: 10, y: 20 });
+    state().updateObject(pageId, objectId, { rotation: 90 });
+    state().updateObjectProperties(pageId, objectId, { fill: '#FF0000', shadow: true });
+
+    expect(state().history.past.map((entry) => entry.label)).toEqual([
+      'Add object',
+      'Move object',
+      'Rotate object',
+      'Restyle object',
+    ]);
+
+    state().undo();
+    expect(selectedObject()?.properties).not.toHaveProperty('shadow');
+    expect(selectedObject()?.properties.fill).toBe('#3B82F6');
+    state().undo();
+    state().undo();
+    expect(state().template).toEqual(added);
+
+    state().undo();
+    expect(state().template.pages[0].objects).toEqual([]);
+    expect(state().selectedObjectId).toBeNull();
+
+    state().redo();
+    state().redo();
+    expect(state().template.pages[0].objects[0]).toMatchObject({ id: objectId, x: 10, y: 20 });
+  });
+
+  it('should restore a deleted object at its stacking position', () => {
+    const pageId = state().selectedPageId;
+    state().addObject('text');
+    state().addObject('shape');
+    state().addObject('image');
+    const [, middle] = state().template.pages[0].objects;
+
+    state().selectObject(middle.id);
+    state().removeObject(pageId, middle.id);
+    state().undo();
+
+    expect(state().template.pages[0].objects[1]).toEqual(middle);
+    expect(state().selectedObjectId).toBe(middle.id);
+  });
+
+  it('should undo page changes and keep the numbering consistent', () => {
+    const first = state().selectedPageId;
+    state().addPage();
+    state().addPage();
+    const original = state().template;
+
+    state().movePage(first, 2);
+    state().removePage(state().template.pages[0].id);
+    state().updatePage(first, { title: 'Renamed' });
+
+    state().undo();
+    state().undo();
+    state().undo();
+
+    expect(state().template).toEqual(original);
+    state().redo();
+    expect(state().template.pages.map((page) => page.pageNumber)).toEqual([1, 2, 3]);
+    expect(state().template.pages[2].id).toBe(first);
+  });
+
+  it('should select a valid page after undoing the page that was selected', () => {
+    state().addPage();
+    const added = state().selectedPageId;
+
+    state().undo();
+
+    expect(state().template.pages).toHaveLength(1);
+    expect(state().selectedPageId).toBe(state().template.pages[0].id);
+    expect(state().selectedPageId).not.toBe(added);
+  });
+
+  it('should undo metadata changes', () => {
+    state().updateMetadata({ name: 'Fractions', tags: ['math'] });
+    state().undo();
+
+    expect(state().template.metadata).toMatchObject({ name: 'Untitled Template' });
+    expect(state().template.metadata.tags).toBeUndefined();
+  });
+
+  it('should group the updates of a gesture into one step', () => {
+    const pageId = state().selectedPageId;
+    state().addObject('shape');
+    const objectId = state().selectedObjectId as string;
+    const before = selectedObject();
+
+    state().beginGesture();
+    for (let step = 1; step <= 20; step++) {
+      state().updateObject(pageId, objectId, { x: step * 5, y: step * 2 });
+    }
+    state().endGesture();
+    state().beginGesture();
+    state().updateObject(pageId, objectId, { rotation: 45 });
+    state().endGesture();
+
+    expect(state().history.past).toHaveLength(3);
+    expect(state().history.past[1].label).toBe('Move object');
+
+    state().undo();
+    expect(selectedObject()).toMatchObject({ x: 100, y: 40, rotation: 0 });
+    state().undo();
+    expect(selectedObject()).toEqual(before);
+  });
+
+  it('should not record edits that change nothing', () => {
+    const pageId = state().selectedPageId;
+    state().addObject('text');
+    const { x } = selectedObject()!;
+
+    state().updateObject(pageId, state().selectedObjectId as string, { x });
+    state().movePage(pageId, 0);
+
+    expect(state().history.past).toHaveLength(1);
+  });
+
+  it('should drop the redo stack when a new edit is made', () => {
+    state().updateMetadata({ name: 'First' });
+    state().updateMetadata({ name: 'Second' });
+    state().undo();
+    expect(state().history.future).toHaveLength(1);
+
+    state().updateMetadata({ description: 'Other' });
+    expect(state().history.future).toEqual([]);
+
+    state().redo();
+    expect(state().template.metadata).toMatchObject({ name: 'First', description: 'Other' });
+  });
+
+  it('should keep at most the configured number of steps', () => {
+    store = createTemplateBuilderStore(undefined, { historyLimit: 3 });
+    for (let step = 1; step <= 5; step++) {
+      state().updateMetadata({ name: `Step ${step}` });
+    }
+
+    expect(state().history.past).toHaveLength(3);
+    for (let step = 0; step < 5; step++) state().undo();
+    expect(state().template.metadata.name).toBe('Step 2');
+    expect(state().dirty).toBe(true);
+  });
+
+  it('should keep the history across saves and track the saved state', () => {
+    state().updateMetadata({ name: 'Saved' });
+    state().markSaved('/work/template.json');
+    state().updateMetadata({ name: 'Edited' });
+
+    expect(state().dirty).toBe(true);
+    state().undo();
+    expect(state().dirty).toBe(false);
+    state().undo();
+    expect(state().dirty).toBe(true);
+    expect(state().template.metadata.name).toBe('Untitled Template');
+
+    state().redo();
+    expect(state().dirty).toBe(false);
+    expect(state().history.future).toHaveLength(1);
+  });
+
+  it('should mark the template dirty when a gesture continues after a save', () => {
+    const pageId = state().selectedPageId;
+    state().addObject('shape');
+    const objectId = state().selectedObjectId as string;
+
+    state().beginGesture();
+    state().updateObject(pageId, objectId, { x: 1 });
+    state().markSaved('/work/template.json');
+    state().updateObject(pageId, objectId, { x: 2 });
+    state().endGesture();
+
+    expect(state().dirty).toBe(true);
+    expect(state().history.past).toHaveLength(2);
+  });
+
+  it('should start a new history for a new or loaded template', () => {
+    state().updateMetadata({ name: 'Edited' });
+    state().newTemplate();
+
+    expect(state().history.past).toEqual([]);
+    state().undo();
+    expect(state().template.metadata.name).toBe('Untitled Template');
+  });
+});
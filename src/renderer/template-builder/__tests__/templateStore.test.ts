@@ -0,0 +1,151 @@
+/**
+ * Tests for template editing in the template builder store
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import { ManifestGenerator } from '@/shared/services/ManifestGenerator';
+import { PackageBuilder } from '@/shared/services/PackageBuilder';
+import type { LessonTemplate } from '@/shared/types';
+import { serializeTemplate } from '@/shared/utils/templates';
+import { createTemplateBuilderStore } from '../templateStore';
+
+function pageNumbers(store: ReturnType<typeof createTemplateBuilderStore>) {
+  return store.getState().template.pages.map((page) => [page.title, page.pageNumber]);
+}
+
+describe('template builder store', () => {
+  let store: ReturnType<typeof createTemplateBuilderStore>;
+
+  beforeEach(() => {
+    store = createTemplateBuilderStore();
+  });
+
+  it('should add pages after the selected one and select them', () => {
+    const first = store.getState().selectedPageId;
+    store.getState().addPage();
+    store.getState().updatePage(store.getState().selectedPageId, { title: 'Last' });
+    store.getState().selectPage(first);
+    store.getState().addPage();
+
+    expect(pageNumbers(store)).toEqual([
+      ['Page 1', 1],
+      ['Page 2', 2],
+      ['Last', 3],
+    ]);
+    expect(store.getState().selectedPageId).toBe(store.getState().template.pages[1].id);
+    expect(store.getState().dirty).toBe(true);
+  });
+
+  it('should keep page numbers consistent when pages move', () => {
+    const { addPage, updatePage, movePage } = store.getState();
+    addPage();
+    addPage();
+    store.getState().template.pages.forEach((page, index) =>
+      updatePage(page.id, { title: `P${index + 1}` })
+    );
+
+    movePage(store.getState().template.pages[2].id, 0);
+
+    expect(pageNumbers(store)).toEqual([
+      ['P3', 1],
+      ['P1', 2],
+      ['P2', 3],
+    ]);
+  });
+
+  it('should select a neighbour when the selected page is removed', () => {
+    const { addPage, removePage } = store.getState();
+    const only = store.getState().selectedPageId;
+    removePage(only);
+    expect(store.getState().template.pages).toHaveLength(1);
+
+    addPage();
+    const [first, second] = store.getState().template.pages;
+    removePage(second.id);
+
+    expect(store.getState().selectedPageId).toBe(first.id);
+    expect(pageNumbers(store)).toEqual([['Page 1', 1]]);
+  });
+
+  it('should edit objects on a page', () => {
+    const { addObject, updateObject, updateObjectProperties } = store.getState();
+    const pageId = store.getState().selectedPageId;
+    addObject('text');
+    const objectId = store.getState().selectedObjectId as string;
+
+    updateObject(pageId, objectId, { x: 10, y: 20, rotation: 45 });
+    updateObjectProperties(pageId, objectId, { text: 'Hello', align: undefined });
+
+    const [object] = store.getState().template.pages[0].objects;
+    expect(object).toMatchObject({ id: objectId, type: 'text', x: 10, y: 20, rotation: 45 });
+    expect(object.properties.text).toBe('Hello');
+    expect(object.properties).not.toHaveProperty('align');
+
+    store.getState().removeObject(pageId, objectId);
+    expect(store.getState().template.pages[0].objects).toEqual([]);
+    expect(store.getState().selectedObjectId).toBeNull();
+  });
+
+  it('should edit the background color without touching other pages', () => {
+    store.getState().addPage();
+    const [first, second] = store.getState().template.pages;
+
+    store.getState().updatePage(second.id, { backgroundColor: '#112233' });
+
+    const pages = store.getState().template.pages;
+    expect(pages[1].backgroundColor).toBe('#112233');
+    expect(pages[0]).toBe(first);
+  });
+
+  it('should not mark the template dirty for edits that change nothing', () => {
+    store.getState().updateObject(store.getState().selectedPageId, 'missing', { x: 1 });
+    store.getState().movePage(store.getState().selectedPageId, 0);
+
+    expect(store.getState().dirty).toBe(false);
+  });
+
+  it('should order and renumber the pages of a loaded template', () => {
+    const template: LessonTemplate = {
+      id: 'template-loaded',
+      metadata: { name: 'Loaded', description: '' },
+      pages: [
+        { id: 'b', pageNumber: 7, objects: [] },
+        { id: 'a', pageNumber: 3, objects: [] },
+      ],
+      resources: [],
+    };
+
+    store.getState().loadTemplate(template, '/work/loaded.json');
+
+    const state = store.getState();
+    expect(state.template.pages.map((page) => [page.id, page.pageNumber])).toEqual([
+      ['a', 1],
+      ['b', 2],
+    ]);
+    expect(state).toMatchObject({
+      selectedPageId: 'a',
+      dirty: false,
+      filePath: '/work/loaded.json',
+    });
+  });
+
+  it('should save templates in the format packages store them in', async () => {
+    store.getState().addObject('shape');
+    store.getState().updateMetadata({ name: 'Shapes' });
+    const { template } = store.getState();
+
+    const manifest = new ManifestGenerator().createTemplatePackManifest(
+      'com.example.shapes',
+      'Shapes',
+      'Author',
+      'author@example.com'
+    );
+    const blob = await new PackageBuilder().buildPackage({ manifest, templates: [template] });
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+
+    expect(await zip.file(`templates/${template.id}.json`)?.async('string')).toBe(
+      serializeTemplate(template)
+    );
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Canvas Geometry
+ * Drag, resize and rotate math for template objects. Objects rotate about
+ * their center, so resizing works in the object's own frame and then moves
+ * the box to keep the edge opposite the dragged handle in place.
+ */
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Degrees clockwise */
+  rotation: number;
+}
+
+export type ResizeHandle = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+
+/**
+ * Smallest width and height a resize can produce
+ */
+export const MIN_OBJECT_SIZE = 10;
+
+/**
+ * Angle rotation snaps to while Shift is held
+ */
+export const ROTATION_SNAP = 15;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function moveBox(box: Box, dx: number, dy: number): Box {
+  return { ...box, x: Math.round(box.x + dx), y: Math.round(box.y + dy) };
+}
+
+/**
+ * Resize a box by dragging one of its handles by (dx, dy) page units
+ */
+export function resizeBox(box: Box, handle: ResizeHandle, dx: number, dy: number): Box {
+  const angle = toRadians(box.rotation);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  // Pointer movement in the object's frame
+  const localX = dx * cos + dy * sin;
+  const localY = -dx * sin + dy * cos;
+
+  // Edges relative to the center
+  let left = -box.width / 2;
+  let right = box.width / 2;
+  let top = -box.height / 2;
+  let bottom = box.height / 2;
+
+  if (handle.includes('e')) right = Math.max(left + MIN_OBJECT_SIZE, right + localX);
+  if (handle.includes('w')) left = Math.min(right - MIN_OBJECT_SIZE, left + localX);
+  if (handle.includes('s')) bottom = Math.max(top + MIN_OBJECT_SIZE, bottom + localY);
+  if (handle.includes('n')) top = Math.min(bottom - MIN_OBJECT_SIZE, top + localY);
+
+  const width = right - left;
+  const height = bottom - top;
+
+  // Move the center by the shift of the edges' midpoint, back in page space
+  const shiftX = (left + right) / 2;
+  const shiftY = (top + bottom) / 2;
+  const centerX = box.x + box.width / 2 + shiftX * cos - shiftY * sin;
+  const centerY = box.y + box.height / 2 + shiftX * sin + shiftY * cos;
+
+  return {
+    ...box,
+    x: Math.round(centerX - width / 2),
+    y: Math.round(centerY - height / 2),
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+}
+
+/**
+ * Rotation that points the box's top at the pointer, from 0 to 360 degrees
+ */
+export function rotationTowards(box: Box, pointerX: number, pointerY: number, snap = 0): number {
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  let degrees = (Math.atan2(pointerY - centerY, pointerX - centerX) * 180) / Math.PI + 90;
+  if (snap > 0) degrees = Math.round(degrees / snap) * snap;
+  return Math.round(((degrees % 360) + 360) % 360);
+}
@@ -0,0 +1,56 @@
+/**
+ * Template Autosave
+ * Periodically writes an edited template back to the file it was loaded
+ * from or last saved to. A successful write marks the store as saved the
+ * same way a manual save does, so the undo history carries on across
+ * autosaves; edits made while a write is in flight keep the template dirty
+ * for the next tick.
+ */
+
+import type { StoreApi } from 'zustand';
+import { serializeTemplate } from '@/shared/utils/templates';
+import type { TemplateBuilderStore } from './templateStore';
+
+export const DEFAULT_AUTOSAVE_INTERVAL = 30_000;
+
+/**
+ * Writes serialized template JSON to a file; resolves to whether it was written
+ */
+export type TemplateWriter = (filePath: string, content: string) => Promise<boolean>;
+
+export interface AutosaveOptions {
+  /** Milliseconds between autosave ticks */
+  intervalMs?: number;
+}
+
+/**
+ * Start autosaving the store's template; returns a function that stops it
+ */
+export function startAutosave(
+  store: StoreApi<TemplateBuilderStore>,
+  write: TemplateWriter,
+  options: AutosaveOptions = {}
+): () => void {
+  let writing = false;
+
+  const tick = async () => {
+    const { template, dirty, filePath } = store.getState();
+    if (writing || !dirty || !filePath) return;
+
+    writing = true;
+    try {
+      const written = await write(filePath, serializeTemplate(template));
+      const current = store.getState();
+      if (written && current.template === template && current.filePath === filePath) {
+        current.markSaved(filePath);
+      }
+    } catch (error) {
+      console.error(`Autosave to ${filePath} failed`, error);
+    } finally {
+      writing = false;
+    }
+  };
+
+  const timer = setInterval(tick, options.intervalMs ?? DEFAULT_AUTOSAVE_INTERVAL);
+  return () => clearInterval(timer);
+}
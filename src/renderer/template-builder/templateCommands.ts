@@ -0,0 +1,239 @@
+/**
+ * Template Commands
+ * Undoable edits of a `LessonTemplate`. A command is created from the
+ * template it will be applied to, so it can remember what it replaces, and
+ * knows how to apply and revert itself with the pure operations in
+ * `templateOperations`. Factories return null for edits that would change
+ * nothing, so they never end up in the history.
+ */
+
+import type { LessonTemplate, TemplateObject, TemplatePage } from '@/shared/types';
+import {
+  addObject,
+  addPage,
+  findObject,
+  findPage,
+  movePage,
+  removeObject,
+  removePage,
+  updateMetadata,
+  updateObject,
+  updateObjectProperties,
+  updatePage,
+} from './templateOperations';
+import type { ObjectChanges, PageChanges, TemplateMetadata } from './templateOperations';
+
+export interface TemplateCommand {
+  /** Describes the edit, e.g. "Move object" */
+  readonly label: string;
+  apply(template: LessonTemplate): LessonTemplate;
+  revert(template: LessonTemplate): LessonTemplate;
+  /**
+   * Combine with the command that directly follows into a single one, or
+   * return null when the two must stay separate
+   */
+  merge?(next: TemplateCommand): TemplateCommand | null;
+}
+
+/**
+ * Command that overwrites some fields of one target; two updates of the
+ * same target merge into one going from the first's values to the last's
+ */
+interface UpdateCommand<T extends object> extends TemplateCommand {
+  readonly target: string;
+  readonly before: T;
+  readonly after: T;
+}
+
+function createUpdateCommand<T extends object>(
+  label: string,
+  target: string,
+  before: T,
+  after: T,
+  write: (template: LessonTemplate, values: T) => LessonTemplate
+): UpdateCommand<T> {
+  return {
+    label,
+    target,
+    before,
+    after,
+    apply: (template) => write(template, after),
+    revert: (template) => write(template, before),
+    merge: (next) => {
+      if (!isUpdateCommand(next) || next.target !== target) return null;
+      const { before: nextBefore, after: nextAfter } = next as UpdateCommand<T>;
+      return createUpdateCommand(
+        label,
+        target,
+        { ...nextBefore, ...before },
+        { ...after, ...nextAfter },
+        write
+      );
+    },
+  };
+}
+
+function isUpdateCommand(command: TemplateCommand): command is UpdateCommand<object> {
+  return 'target' in command && 'before' in command && 'after' in command;
+}
+
+/**
+ * Current values of the fields a change overwrites, or null when the change
+ * would leave every one of them as it is
+ */
+function previousValues<T extends object>(source: object, changes: T): T | null {
+  const current = source as Record<string, unknown>;
+  const keys = Object.keys(changes) as Array<keyof T & string>;
+  if (keys.every((key) => Object.is(current[key], changes[key]))) return null;
+  return Object.fromEntries(keys.map((key) => [key, current[key]])) as T;
+}
+
+export function updateMetadataCommand(
+  template: LessonTemplate,
+  changes: Partial<TemplateMetadata>
+): TemplateCommand | null {
+  const before = previousValues(template.metadata, changes);
+  if (!before) return null;
+  return createUpdateCommand('Edit template details', 'metadata', before, changes, updateMetadata);
+}
+
+/**
+ * Insert a new page at an index
+ */
+export function addPageCommand(page: TemplatePage, index: number): TemplateCommand {
+  return {
+    label: 'Add page',
+    apply: (template) => addPage(template, page, index),
+    revert: (template) => removePage(template, page.id),
+  };
+}
+
+export function removePageCommand(
+  template: LessonTemplate,
+  pageId: string
+): TemplateCommand | null {
+  const index = template.pages.findIndex((page) => page.id === pageId);
+  if (index === -1 || template.pages.length <= 1) return null;
+
+  const page = template.pages[index];
+  return {
+    label: 'Delete page',
+    apply: (current) => removePage(current, pageId),
+    revert: (current) => addPage(current, page, index),
+  };
+}
+
+export function movePageCommand(
+  template: LessonTemplate,
+  pageId: string,
+  toIndex: number
+): TemplateCommand | null {
+  const from = template.pages.findIndex((page) => page.id === pageId);
+  const to = Math.min(template.pages.length - 1, Math.max(0, toIndex));
+  if (from === -1 || from === to) return null;
+
+  return {
+    label: 'Reorder pages',
+    apply: (current) => movePage(current, pageId, to),
+    revert: (current) => movePage(current, pageId, from),
+  };
+}
+
+export function updatePageCommand(
+  template: LessonTemplate,
+  pageId: string,
+  changes: PageChanges
+): TemplateCommand | null {
+  const page = findPage(template, pageId);
+  const before = page && previousValues(page, changes);
+  if (!before) return null;
+  return createUpdateCommand('Edit page', `page:${pageId}`, before, changes, (current, values) =>
+    updatePage(current, pageId, values)
+  );
+}
+
+/**
+ * Insert a new object on a page, on top unless a stacking index is given
+ */
+export function addObjectCommand(
+  pageId: string,
+  object: TemplateObject,
+  index?: number
+): TemplateCommand {
+  return {
+    label: 'Add object',
+    apply: (template) => addObject(template, pageId, object, index),
+    revert: (template) => removeObject(template, pageId, object.id),
+  };
+}
+
+export function removeObjectCommand(
+  template: LessonTemplate,
+  pageId: string,
+  objectId: string
+): TemplateCommand | null {
+  const objects = findPage(template, pageId)?.objects ?? [];
+  const index = objects.findIndex((object) => object.id === objectId);
+  if (index === -1) return null;
+
+  const object = objects[index];
+  return {
+    label: 'Delete object',
+    apply: (current) => removeObject(current, pageId, objectId),
+    revert: (current) => addObject(current, pageId, object, index),
+  };
+}
+
+/**
+ * Name an object change by what it does to the object
+ */
+function describeObjectChanges(changes: ObjectChanges): string {
+  const keys = Object.keys(changes);
+  if (keys.every((key) => key === 'x' || key === 'y')) return 'Move object';
+  if (keys.every((key) => ['x', 'y', 'width', 'height'].includes(key))) return 'Resize object';
+  if (keys.every((key) => key === 'rotation')) return 'Rotate object';
+  if (keys.every((key) => key === 'locked')) {
+    return changes.locked ? 'Lock object' : 'Unlock object';
+  }
+  return 'Edit object';
+}
+
+export function updateObjectCommand(
+  template: LessonTemplate,
+  pageId: string,
+  objectId: string,
+  changes: ObjectChanges
+): TemplateCommand | null {
+  const object = findObject(template, pageId, objectId);
+  const before = object && previousValues(object, changes);
+  if (!before) return null;
+  return createUpdateCommand(
+    describeObjectChanges(changes),
+    `object:${pageId}:${objectId}`,
+    before,
+    changes,
+    (current, values) => updateObject(current, pageId, objectId, values)
+  );
+}
+
+/**
+ * Change an object's properties; properties the object did not have are
+ * removed again when the command is reverted
+ */
+export function updateObjectPropertiesCommand(
+  template: LessonTemplate,
+  pageId: string,
+  objectId: string,
+  properties: Record<string, unknown>
+): TemplateCommand | null {
+  const object = findObject(template, pageId, objectId);
+  const before = object && previousValues(object.properties, properties);
+  if (!before) return null;
+  return createUpdateCommand(
+    'Restyle object',
+    `properties:${pageId}:${objectId}`,
+    before,
+    properties,
+    (current, values) => updateObjectProperties(current, pageId, objectId, values)
+  );
+}
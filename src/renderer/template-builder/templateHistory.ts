@@ -0,0 +1,132 @@
+/**
+ * Template History
+ * Undo and redo stacks of template commands. Every state of the template
+ * the history can return to has a revision number, so saving only has to
+ * remember the revision that was saved: the history outlives saves, and
+ * undoing back to the saved revision makes the template clean again.
+ */
+
+import type { LessonTemplate } from '@/shared/types';
+import type { TemplateCommand } from './templateCommands';
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export interface TemplateSelection {
+  pageId: string;
+  objectId: string | null;
+}
+
+export interface HistoryEntry {
+  /** Revision of the template once the entry is applied */
+  readonly revision: number;
+  readonly label: string;
+  /** Applied in order, reverted in reverse order */
+  readonly commands: readonly TemplateCommand[];
+  /** Selection before the entry was applied, restored when it is undone */
+  readonly selection: TemplateSelection;
+}
+
+export interface TemplateHistory {
+  /** Applied entries, the most recent last */
+  readonly past: readonly HistoryEntry[];
+  /** Undone entries, the next one to redo last */
+  readonly future: readonly HistoryEntry[];
+  /** Revision of the template with every entry in `past` undone */
+  readonly baseRevision: number;
+  readonly savedRevision: number;
+  readonly nextRevision: number;
+}
+
+export interface RecordOptions {
+  /** Most entries kept; the oldest are dropped first */
+  limit: number;
+  /** Fold the command into the most recent entry instead of adding one */
+  coalesce: boolean;
+}
+
+export function createHistory(): TemplateHistory {
+  return { past: [], future: [], baseRevision: 0, savedRevision: 0, nextRevision: 1 };
+}
+
+export function currentRevision(history: TemplateHistory): number {
+  return history.past.at(-1)?.revision ?? history.baseRevision;
+}
+
+/**
+ * Whether the template differs from the one last saved
+ */
+export function hasUnsavedChanges(history: TemplateHistory): boolean {
+  return currentRevision(history) !== history.savedRevision;
+}
+
+export function markSaved(history: TemplateHistory): TemplateHistory {
+  return { ...history, savedRevision: currentRevision(history) };
+}
+
+/**
+ * Record a command that was just applied. Recording always drops the redo
+ * stack, since those entries were made on a template that no longer exists.
+ */
+export function recordCommand(
+  history: TemplateHistory,
+  command: TemplateCommand,
+  selection: TemplateSelection,
+  options: RecordOptions
+): TemplateHistory {
+  const past = [...history.past];
+  const revision = history.nextRevision;
+  const last = options.coalesce ? past.pop() : undefined;
+
+  if (last) {
+    // The merged entry gets a new revision: its template differs from any saved one
+    const previous = last.commands.at(-1) as TemplateCommand;
+    const merged = previous.merge?.(command);
+    const commands = merged
+      ? [...last.commands.slice(0, -1), merged]
+      : [...last.commands, command];
+    past.push({ ...last, revision, commands });
+  } else {
+    past.push({ revision, label: command.label, commands: [command], selection });
+  }
+
+  const dropped = past.splice(0, Math.max(0, past.length - options.limit));
+  return {
+    ...history,
+    past,
+    future: [],
+    baseRevision: dropped.at(-1)?.revision ?? history.baseRevision,
+    nextRevision: revision + 1,
+  };
+}
+
+export function applyEntry(template: LessonTemplate, entry: HistoryEntry): LessonTemplate {
+  return entry.commands.reduce((current, command) => command.apply(current), template);
+}
+
+export function revertEntry(template: LessonTemplate, entry: HistoryEntry): LessonTemplate {
+  return entry.commands.reduceRight((current, command) => command.revert(current), template);
+}
+
+/**
+ * Move the most recent entry to the redo stack; the caller reverts it
+ */
+export function undo(history: TemplateHistory): [TemplateHistory, HistoryEntry] | null {
+  const entry = history.past.at(-1);
+  if (!entry) return null;
+  return [
+    { ...history, past: history.past.slice(0, -1), future: [...history.future, entry] },
+    entry,
+  ];
+}
+
+/**
+ * Move the next undone entry back to the undo stack; the caller applies it
+ */
+export function redo(history: TemplateHistory): [TemplateHistory, HistoryEntry] | null {
+  const entry = history.future.at(-1);
+  if (!entry) return null;
+  return [
+    { ...history, past: [...history.past, entry], future: history.future.slice(0, -1) },
+    entry,
+  ];
+}
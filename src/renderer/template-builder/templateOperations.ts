@@ -0,0 +1,314 @@
+/**
+ * Template Operations
+ * Pure edits of a `LessonTemplate` for the template builder. Each returns a
+ * new template and leaves its input untouched; unchanged pages and objects
+ * keep their identity, so components can skip re-rendering them.
+ */
+
+import type {
+  LessonTemplate,
+  TemplateObject,
+  TemplateObjectType,
+  TemplatePage,
+} from '@/shared/types';
+
+/**
+ * Logical page size objects are positioned in
+ */
+export const PAGE_SIZE = { width: 1920, height: 1080 };
+
+export const TEMPLATE_OBJECT_TYPES: TemplateObjectType[] = [
+  'text',
+  'image',
+  'shape',
+  'stroke',
+  'video',
+  'audio',
+];
+
+export const DEFAULT_BACKGROUND_COLOR = '#FFFFFF';
+
+export type TemplateMetadata = LessonTemplate['metadata'];
+
+export type PageChanges = Partial<Pick<TemplatePage, 'title' | 'backgroundColor'>>;
+
+export type ObjectChanges = Partial<
+  Pick<TemplateObject, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'opacity' | 'locked'>
+>;
+
+interface ObjectDefaults {
+  width: number;
+  height: number;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Size and properties of newly added objects; stroke points are relative to
+ * the object's box, from 0 to 1, so they follow it when it is resized
+ */
+const OBJECT_DEFAULTS: Record<TemplateObjectType, ObjectDefaults> = {
+  text: {
+    width: 400,
+    height: 80,
+    properties: {
+      text: 'Text',
+      fontSize: 32,
+      fontFamily: 'Inter',
+      color: '#000000',
+      align: 'left',
+    },
+  },
+  image: { width: 400, height: 300, properties: { src: '', alt: '', fit: 'contain' } },
+  shape: {
+    width: 300,
+    height: 200,
+    properties: { shape: 'rectangle', fill: '#3B82F6', stroke: '#1E3A8A', strokeWidth: 2 },
+  },
+  stroke: {
+    width: 300,
+    height: 200,
+    properties: {
+      points: [
+        [0, 1],
+        [0.5, 0],
+        [1, 1],
+      ],
+      color: '#000000',
+      strokeWidth: 4,
+    },
+  },
+  video: {
+    width: 640,
+    height: 360,
+    properties: { src: '', autoplay: false, loop: false, muted: false, controls: true },
+  },
+  audio: { width: 300, height: 60, properties: { src: '', autoplay: false, loop: false } },
+};
+
+export function createId(prefix: string): string {
+  return `${prefix}-${globalThis.crypto.randomUUID().slice(0, 8)}`;
+}
+
+export function createTemplate(name = 'Untitled Template'): LessonTemplate {
+  return {
+    id: createId('template'),
+    metadata: { name, description: '' },
+    pages: [createPage(1)],
+    resources: [],
+  };
+}
+
+export function createPage(pageNumber: number): TemplatePage {
+  return {
+    id: createId('page'),
+    pageNumber,
+    title: `Page ${pageNumber}`,
+    backgroundColor: DEFAULT_BACKGROUND_COLOR,
+    objects: [],
+  };
+}
+
+/**
+ * Create an object of the type's default size, centered on the page unless
+ * a position is given
+ */
+export function createObject(
+  type: TemplateObjectType,
+  position?: { x: number; y: number }
+): TemplateObject {
+  const { width, height, properties } = OBJECT_DEFAULTS[type];
+  return {
+    id: createId('obj'),
+    type,
+    x: position?.x ?? Math.round((PAGE_SIZE.width - width) / 2),
+    y: position?.y ?? Math.round((PAGE_SIZE.height - height) / 2),
+    width,
+    height,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    properties: structuredClone(properties),
+  };
+}
+
+/**
+ * Number pages by their position, starting at 1
+ */
+export function renumberPages(pages: TemplatePage[]): TemplatePage[] {
+  return pages.map((page, index) =>
+    page.pageNumber === index + 1 ? page : { ...page, pageNumber: index + 1 }
+  );
+}
+
+/**
+ * Put a template read from a file into the shape the editor works on:
+ * pages ordered and numbered from 1, and every page with an object list
+ */
+export function normalizeTemplate(template: LessonTemplate): LessonTemplate {
+  const pages = [...(template.pages ?? [])]
+    .sort((a, b) => a.pageNumber - b.pageNumber)
+    .map((page) => (Array.isArray(page.objects) ? page : { ...page, objects: [] }));
+  return {
+    ...template,
+    pages: renumberPages(pages.length > 0 ? pages : [createPage(1)]),
+    resources: template.resources ?? [],
+  };
+}
+
+export function updateMetadata(
+  template: LessonTemplate,
+  changes: Partial<TemplateMetadata>
+): LessonTemplate {
+  return { ...template, metadata: { ...template.metadata, ...changes } };
+}
+
+/**
+ * Insert a page at an index, at the end by default
+ */
+export function addPage(
+  template: LessonTemplate,
+  page: TemplatePage,
+  index = template.pages.length
+): LessonTemplate {
+  const pages = [...template.pages];
+  pages.splice(clamp(index, 0, pages.length), 0, page);
+  return { ...template, pages: renumberPages(pages) };
+}
+
+/**
+ * Remove a page; the only page of a template cannot be removed
+ */
+export function removePage(template: LessonTemplate, pageId: string): LessonTemplate {
+  if (template.pages.length <= 1) return template;
+
+  const pages = template.pages.filter((page) => page.id !== pageId);
+  if (pages.length === template.pages.length) return template;
+  return { ...template, pages: renumberPages(pages) };
+}
+
+/**
+ * Move a page to another position, renumbering every page
+ */
+export function movePage(
+  template: LessonTemplate,
+  pageId: string,
+  toIndex: number
+): LessonTemplate {
+  const from = template.pages.findIndex((page) => page.id === pageId);
+  const to = clamp(toIndex, 0, template.pages.length - 1);
+  if (from === -1 || from === to) return template;
+
+  const pages = [...template.pages];
+  const [page] = pages.splice(from, 1);
+  pages.splice(to, 0, page);
+  return { ...template, pages: renumberPages(pages) };
+}
+
+export function updatePage(
+  template: LessonTemplate,
+  pageId: string,
+  changes: PageChanges
+): LessonTemplate {
+  return mapPage(template, pageId, (page) => ({ ...page, ...changes }));
+}
+
+/**
+ * Insert an object at a stacking index, on top by default
+ */
+export function addObject(
+  template: LessonTemplate,
+  pageId: string,
+  object: TemplateObject,
+  index?: number
+): LessonTemplate {
+  return mapPage(template, pageId, (page) => {
+    const objects = [...page.objects];
+    objects.splice(clamp(index ?? objects.length, 0, objects.length), 0, object);
+    return { ...page, objects };
+  });
+}
+
+export function updateObject(
+  template: LessonTemplate,
+  pageId: string,
+  objectId: string,
+  changes: ObjectChanges
+): LessonTemplate {
+  return mapObject(template, pageId, objectId, (object) => ({ ...object, ...changes }));
+}
+
+/**
+ * Merge properties into an object's; an `undefined` value removes the property
+ */
+export function updateObjectProperties(
+  template: LessonTemplate,
+  pageId: string,
+  objectId: string,
+  properties: Record<string, unknown>
+): LessonTemplate {
+  return mapObject(template, pageId, objectId, (object) => {
+    const merged = { ...object.properties, ...properties };
+    for (const [key, value] of Object.entries(properties)) {
+      if (value === undefined) delete merged[key];
+    }
+    return { ...object, properties: merged };
+  });
+}
+
+export function removeObject(
+  template: LessonTemplate,
+  pageId: string,
+  objectId: string
+): LessonTemplate {
+  return mapPage(template, pageId, (page) => {
+    const objects = page.objects.filter((object) => object.id !== objectId);
+    return objects.length === page.objects.length ? page : { ...page, objects };
+  });
+}
+
+export function findPage(template: LessonTemplate, pageId: string): TemplatePage | undefined {
+  return template.pages.find((page) => page.id === pageId);
+}
+
+export function findObject(
+  template: LessonTemplate,
+  pageId: string,
+  objectId: string
+): TemplateObject | undefined {
+  return findPage(template, pageId)?.objects.find((object) => object.id === objectId);
+}
+
+function mapPage(
+  template: LessonTemplate,
+  pageId: string,
+  update: (page: TemplatePage) => TemplatePage
+): LessonTemplate {
+  let changed = false;
+  const pages = template.pages.map((page) => {
+    if (page.id !== pageId) return page;
+    const updated = update(page);
+    changed = updated !== page;
+    return updated;
+  });
+  return changed ? { ...template, pages } : template;
+}
+
+function mapObject(
+  template: LessonTemplate,
+  pageId: string,
+  objectId: string,
+  update: (object: TemplateObject) => TemplateObject
+): LessonTemplate {
+  return mapPage(template, pageId, (page) => {
+    const index = page.objects.findIndex((object) => object.id === objectId);
+    if (index === -1) return page;
+
+    const objects = [...page.objects];
+    objects[index] = update(objects[index]);
+    return { ...page, objects };
+  });
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,286 @@
+/**
+ * Template Builder Store
+ * Editor state of the template builder: the template being edited, the
+ * selected page and object, and the undo history. Edits are recorded as
+ * commands from `templateCommands`, so each one can be undone and redone;
+ * continuous edits such as drags are grouped into one step with a gesture.
+ */
+
+import { createStore, useStore } from 'zustand';
+import type { LessonTemplate, TemplateObjectType } from '@/shared/types';
+import {
+  addObjectCommand,
+  addPageCommand,
+  movePageCommand,
+  removeObjectCommand,
+  removePageCommand,
+  updateMetadataCommand,
+  updateObjectCommand,
+  updateObjectPropertiesCommand,
+  updatePageCommand,
+} from './templateCommands';
+import type { TemplateCommand } from './templateCommands';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  applyEntry,
+  createHistory,
+  currentRevision,
+  hasUnsavedChanges,
+  markSaved,
+  recordCommand,
+  redo,
+  revertEntry,
+  undo,
+} from './templateHistory';
+import type { TemplateHistory, TemplateSelection } from './templateHistory';
+import {
+  createObject,
+  createPage,
+  createTemplate,
+  findObject,
+  findPage,
+  normalizeTemplate,
+} from './templateOperations';
+import type { ObjectChanges, PageChanges, TemplateMetadata } from './templateOperations';
+
+export interface TemplateBuilderState {
+  template: LessonTemplate;
+  selectedPageId: string;
+  selectedObjectId: string | null;
+  /** Whether the template differs from the one created, loaded or last saved */
+  dirty: boolean;
+  /** File the template was loaded from or last saved to */
+  filePath: string | null;
+  history: TemplateHistory;
+}
+
+export interface TemplateBuilderActions {
+  newTemplate(name?: string): void;
+  loadTemplate(template: LessonTemplate, filePath?: string | null): void;
+  /** Record that the current template was saved; the history is kept */
+  markSaved(filePath: string): void;
+  updateMetadata(changes: Partial<TemplateMetadata>): void;
+
+  selectPage(pageId: string): void;
+  /** Add a page after the selected one and select it */
+  addPage(): void;
+  removePage(pageId: string): void;
+  movePage(pageId: string, toIndex: number): void;
+  updatePage(pageId: string, changes: PageChanges): void;
+
+  selectObject(objectId: string | null): void;
+  /** Add an object to the selected page and select it */
+  addObject(type: TemplateObjectType): void;
+  updateObject(pageId: string, objectId: string, changes: ObjectChanges): void;
+  updateObjectProperties(
+    pageId: string,
+    objectId: string,
+    properties: Record<string, unknown>
+  ): void;
+  removeObject(pageId: string, objectId: string): void;
+
+  undo(): void;
+  redo(): void;
+  /** Start grouping the following edits, e.g. the updates of a drag, into one undo step */
+  beginGesture(): void;
+  endGesture(): void;
+}
+
+export type TemplateBuilderStore = TemplateBuilderState & TemplateBuilderActions;
+
+export interface TemplateBuilderOptions {
+  /** Most undo steps kept */
+  historyLimit?: number;
+}
+
+function initialState(template: LessonTemplate, filePath: string | null): TemplateBuilderState {
+  return {
+    template,
+    selectedPageId: template.pages[0].id,
+    selectedObjectId: null,
+    dirty: false,
+    filePath,
+    history: createHistory(),
+  };
+}
+
+/**
+ * Keep a selection that still exists in the template, falling back to the
+ * first page and no object
+ */
+function validSelection(template: LessonTemplate, selection: TemplateSelection) {
+  const page = findPage(template, selection.pageId) ?? template.pages[0];
+  const objectId =
+    page.id === selection.pageId &&
+    selection.objectId &&
+    findObject(template, page.id, selection.objectId)
+      ? selection.objectId
+      : null;
+  return { selectedPageId: page.id, selectedObjectId: objectId };
+}
+
+export function createTemplateBuilderStore(
+  template: LessonTemplate = createTemplate(),
+  options: TemplateBuilderOptions = {}
+) {
+  const historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+
+  return createStore<TemplateBuilderStore>()((set, get) => {
+    /**
+     * Revision of the entry edits are folded into while a gesture is open;
+     * null until the gesture's first edit
+     */
+    let gesture: { revision: number | null } | null = null;
+
+    /**
+     * Apply a command and record it; returns whether it changed the template
+     */
+    const execute = (command: TemplateCommand | null): boolean => {
+      if (!command) return false;
+
+      const { template: current, history, selectedPageId, selectedObjectId } = get();
+      const updated = command.apply(current);
+      if (updated === current) return false;
+
+      const coalesce = gesture !== null && gesture.revision === currentRevision(history);
+      const recorded = recordCommand(
+        history,
+        command,
+        { pageId: selectedPageId, objectId: selectedObjectId },
+        { limit: historyLimit, coalesce }
+      );
+      if (gesture) gesture.revision = currentRevision(recorded);
+
+      set({ template: updated, history: recorded, dirty: hasUnsavedChanges(recorded) });
+      return true;
+    };
+
+    return {
+      ...initialState(normalizeTemplate(template), null),
+
+      newTemplate: (name) => {
+        gesture = null;
+        set(initialState(createTemplate(name), null));
+      },
+
+      loadTemplate: (loaded, filePath = null) => {
+        gesture = null;
+        set(initialState(normalizeTemplate(loaded), filePath));
+      },
+
+      markSaved: (filePath) => set({ dirty: false, filePath, history: markSaved(get().history) }),
+
+      updateMetadata: (changes) => {
+        execute(updateMetadataCommand(get().template, changes));
+      },
+
+      selectPage: (pageId) => {
+        if (findPage(get().template, pageId)) {
+          set({ selectedPageId: pageId, selectedObjectId: null });
+        }
+      },
+
+      addPage: () => {
+        const { template, selectedPageId } = get();
+        const index = template.pages.findIndex((page) => page.id === selectedPageId) + 1;
+        const page = createPage(index + 1);
+        if (execute(addPageCommand(page, index))) {
+          set({ selectedPageId: page.id, selectedObjectId: null });
+        }
+      },
+
+      removePage: (pageId) => {
+        const { template, selectedPageId } = get();
+        const index = template.pages.findIndex((page) => page.id === pageId);
+        if (!execute(removePageCommand(template, pageId))) return;
+
+        // Select the page that took the removed one's place
+        if (selectedPageId === pageId) {
+          const { pages } = get().template;
+          set({
+            selectedPageId: pages[Math.min(index, pages.length - 1)].id,
+            selectedObjectId: null,
+          });
+        }
+      },
+
+      movePage: (pageId, toIndex) => {
+        execute(movePageCommand(get().template, pageId, toIndex));
+      },
+
+      updatePage: (pageId, changes) => {
+        execute(updatePageCommand(get().template, pageId, changes));
+      },
+
+      selectObject: (objectId) => set({ selectedObjectId: objectId }),
+
+      addObject: (type) => {
+        const object = createObject(type);
+        if (execute(addObjectCommand(get().selectedPageId, object))) {
+          set({ selectedObjectId: object.id });
+        }
+      },
+
+      updateObject: (pageId, objectId, changes) => {
+        execute(updateObjectCommand(get().template, pageId, objectId, changes));
+      },
+
+      updateObjectProperties: (pageId, objectId, properties) => {
+        execute(updateObjectPropertiesCommand(get().template, pageId, objectId, properties));
+      },
+
+      removeObject: (pageId, objectId) => {
+        if (!execute(removeObjectCommand(get().template, pageId, objectId))) return;
+        if (get().selectedObjectId === objectId) set({ selectedObjectId: null });
+      },
+
+      undo: () => {
+        gesture = null;
+        const undone = undo(get().history);
+        if (!undone) return;
+
+        const [history, entry] = undone;
+        const template = revertEntry(get().template, entry);
+        set({
+          template,
+          history,
+          dirty: hasUnsavedChanges(history),
+          ...validSelection(template, entry.selection),
+        });
+      },
+
+      redo: () => {
+        gesture = null;
+        const redone = redo(get().history);
+        if (!redone) return;
+
+        const [history, entry] = redone;
+        const { selectedPageId, selectedObjectId } = get();
+        const template = applyEntry(get().template, entry);
+        set({
+          template,
+          history,
+          dirty: hasUnsavedChanges(history),
+          ...validSelection(template, { pageId: selectedPageId, objectId: selectedObjectId }),
+        });
+      },
+
+      beginGesture: () => {
+        gesture = { revision: null };
+      },
+
+      endGesture: () => {
+        gesture = null;
+      },
+    };
+  });
+}
+
+/**
+ * Store behind the template builder page
+ */
+export const templateBuilderStore = createTemplateBuilderStore();
+
+export function useTemplateBuilder<T>(selector: (state: TemplateBuilderStore) => T): T {
+  return useStore(templateBuilderStore, selector);
+}
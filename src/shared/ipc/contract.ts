@@ -0,0 +1,336 @@
+/**
+ * Studio IPC Contract
+ * The single definition of what crosses the context bridge: for every
+ * invoke channel the `studioAPI` method exposing it and the JSON Schema its
+ * payload must match, and for every event channel the schema of what the
+ * main process pushes. The preload surface and the main-process handlers are
+ * both generated from it, so a channel cannot change on one side only.
+ *
+ * Payload schemas use two extra keywords, registered by the validator:
+ * `binary` for `Uint8Array` data and `packageEntry` for names of files
+ * written into a package directory. The `file-path` format accepts absolute
+ * paths without `..` segments; which of those a handler may actually touch
+ * is decided in the main process.
+ *
+ * Each schema is checked against the TypeScript type of its payload: the
+ * top level of an object schema has to describe exactly the fields of the
+ * type and list every required one, so a payload type and its schema cannot
+ * change independently.
+ */
+
+import type { SchemaObject } from 'ajv';
+import type {
+  IpcRequest,
+  PackageData,
+  PackageDocumentation,
+  StudioChannel,
+  StudioEventChannel,
+  StudioEvents,
+} from '@/shared/types';
+
+/**
+ * Bumped whenever a payload or response changes shape
+ */
+export const IPC_CONTRACT_VERSION = 1;
+
+/**
+ * Fields of `T` that may not be left out
+ */
+type RequiredFields<T> = { [K in keyof T]-?: object extends Pick<T, K> ? never : K }[keyof T];
+
+/**
+ * Schema of a payload of type `T`: a string schema for strings, and for
+ * objects a schema whose `properties` are exactly the fields of `T`
+ */
+export type PayloadSchema<T> = unknown extends T
+  ? SchemaObject
+  : [T] extends [string]
+    ? { type: 'string'; [keyword: string]: unknown }
+    : {
+        type: 'object';
+        properties: { [K in keyof T]-?: SchemaObject };
+        required?: readonly RequiredFields<T>[];
+        additionalProperties?: false;
+        [keyword: string]: unknown;
+      };
+
+/**
+ * Required fields of `T` that schema `S` leaves out of `required`
+ */
+type UnlistedFields<T, S> = unknown extends T
+  ? never
+  : [T] extends [string]
+    ? never
+    : Exclude<RequiredFields<T>, S extends { required: readonly (infer K)[] } ? K : never>;
+
+/**
+ * Turns schemas missing a required field into a type error naming the field
+ */
+type ListsRequiredFields<T, S> = [UnlistedFields<T, S>] extends [never]
+  ? unknown
+  : { required: readonly UnlistedFields<T, S>[] & { missing: true } };
+
+export interface ChannelDefinition<T = unknown> {
+  /** Name of the `studioAPI` method that invokes the channel */
+  method: string;
+  /** Whether the payload may be left out */
+  optional?: boolean;
+  request: unknown extends T ? SchemaObject : PayloadSchema<NonNullable<T>>;
+}
+
+type ChannelDefinitions = { [C in StudioChannel]: ChannelDefinition<IpcRequest<C>> };
+
+type EventSchemas = { [E in StudioEventChannel]: PayloadSchema<StudioEvents[E]> };
+
+/**
+ * Returns the channels as they are; fails to type-check when a schema does
+ * not require every required field, or a payload that may be left out is
+ * not marked `optional`
+ */
+function checkChannels<D extends ChannelDefinitions>(
+  channels: D & {
+    [C in StudioChannel]: {
+      request: ListsRequiredFields<NonNullable<IpcRequest<C>>, D[C]['request']>;
+    } & (unknown extends IpcRequest<C>
+      ? unknown
+      : undefined extends IpcRequest<C>
+        ? { optional: true }
+        : unknown);
+  }
+): D {
+  return channels;
+}
+
+/**
+ * Returns the event schemas as they are; fails to type-check when a schema
+ * does not require every required field
+ */
+function checkEvents<S extends EventSchemas>(
+  events: S & { [E in StudioEventChannel]: ListsRequiredFields<StudioEvents[E], S[E]> }
+): S {
+  return events;
+}
+
+const filePath = { type: 'string', format: 'file-path' } as const;
+
+const uploadUrl = { type: 'string', format: 'uri', pattern: '^https://' } as const;
+
+const fileFilters = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['name', 'extensions'],
+    properties: {
+      name: { type: 'string' },
+      extensions: { type: 'array', items: { type: 'string' } },
+    },
+    additionalProperties: false,
+  },
+};
+
+function packageEntries(directory: string, content: SchemaObject): SchemaObject {
+  return {
+    type: 'array',
+    items: {
+      type: 'object',
+      required: ['name', 'content'],
+      properties: {
+        name: { type: 'string', packageEntry: directory },
+        content,
+      },
+    },
+  };
+}
+
+/**
+ * The manifest only needs its metadata here so drafts can be saved; it is
+ * fully validated before a package is built
+ */
+const packageData = {
+  type: 'object',
+  required: ['manifest'],
+  properties: {
+    manifest: {
+      type: 'object',
+      required: ['metadata'],
+      properties: { metadata: { type: 'object' } },
+    },
+    templates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'metadata'],
+        properties: {
+          id: { type: 'string', packageEntry: 'templates' },
+          metadata: { type: 'object' },
+        },
+      },
+    },
+    scripts: packageEntries('scripts', { type: 'string' }),
+    schemas: packageEntries('schemas', { type: 'object' }),
+    placeholders: packageEntries('placeholders', { binary: true }),
+    documentation: {
+      type: 'object',
+      properties: {
+        readme: { type: 'string' },
+        changelog: { type: 'string' },
+        license: { type: 'string' },
+      },
+      additionalProperties: false,
+    } satisfies PayloadSchema<PackageDocumentation>,
+  },
+  additionalProperties: false,
+} as const satisfies PayloadSchema<PackageData>;
+
+export const STUDIO_CHANNELS = checkChannels({
+  'dialog:selectFile': {
+    method: 'selectFile',
+    optional: true,
+    request: {
+      type: 'object',
+      properties: { title: { type: 'string' }, filters: fileFilters },
+      additionalProperties: false,
+    },
+  },
+
+  'dialog:selectFolder': {
+    method: 'selectFolder',
+    optional: true,
+    request: {
+      type: 'object',
+      properties: { title: { type: 'string' } },
+      additionalProperties: false,
+    },
+  },
+
+  'dialog:saveFile': {
+    method: 'saveFile',
+    request: {
+      type: 'object',
+      required: ['content'],
+      properties: {
+        title: { type: 'string' },
+        defaultPath: { type: 'string' },
+        filters: fileFilters,
+        content: { anyOf: [{ type: 'string' }, { binary: true }] },
+      },
+      additionalProperties: false,
+    },
+  },
+
+  'file:write': {
+    method: 'writeFile',
+    request: {
+      type: 'object',
+      required: ['path', 'content'],
+      properties: {
+        path: filePath,
+        content: { anyOf: [{ type: 'string' }, { binary: true }] },
+      },
+      additionalProperties: false,
+    },
+  },
+
+  'extension:load': {
+    method: 'loadExtension',
+    request: filePath,
+  },
+
+  'extension:save': {
+    method: 'saveExtension',
+    request: {
+      type: 'object',
+      required: ['path', 'data'],
+      properties: { path: filePath, data: packageData },
+      additionalProperties: false,
+    },
+  },
+
+  'extension:validateManifest': {
+    method: 'validateManifest',
+    request: { type: 'object' },
+  },
+
+  'cloud:uploadResource': {
+    method: 'uploadResource',
+    request: {
+      type: 'object',
+      required: ['path', 'uploadUrl', 'type'],
+      properties: {
+        path: filePath,
+        uploadUrl,
+        type: { type: 'string', minLength: 1 },
+        id: { type: 'string', minLength: 1 },
+        variantUploadUrls: {
+          type: 'object',
+          properties: { thumbnail: uploadUrl, preview: uploadUrl },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+
+  'package:build': {
+    method: 'buildPackage',
+    request: {
+      type: 'object',
+      required: ['data'],
+      properties: {
+        data: packageData,
+        outputPath: filePath,
+        signingKeyPath: filePath,
+        digestAlgorithm: { enum: ['sha256', 'sha512'] },
+      },
+      additionalProperties: false,
+    },
+  },
+} as const satisfies ChannelDefinitions);
+
+export type StudioContract = typeof STUDIO_CHANNELS;
+
+/**
+ * Payload schemas of the event channels, which double as the allowlist of
+ * channels the renderer may subscribe to
+ */
+export const STUDIO_EVENTS = checkEvents({
+  'package:buildProgress': {
+    type: 'object',
+    required: ['path', 'stage'],
+    properties: {
+      path: { type: 'string' },
+      stage: { enum: ['packaging', 'writing', 'verifying', 'done'] },
+    },
+    additionalProperties: false,
+  },
+
+  'cloud:uploadProgress': {
+    type: 'object',
+    required: ['path', 'loaded', 'total'],
+    properties: {
+      path: { type: 'string' },
+      loaded: { type: 'integer', minimum: 0 },
+      total: { type: 'integer', minimum: 0 },
+    },
+    additionalProperties: false,
+  },
+
+  'registry:changed': {
+    type: 'object',
+    required: ['extensionId', 'change'],
+    properties: {
+      extensionId: { type: 'string' },
+      change: { enum: ['installed', 'updated', 'restored', 'uninstalled', 'enabled', 'disabled'] },
+      version: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+} as const satisfies EventSchemas);
+
+export function isStudioChannel(channel: unknown): channel is StudioChannel {
+  return typeof channel === 'string' && Object.hasOwn(STUDIO_CHANNELS, channel);
+}
+
+export function isStudioEventChannel(channel: unknown): channel is StudioEventChannel {
+  return typeof channel === 'string' && Object.hasOwn(STUDIO_EVENTS, channel);
+}
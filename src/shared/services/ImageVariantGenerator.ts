@@ -0,0 +1,198 @@
+/**
+ * Image Variant Generator
+ * Produces downscaled WebP thumbnail and preview variants of image resources
+ * and fills in their dimensions, so galleries do not have to download the
+ * full-resolution originals. Decoding and encoding go through an injectable
+ * rasterizer; the canvas rasterizer works in the renderer, and digests use
+ * Web Crypto so the generator runs there too.
+ * Following Clean Architecture - Application Layer
+ */
+
+import type {
+  ImageResource,
+  ResourceDimensions,
+  ResourceReference,
+  ResourceVariant,
+  ResourceVariantName,
+} from '@/shared/types';
+
+export const VARIANT_TYPE = 'image/webp';
+
+/**
+ * Longest side of each variant in pixels
+ */
+export type ImageVariantSizes = Record<ResourceVariantName, number>;
+
+export const DEFAULT_VARIANT_SIZES: ImageVariantSizes = {
+  thumbnail: 256,
+  preview: 1024,
+};
+
+export interface ImageRasterizer {
+  /** Decode an image and report its pixel size */
+  measure(data: Blob): Promise<ResourceDimensions>;
+  /** Scale an image to the given size and encode it; quality goes from 0 to 1 */
+  resize(
+    data: Blob,
+    size: ResourceDimensions,
+    type: typeof VARIANT_TYPE,
+    quality: number
+  ): Promise<Blob>;
+}
+
+export interface ImageVariantOptions {
+  /** Longest side of each variant; unset fields use the defaults */
+  sizes?: Partial<ImageVariantSizes>;
+  /** WebP quality from 0 to 1; defaults to 0.8 */
+  quality?: number;
+}
+
+export interface ImageVariantFile {
+  name: ResourceVariantName;
+  /** File name to upload next to the original */
+  filename: string;
+  data: Blob;
+  variant: ResourceVariant;
+}
+
+export interface ImageVariantResult {
+  /** The reference with `dimensions`, `variants` and `variantDetails` filled in */
+  resource: ImageResource;
+  /** Variants to upload; none when the original is already small enough */
+  files: ImageVariantFile[];
+}
+
+const DEFAULT_QUALITY = 0.8;
+
+/**
+ * Raster formats variants are generated for; SVG scales without them
+ */
+const RASTER_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export class ImageVariantGenerator {
+  private readonly sizes: ImageVariantSizes;
+  private readonly quality: number;
+
+  constructor(
+    private readonly rasterizer: ImageRasterizer,
+    options: ImageVariantOptions = {}
+  ) {
+    this.sizes = { ...DEFAULT_VARIANT_SIZES, ...options.sizes };
+    this.quality = options.quality ?? DEFAULT_QUALITY;
+  }
+
+  /**
+   * Measure an image added to a resource pack and generate its variants
+   * A variant is only generated when it is smaller than the original;
+   * other resource types are returned unchanged
+   */
+  public async generate(resource: ResourceReference, data: Blob): Promise<ImageVariantResult> {
+    if (!RASTER_TYPES.includes(resource.type)) {
+      return { resource: resource as ImageResource, files: [] };
+    }
+
+    const dimensions = await this.rasterizer.measure(data);
+    const files: ImageVariantFile[] = [];
+
+    for (const name of Object.keys(this.sizes) as ResourceVariantName[]) {
+      const size = scaleToFit(dimensions, this.sizes[name]);
+      if (size.width >= dimensions.width && size.height >= dimensions.height) continue;
+
+      const encoded = await this.rasterizer.resize(data, size, VARIANT_TYPE, this.quality);
+      const filename = getVariantFilename(resource.filename, name);
+      files.push({
+        name,
+        filename,
+        data: encoded,
+        variant: {
+          url: getVariantUrl(resource.url, filename),
+          type: VARIANT_TYPE,
+          size: encoded.size,
+          checksum: { algorithm: 'sha256', value: await digestSha256(encoded) },
+          dimensions: size,
+        },
+      });
+    }
+
+    const image: ImageResource = {
+      ...(resource as ImageResource),
+      dimensions,
+      variants: undefined,
+      variantDetails: undefined,
+    };
+    if (files.length > 0) {
+      image.variants = {};
+      image.variantDetails = {};
+      for (const { name, variant } of files) {
+        image.variants[name] = variant.url;
+        image.variantDetails[name] = variant;
+      }
+    }
+
+    return { resource: image, files };
+  }
+}
+
+/**
+ * Scale dimensions down so the longest side is at most `maxSide`
+ */
+export function scaleToFit(dimensions: ResourceDimensions, maxSide: number): ResourceDimensions {
+  const scale = Math.min(1, maxSide / Math.max(dimensions.width, dimensions.height));
+  return {
+    width: Math.max(1, Math.round(dimensions.width * scale)),
+    height: Math.max(1, Math.round(dimensions.height * scale)),
+  };
+}
+
+async function digestSha256(data: Blob): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * `dna.png` becomes `dna.thumbnail.webp`
+ */
+function getVariantFilename(filename: string, name: ResourceVariantName): string {
+  const dot = filename.lastIndexOf('.');
+  const base = dot > 0 ? filename.slice(0, dot) : filename;
+  return `${base}.${name}.webp`;
+}
+
+/**
+ * URL of a variant uploaded next to the original
+ */
+function getVariantUrl(url: string, filename: string): string {
+  const name = filename.slice(filename.lastIndexOf('/') + 1);
+  return `${url.slice(0, url.lastIndexOf('/') + 1)}${encodeURIComponent(name)}`;
+}
+
+/**
+ * Rasterizer backed by `createImageBitmap` and `OffscreenCanvas`, for the renderer
+ */
+export function createCanvasRasterizer(): ImageRasterizer {
+  return {
+    async measure(data) {
+      const bitmap = await createImageBitmap(data);
+      const size = { width: bitmap.width, height: bitmap.height };
+      bitmap.close();
+      return size;
+    },
+
+    async resize(data, size, type, quality) {
+      const bitmap = await createImageBitmap(data, {
+        resizeWidth: size.width,
+        resizeHeight: size.height,
+        resizeQuality: 'high',
+      });
+      const canvas = new OffscreenCanvas(size.width, size.height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        bitmap.close();
+        throw new Error('2D canvas is not available');
+      }
+      context.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      return canvas.convertToBlob({ type, quality });
+    },
+  };
+}
@@ -15,10 +15,68 @@ import type {
   Lifecycle,
   Monitoring,
   Integrity,
+  Checksum,
+  CloudResourceManifest,
   MetadataExtended,
 } from '@/shared/types';
 import { computeChecksum } from '@/shared/utils/crypto';
 import { generateId } from '@/shared/utils/crypto';
+import { derivePublicKey, getSignatureAlgorithm, signData } from '@/shared/utils/crypto';
+import { canonicalJson } from '@/shared/utils/canonicalJson';
+
+/**
+ * Data covered by the manifest checksum: the manifest without its
+ * integrity block, plus the file digest list when there is one
+ * Serialized as canonical JSON so formatting and key order do not matter
+ */
+export function getChecksumPayload(manifest: ExtensionManifest): string {
+  const { integrity, ...content } = manifest;
+  const files = integrity?.checksum?.files;
+  if (!files) {
+    return canonicalJson(content);
+  }
+
+  return canonicalJson({
+    ...content,
+    integrity: { checksum: { algorithm: integrity.checksum.algorithm, files } },
+  });
+}
+
+/**
+ * Digest over a file digest list (one "<digest>  <path>" line per file,
+ * sorted by path)
+ */
+export function computeFilesDigest(
+  files: Record<string, string>,
+  algorithm: Checksum['algorithm']
+): string {
+  const lines = Object.keys(files)
+    .sort()
+    .map((path) => `${files[path]}  ${path}\n`);
+  return computeChecksum(lines.join(''), algorithm);
+}
+
+/**
+ * Data covered by a package signature
+ * The checksum block pins the manifest content, so signing it signs the manifest
+ */
+export function getSignaturePayload(checksum: Checksum): string {
+  return canonicalJson(checksum);
+}
+
+/**
+ * Checksum of a cloud resource manifest: hex digest of the canonical JSON of
+ * the manifest without its integrity block
+ * Verifiers infer the algorithm from the digest length
+ */
+export function getResourceManifestChecksum(
+  manifest: CloudResourceManifest,
+  algorithm: Checksum['algorithm'] = 'sha256'
+): string {
+  const content: Partial<CloudResourceManifest> = { ...manifest };
+  delete content.integrity;
+  return computeChecksum(canonicalJson(content), algorithm);
+}
 
 export interface ManifestOptions {
   metadata: Metadata;
@@ -126,24 +184,66 @@ export class ManifestGenerator {
   }
 
   /**
-   * Generate integrity checksums for manifest
+   * Sign a manifest with a PEM private key (RSA or EC)
+   * Checksums are regenerated first; the public key is embedded so the
+   * signature can be checked against a trust store
    */
-  private generateIntegrity(manifest: ExtensionManifest): Integrity {
-    // Create a copy without integrity for checksum calculation
-    const manifestCopy = { ...manifest };
-    delete (manifestCopy as Partial<ExtensionManifest>).integrity;
-
-    const manifestJson = JSON.stringify(manifestCopy);
-    const checksum = computeChecksum(manifestJson, 'sha256');
+  public signManifest(manifest: ExtensionManifest, privateKey: string): ExtensionManifest {
+    const integrity = this.generateIntegrity(manifest);
+    const algorithm = getSignatureAlgorithm(privateKey);
 
     return {
-      checksum: {
-        algorithm: 'sha256',
-        manifest: checksum,
+      ...manifest,
+      integrity: {
+        ...integrity,
+        signature: {
+          algorithm,
+          publicKey: derivePublicKey(privateKey),
+          signature: signData(getSignaturePayload(integrity.checksum), privateKey, algorithm),
+        },
       },
     };
   }
 
+  /**
+   * Record the digests of the packaged files in the manifest
+   * The manifest checksum is regenerated so it covers the file list; any
+   * previous signature no longer applies and is dropped
+   */
+  public attachFileDigests(
+    manifest: ExtensionManifest,
+    files: Record<string, string>,
+    algorithm: Checksum['algorithm'] = 'sha256'
+  ): ExtensionManifest {
+    const withFiles: ExtensionManifest = {
+      ...manifest,
+      integrity: { checksum: { algorithm, manifest: '', files } },
+    };
+    return { ...manifest, integrity: this.generateIntegrity(withFiles) };
+  }
+
+  /**
+   * Generate integrity checksums for manifest
+   * Keeps the algorithm and file digests already recorded in the manifest
+   */
+  private generateIntegrity(manifest: ExtensionManifest): Integrity {
+    const algorithm = manifest.integrity?.checksum?.algorithm ?? 'sha256';
+    const files = manifest.integrity?.checksum?.files;
+    const checksum: Checksum = { algorithm, manifest: '' };
+
+    if (files) {
+      checksum.files = files;
+      checksum.resources = computeFilesDigest(files, algorithm);
+    }
+
+    checksum.manifest = computeChecksum(
+      getChecksumPayload({ ...manifest, integrity: { checksum } }),
+      algorithm
+    );
+
+    return { checksum };
+  }
+
   /**
    * Create default manifest for template pack
    */
@@ -0,0 +1,367 @@
+/**
+ * Package Archive
+ * Guarded read access to untrusted .ldip (ZIP) archives: the central
+ * directory is checked before anything is inflated, and entries are
+ * inflated as streams with their sizes counted chunk by chunk
+ * Following Clean Architecture - Application Layer
+ */
+
+import JSZip from 'jszip';
+import type { PackageErrorCode } from '@/shared/types';
+
+export interface PackageLimits {
+  /** Maximum number of entries, directories included */
+  maxEntries: number;
+  /** Maximum uncompressed size of a single file, in bytes */
+  maxFileSize: number;
+  /** Maximum uncompressed size of the whole package, in bytes */
+  maxTotalSize: number;
+  /** Maximum uncompressed/compressed ratio of an entry larger than 1 MiB */
+  maxCompressionRatio: number;
+}
+
+export const DEFAULT_PACKAGE_LIMITS: PackageLimits = {
+  maxEntries: 1000,
+  maxFileSize: 50 * 1024 * 1024,
+  maxTotalSize: 200 * 1024 * 1024,
+  maxCompressionRatio: 100,
+};
+
+/**
+ * An entry as recorded in the ZIP central directory
+ */
+export interface PackageEntry {
+  path: string;
+  dir: boolean;
+  compressedSize: number;
+  /** Size declared by the archive; enforced again while inflating */
+  uncompressedSize: number;
+}
+
+export class PackageError extends Error {
+  public readonly code: PackageErrorCode;
+  /** Archive entry the error refers to */
+  public readonly path?: string;
+
+  constructor(code: PackageErrorCode, message: string, path?: string) {
+    super(message);
+    this.name = 'PackageError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+// Small entries compress well legitimately; only larger ones are ratio-checked
+const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_SIZE = 22;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const CENTRAL_HEADER_SIZE = 46;
+const MAX_COMMENT_LENGTH = 0xffff;
+const HOST_UNIX = 3;
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Throw unless an archive path is relative, uses `/` separators and stays
+ * inside the archive root
+ */
+export function assertSafePath(path: string): void {
+  const reject = (reason: string) => {
+    throw new PackageError('UNSAFE_PATH', `Unsafe path in package (${reason}): ${path}`, path);
+  };
+
+  if (path.length === 0) reject('empty name');
+  if (path.includes('\0')) reject('NUL character');
+  if (path.includes('\\')) reject('backslash separator');
+  if (path.startsWith('/') || /^[a-zA-Z]:/.test(path)) reject('absolute path');
+
+  const segments = path.endsWith('/') ? path.slice(0, -1).split('/') : path.split('/');
+  if (segments.includes('..')) reject('parent directory reference');
+  if (segments.some((segment) => segment === '' || segment === '.')) reject('empty segment');
+}
+
+/**
+ * Join a path taken from package content onto an archive directory
+ */
+export function resolvePackagePath(directory: string, path: unknown): string {
+  if (typeof path !== 'string') {
+    throw new PackageError('UNSAFE_PATH', `Invalid path reference in ${directory}/`);
+  }
+  const resolved = `${directory}/${path}`;
+  assertSafePath(resolved);
+  return resolved;
+}
+
+/**
+ * Read and check the central directory without inflating any entry
+ */
+export function readCentralDirectory(
+  bytes: Uint8Array,
+  limits: PackageLimits = DEFAULT_PACKAGE_LIMITS
+): PackageEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  const directorySize = view.getUint32(eocd + 12, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+
+  if (view.getUint16(eocd + 4, true) !== 0 || view.getUint16(eocd + 6, true) !== 0) {
+    throw new PackageError('MALFORMED_ARCHIVE', 'Multi-volume archives are not supported');
+  }
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new PackageError('MALFORMED_ARCHIVE', 'ZIP64 archives are not supported');
+  }
+  if (entryCount > limits.maxEntries) {
+    throw new PackageError(
+      'TOO_MANY_ENTRIES',
+      `Package has ${entryCount} entries; the limit is ${limits.maxEntries}`
+    );
+  }
+  if (directoryOffset + directorySize > eocd) {
+    throw new PackageError('MALFORMED_ARCHIVE', 'Central directory is out of bounds');
+  }
+
+  const entries: PackageEntry[] = [];
+  const seen = new Set<string>();
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  let declaredTotal = 0;
+  let offset = directoryOffset;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (
+      offset + CENTRAL_HEADER_SIZE > eocd ||
+      view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new PackageError('MALFORMED_ARCHIVE', 'Corrupt central directory entry');
+    }
+
+    const host = view.getUint8(offset + 5);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const externalAttributes = view.getUint32(offset + 38, true);
+
+    const nameStart = offset + CENTRAL_HEADER_SIZE;
+    if (nameStart + nameLength > eocd) {
+      throw new PackageError('MALFORMED_ARCHIVE', 'Corrupt central directory entry');
+    }
+
+    let path: string;
+    try {
+      path = decoder.decode(bytes.subarray(nameStart, nameStart + nameLength));
+    } catch {
+      throw new PackageError('MALFORMED_ARCHIVE', 'Entry name is not valid UTF-8');
+    }
+
+    assertSafePath(path);
+
+    if (host === HOST_UNIX && ((externalAttributes >>> 16) & S_IFMT) === S_IFLNK) {
+      throw new PackageError('SYMLINK_ENTRY', `Symbolic links are not allowed: ${path}`, path);
+    }
+
+    // Names that would land on the same file on a case-insensitive disk collide
+    const key = path.replace(/\/$/, '').normalize('NFC').toLowerCase();
+    if (seen.has(key)) {
+      throw new PackageError('DUPLICATE_ENTRY', `Duplicate entry in package: ${path}`, path);
+    }
+    seen.add(key);
+
+    const entry: PackageEntry = {
+      path,
+      dir: path.endsWith('/'),
+      compressedSize,
+      uncompressedSize,
+    };
+    checkEntrySize(entry, uncompressedSize, limits);
+    declaredTotal += uncompressedSize;
+    if (declaredTotal > limits.maxTotalSize) {
+      throw new PackageError(
+        'PACKAGE_TOO_LARGE',
+        `Package expands to more than ${limits.maxTotalSize} bytes`
+      );
+    }
+
+    entries.push(entry);
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * An opened package whose entries can be read within the limits
+ */
+export class PackageArchive {
+  /** Bytes inflated so far per entry; re-reading an entry is not counted twice */
+  private readonly inflated = new Map<string, number>();
+  private inflatedTotal = 0;
+
+  private constructor(
+    private readonly zip: JSZip,
+    public readonly entries: PackageEntry[],
+    private readonly limits: PackageLimits
+  ) {}
+
+  /**
+   * Check the central directory of a package and open it for reading
+   */
+  public static async open(
+    blob: Blob,
+    limits: PackageLimits = DEFAULT_PACKAGE_LIMITS
+  ): Promise<PackageArchive> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const entries = readCentralDirectory(bytes, limits);
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(bytes);
+    } catch (error) {
+      throw new PackageError(
+        'MALFORMED_ARCHIVE',
+        `Could not read archive: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return new PackageArchive(zip, entries, limits);
+  }
+
+  /**
+   * File entries, without directories
+   */
+  public get files(): PackageEntry[] {
+    return this.entries.filter((entry) => !entry.dir);
+  }
+
+  public has(path: string): boolean {
+    return this.files.some((entry) => entry.path === path);
+  }
+
+  /**
+   * Inflate an entry, aborting as soon as it exceeds a limit
+   */
+  public async read(path: string): Promise<Uint8Array> {
+    const entry = this.files.find((candidate) => candidate.path === path);
+    const file = entry && this.zip.file(path);
+    if (!entry || !file) {
+      throw new PackageError('MALFORMED_ARCHIVE', `Entry not found in package: ${path}`, path);
+    }
+
+    // Typings omit internalStream, which streams without requiring Node streams
+    const stream = (file as JSZip.JSZipObject & {
+      internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>;
+    }).internalStream('uint8array');
+
+    return new Promise((resolve, reject) => {
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      let failed = false;
+
+      stream
+        .on('data', (chunk) => {
+          if (failed) return;
+          size += chunk.length;
+          try {
+            this.account(entry, size);
+          } catch (error) {
+            failed = true;
+            stream.pause();
+            reject(error);
+            return;
+          }
+          chunks.push(chunk);
+        })
+        .on('error', (error) => {
+          if (failed) return;
+          failed = true;
+          reject(
+            new PackageError('MALFORMED_ARCHIVE', `Could not inflate ${path}: ${error.message}`, path)
+          );
+        })
+        .on('end', () => {
+          if (failed) return;
+          const content = new Uint8Array(size);
+          let position = 0;
+          for (const chunk of chunks) {
+            content.set(chunk, position);
+            position += chunk.length;
+          }
+          resolve(content);
+        })
+        .resume();
+    });
+  }
+
+  public async readText(path: string): Promise<string> {
+    return new TextDecoder().decode(await this.read(path));
+  }
+
+  /**
+   * Read and parse a JSON entry
+   */
+  public async readJson<T = unknown>(path: string): Promise<T> {
+    const text = await this.readText(path);
+    try {
+      return JSON.parse(text) as T;
+    } catch (error) {
+      throw new PackageError(
+        'INVALID_JSON',
+        `Invalid JSON in ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        path
+      );
+    }
+  }
+
+  /**
+   * Count inflated bytes of an entry against every limit
+   */
+  private account(entry: PackageEntry, size: number): void {
+    checkEntrySize(entry, size, this.limits);
+
+    const previous = this.inflated.get(entry.path) ?? 0;
+    if (size > previous) {
+      this.inflatedTotal += size - previous;
+      this.inflated.set(entry.path, size);
+    }
+    if (this.inflatedTotal > this.limits.maxTotalSize) {
+      throw new PackageError(
+        'PACKAGE_TOO_LARGE',
+        `Package expands to more than ${this.limits.maxTotalSize} bytes`
+      );
+    }
+  }
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const lowest = Math.max(0, view.byteLength - EOCD_SIZE - MAX_COMMENT_LENGTH);
+  for (let offset = view.byteLength - EOCD_SIZE; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new PackageError('MALFORMED_ARCHIVE', 'Not a ZIP archive');
+}
+
+function checkEntrySize(entry: PackageEntry, size: number, limits: PackageLimits): void {
+  if (size > limits.maxFileSize) {
+    throw new PackageError(
+      'ENTRY_TOO_LARGE',
+      `${entry.path} expands to more than ${limits.maxFileSize} bytes`,
+      entry.path
+    );
+  }
+  if (
+    size > RATIO_CHECK_MIN_SIZE &&
+    size / Math.max(entry.compressedSize, 1) > limits.maxCompressionRatio
+  ) {
+    throw new PackageError(
+      'COMPRESSION_RATIO_EXCEEDED',
+      `${entry.path} exceeds the compression ratio limit of ${limits.maxCompressionRatio}:1`,
+      entry.path
+    );
+  }
+}
@@ -5,44 +5,96 @@
  */
 
 import JSZip from 'jszip';
-import type { ExtensionManifest, LessonTemplate } from '@/shared/types';
-import { computeChecksum } from '@/shared/utils/crypto';
-
-export interface PackageData {
-  manifest: ExtensionManifest;
-  templates?: LessonTemplate[];
-  scripts?: PackageScript[];
-  schemas?: PackageSchema[];
-  documentation?: PackageDocumentation;
+import type {
+  Checksum,
+  ExtensionManifest,
+  FileVerification,
+  LessonTemplate,
+  PackageData,
+  PackageDocumentation,
+  PackagePlaceholder,
+  PackageSchema,
+  PackageScript,
+  PackageValidation,
+  SignatureStatus,
+} from '@/shared/types';
+import { computeChecksum, getKeyFingerprint, verifySignature } from '@/shared/utils/crypto';
+import { getTemplateFilename, serializeTemplate } from '@/shared/utils/templates';
+import {
+  ManifestGenerator,
+  computeFilesDigest,
+  getChecksumPayload,
+  getSignaturePayload,
+} from './ManifestGenerator';
+import {
+  DEFAULT_PACKAGE_LIMITS,
+  PackageArchive,
+  PackageError,
+  readCentralDirectory,
+  resolvePackagePath,
+} from './PackageArchive';
+import type { PackageLimits } from './PackageArchive';
+
+export type {
+  FileVerification,
+  PackageData,
+  PackageDocumentation,
+  PackagePlaceholder,
+  PackageSchema,
+  PackageScript,
+  PackageValidation,
+  SignatureStatus,
+} from '@/shared/types';
+
+export interface PackageFile {
+  path: string;
+  content: Uint8Array;
 }
 
-export interface PackageScript {
-  name: string;
-  content: string;
+export interface BuildOptions {
+  /** PEM private key (RSA or EC) used to sign the manifest */
+  signingKey?: string;
+  /** Digest algorithm for the manifest and file checksums; defaults to the manifest's */
+  digestAlgorithm?: Checksum['algorithm'];
 }
 
-export interface PackageSchema {
-  name: string;
-  content: object;
+/**
+ * What to do with packages that carry no signature
+ */
+export type UnsignedPackagePolicy = 'reject' | 'warn' | 'allow';
+
+export interface PackageVerificationOptions {
+  /** Publisher keys accepted for signed packages; without it any valid signature passes */
+  trustStore?: { isTrusted(publicKey: string): boolean };
+  /** Defaults to `warn` */
+  unsignedPolicy?: UnsignedPackagePolicy;
 }
 
-export interface PackageDocumentation {
-  readme?: string;
-  changelog?: string;
-  license?: string;
+const MANIFEST_PATH = 'manifest.json';
+const TEMPLATES_INDEX_PATH = 'templates/index.json';
+const PLACEHOLDERS_DIR = 'placeholders';
+
+export interface PackageBuilderOptions {
+  /** Extraction limits for untrusted packages; unset fields use the defaults */
+  limits?: Partial<PackageLimits>;
 }
 
 export class PackageBuilder {
+  private readonly manifestGenerator = new ManifestGenerator();
+  private readonly limits: PackageLimits;
+
+  constructor(options: PackageBuilderOptions = {}) {
+    this.limits = { ...DEFAULT_PACKAGE_LIMITS, ...options.limits };
+  }
+
   /**
    * Build a .ldip package from extension data
+   * Every packaged file is digested into the manifest, whose checksum is
+   * regenerated to cover the list; with a signing key the manifest is then signed
    */
-  public async buildPackage(data: PackageData): Promise<Blob> {
+  public async buildPackage(data: PackageData, options: BuildOptions = {}): Promise<Blob> {
     const zip = new JSZip();
 
-    // Add manifest
-    const manifestJson = JSON.stringify(data.manifest, null, 2);
-    zip.file('manifest.json', manifestJson);
-
     // Add templates if present
     if (data.templates && data.templates.length > 0) {
       const templatesFolder = zip.folder('templates');
@@ -54,17 +106,14 @@ export class PackageBuilder {
             id: t.id,
             name: t.metadata.name,
             description: t.metadata.description,
-            file: `${t.id}.json`,
+            file: getTemplateFilename(t),
           })),
         };
         templatesFolder.file('index.json', JSON.stringify(templatesIndex, null, 2));
 
         // Add individual template files
         for (const template of data.templates) {
-          templatesFolder.file(
-            `${template.id}.json`,
-            JSON.stringify(template, null, 2)
-          );
+          templatesFolder.file(getTemplateFilename(template), serializeTemplate(template));
         }
       }
     }
@@ -92,6 +141,16 @@ export class PackageBuilder {
       }
     }
 
+    // Add placeholders if present
+    if (data.placeholders && data.placeholders.length > 0) {
+      const placeholdersFolder = zip.folder(PLACEHOLDERS_DIR);
+      if (placeholdersFolder) {
+        for (const placeholder of data.placeholders) {
+          placeholdersFolder.file(placeholder.name, placeholder.content);
+        }
+      }
+    }
+
     // Add documentation
     if (data.documentation) {
       if (data.documentation.readme) {
@@ -105,6 +164,16 @@ export class PackageBuilder {
       }
     }
 
+    // Digest every file, then add the manifest covering them
+    const algorithm =
+      options.digestAlgorithm ?? data.manifest.integrity?.checksum?.algorithm ?? 'sha256';
+    const digests = await this.computeFileDigests(zip, algorithm);
+    let manifest = this.manifestGenerator.attachFileDigests(data.manifest, digests, algorithm);
+    if (options.signingKey) {
+      manifest = this.manifestGenerator.signManifest(manifest, options.signingKey);
+    }
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
     // Generate ZIP blob
     const blob = await zip.generateAsync({
       type: 'blob',
@@ -119,142 +188,297 @@ export class PackageBuilder {
 
   /**
    * Extract package contents from .ldip file
+   * Throws a PackageError when the archive breaks a limit or its content is malformed
    */
   public async extractPackage(blob: Blob): Promise<PackageData> {
-    const zip = await JSZip.loadAsync(blob);
-
-    // Read manifest
-    const manifestFile = zip.file('manifest.json');
-    if (!manifestFile) {
-      throw new Error('Invalid package: manifest.json not found');
-    }
-    const manifestJson = await manifestFile.async('string');
-    const manifest: ExtensionManifest = JSON.parse(manifestJson);
-
-    // Read templates if present
-    let templates: LessonTemplate[] | undefined;
-    const templatesFolder = zip.folder('templates');
-    if (templatesFolder) {
-      templates = [];
-      const indexFile = zip.file('templates/index.json');
-      if (indexFile) {
-        const indexJson = await indexFile.async('string');
-        const index = JSON.parse(indexJson);
-        
-        for (const templateRef of index.templates) {
-          const templateFile = zip.file(`templates/${templateRef.file}`);
-          if (templateFile) {
-            const templateJson = await templateFile.async('string');
-            const template: LessonTemplate = JSON.parse(templateJson);
-            templates.push(template);
-          }
-        }
-      }
-    }
+    return this.readPackageData(await this.openArchive(blob));
+  }
 
-    // Read scripts if present
-    let scripts: PackageScript[] | undefined;
-    const scriptsFolder = zip.folder('scripts');
-    if (scriptsFolder) {
-      scripts = [];
-      const scriptFiles = Object.keys(zip.files).filter((name) =>
-        name.startsWith('scripts/') && !name.endsWith('/')
-      );
-      for (const scriptPath of scriptFiles) {
-        const scriptFile = zip.file(scriptPath);
-        if (scriptFile) {
-          const content = await scriptFile.async('string');
-          scripts.push({
-            name: scriptPath.replace('scripts/', ''),
-            content,
-          });
-        }
-      }
-    }
+  /**
+   * Read every file entry of a .ldip package as raw bytes
+   */
+  public async readFiles(blob: Blob): Promise<PackageFile[]> {
+    const archive = await this.openArchive(blob);
+    const files: PackageFile[] = [];
 
-    // Read documentation
-    const documentation: PackageDocumentation = {};
-    const readmeFile = zip.file('README.md');
-    if (readmeFile) {
-      documentation.readme = await readmeFile.async('string');
-    }
-    const changelogFile = zip.file('CHANGELOG.md');
-    if (changelogFile) {
-      documentation.changelog = await changelogFile.async('string');
-    }
-    const licenseFile = zip.file('LICENSE');
-    if (licenseFile) {
-      documentation.license = await licenseFile.async('string');
+    for (const entry of archive.files) {
+      files.push({
+        path: entry.path,
+        content: await archive.read(entry.path),
+      });
     }
 
-    return {
-      manifest,
-      templates,
-      scripts,
-      documentation,
-    };
+    return files;
   }
 
   /**
-   * Validate package integrity
+   * Validate package integrity and its signature
    */
-  public async validatePackage(blob: Blob): Promise<{
-    valid: boolean;
-    errors: string[];
-  }> {
+  public async validatePackage(
+    blob: Blob,
+    options: PackageVerificationOptions = {}
+  ): Promise<PackageValidation> {
     const errors: string[] = [];
+    const warnings: string[] = [];
+    let signature: SignatureStatus = 'unsigned';
+    let publisherKey: string | undefined;
 
     try {
-      const data = await this.extractPackage(blob);
+      const archive = await this.openArchive(blob);
+      const data = await this.readPackageData(archive);
+      const checksum = data.manifest.integrity?.checksum;
+      const algorithm = checksum?.algorithm ?? 'sha256';
 
-      // Validate manifest checksum
-      const manifestJson = JSON.stringify(data.manifest);
-      const computedChecksum = computeChecksum(manifestJson, 'sha256');
-
-      if (data.manifest.integrity?.checksum?.manifest !== computedChecksum) {
+      // Validate manifest checksum (covers the manifest and the file list)
+      const computedChecksum = computeChecksum(getChecksumPayload(data.manifest), algorithm);
+      if (checksum?.manifest !== computedChecksum) {
         errors.push('Manifest checksum mismatch - possible tampering');
       }
 
-      // Additional validations can be added here
+      // Placeholders named by the manifest must be packaged
+      const placeholders = data.manifest.resources?.placeholders ?? {};
+      for (const [type, file] of Object.entries(placeholders)) {
+        const path = resolvePackagePath(PLACEHOLDERS_DIR, file);
+        if (!archive.has(path)) {
+          errors.push(`Placeholder for ${type} missing from package: ${path}`);
+        }
+      }
+
+      // Validate every packaged file against the digest list
+      let files: FileVerification | undefined;
+      if (checksum?.files) {
+        if (checksum.resources !== computeFilesDigest(checksum.files, algorithm)) {
+          errors.push('Resource checksum mismatch - file list was altered');
+        }
+
+        files = await this.verifyFiles(archive, checksum.files, algorithm);
+        errors.push(
+          ...files.mismatched.map((path) => `File checksum mismatch: ${path}`),
+          ...files.missing.map((path) => `File missing from package: ${path}`),
+          ...files.extra.map((path) => `Unexpected file in package: ${path}`)
+        );
+      } else {
+        warnings.push('Package has no file checksums; only the manifest is verified');
+      }
+
+      // Validate signature
+      const embedded = data.manifest.integrity?.signature;
+      if (embedded) {
+        signature = 'invalid';
+        publisherKey = getKeyFingerprint(embedded.publicKey);
+        const payload = getSignaturePayload(data.manifest.integrity.checksum);
+
+        if (!verifySignature(payload, embedded.signature, embedded.publicKey, embedded.algorithm)) {
+          errors.push('Package signature is invalid');
+        } else if (options.trustStore && !options.trustStore.isTrusted(embedded.publicKey)) {
+          signature = 'untrusted';
+          errors.push(`Package is signed by an untrusted publisher key: ${publisherKey}`);
+        } else {
+          signature = 'valid';
+        }
+      } else {
+        const policy = options.unsignedPolicy ?? 'warn';
+        if (policy === 'reject') {
+          errors.push('Package is not signed');
+        } else if (policy === 'warn') {
+          warnings.push('Package is not signed');
+        }
+      }
 
       return {
         valid: errors.length === 0,
         errors,
+        warnings,
+        signature,
+        publisherKey,
+        files,
       };
     } catch (error) {
       errors.push(
         `Failed to validate package: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
-      return { valid: false, errors };
+      const errorCode = error instanceof PackageError ? error.code : undefined;
+      return { valid: false, errors, warnings, signature, publisherKey, errorCode };
+    }
+  }
+
+  /**
+   * Digest every file in a package being built
+   */
+  private async computeFileDigests(
+    zip: JSZip,
+    algorithm: Checksum['algorithm']
+  ): Promise<Record<string, string>> {
+    const digests: Record<string, string> = {};
+
+    for (const entry of Object.values(zip.files)) {
+      if (entry.dir || entry.name === MANIFEST_PATH) continue;
+      digests[entry.name] = computeChecksum(
+        Buffer.from(await entry.async('uint8array')),
+        algorithm
+      );
+    }
+
+    return digests;
+  }
+
+  /**
+   * Compare the files of a package with its recorded digests
+   */
+  private async verifyFiles(
+    archive: PackageArchive,
+    expected: Record<string, string>,
+    algorithm: Checksum['algorithm']
+  ): Promise<FileVerification> {
+    const result: FileVerification = { verified: [], mismatched: [], extra: [], missing: [] };
+    const seen = new Set<string>();
+
+    for (const { path } of archive.files) {
+      if (path === MANIFEST_PATH) continue;
+      seen.add(path);
+
+      const digest = expected[path];
+      if (digest === undefined) {
+        result.extra.push(path);
+      } else if (computeChecksum(Buffer.from(await archive.read(path)), algorithm) !== digest) {
+        result.mismatched.push(path);
+      } else {
+        result.verified.push(path);
+      }
     }
+
+    result.missing = Object.keys(expected).filter((path) => !seen.has(path));
+    return result;
   }
 
   /**
    * Get package size information
+   * The uncompressed size is the one declared in the central directory;
+   * nothing is inflated
    */
   public async getPackageSize(blob: Blob): Promise<{
     compressed: number;
     uncompressed: number;
   }> {
-    const compressed = blob.size;
-
-    // Calculate uncompressed size by reading file contents
-    const zip = await JSZip.loadAsync(blob);
-    let uncompressed = 0;
-    
-    const promises: Promise<void>[] = [];
-    zip.forEach((_, file) => {
-      if (!file.dir) {
-        promises.push(
-          file.async('uint8array').then((content) => {
-            uncompressed += content.length;
-          })
-        );
+    const entries = readCentralDirectory(new Uint8Array(await blob.arrayBuffer()), this.limits);
+    const uncompressed = entries.reduce((total, entry) => total + entry.uncompressedSize, 0);
+
+    return { compressed: blob.size, uncompressed };
+  }
+
+  /**
+   * Open a package for reading within the configured limits
+   */
+  private openArchive(blob: Blob): Promise<PackageArchive> {
+    return PackageArchive.open(blob, this.limits);
+  }
+
+  /**
+   * Read the structured contents of an opened package
+   */
+  private async readPackageData(archive: PackageArchive): Promise<PackageData> {
+    if (!archive.has(MANIFEST_PATH)) {
+      throw new PackageError('MISSING_MANIFEST', 'Invalid package: manifest.json not found');
+    }
+    const manifest = await archive.readJson<ExtensionManifest>(MANIFEST_PATH);
+    if (!isObject(manifest)) {
+      throw new PackageError('INVALID_JSON', 'manifest.json must contain an object', MANIFEST_PATH);
+    }
+
+    // Read templates listed in the index; references must stay inside templates/
+    let templates: LessonTemplate[] | undefined;
+    if (archive.entries.some((entry) => entry.path.startsWith('templates/'))) {
+      templates = [];
+      if (archive.has(TEMPLATES_INDEX_PATH)) {
+        const index = await archive.readJson<{ templates?: unknown }>(TEMPLATES_INDEX_PATH);
+        if (!isObject(index) || !Array.isArray(index.templates)) {
+          throw new PackageError(
+            'INVALID_TEMPLATE_INDEX',
+            'templates/index.json must list templates',
+            TEMPLATES_INDEX_PATH
+          );
+        }
+
+        for (const templateRef of index.templates) {
+          if (!isObject(templateRef)) {
+            throw new PackageError(
+              'INVALID_TEMPLATE_INDEX',
+              'templates/index.json contains an invalid entry',
+              TEMPLATES_INDEX_PATH
+            );
+          }
+          const templatePath = resolvePackagePath('templates', templateRef.file);
+          if (archive.has(templatePath)) {
+            templates.push(await archive.readJson<LessonTemplate>(templatePath));
+          }
+        }
       }
-    });
-    
-    await Promise.all(promises);
+    }
+
+    // Read scripts if present
+    let scripts: PackageScript[] | undefined;
+    const scriptFiles = archive.files.filter((entry) => entry.path.startsWith('scripts/'));
+    if (archive.entries.some((entry) => entry.path.startsWith('scripts/'))) {
+      scripts = [];
+      for (const { path } of scriptFiles) {
+        scripts.push({
+          name: path.slice('scripts/'.length),
+          content: await archive.readText(path),
+        });
+      }
+    }
+
+    // Read schemas if present
+    let schemas: PackageSchema[] | undefined;
+    const schemaFiles = archive.files.filter((entry) => entry.path.startsWith('schemas/'));
+    if (archive.entries.some((entry) => entry.path.startsWith('schemas/'))) {
+      schemas = [];
+      for (const { path } of schemaFiles) {
+        schemas.push({
+          name: path.slice('schemas/'.length),
+          content: await archive.readJson<object>(path),
+        });
+      }
+    }
+
+    // Read placeholders if present
+    let placeholders: PackagePlaceholder[] | undefined;
+    const placeholderFiles = archive.files.filter((entry) =>
+      entry.path.startsWith(`${PLACEHOLDERS_DIR}/`)
+    );
+    if (placeholderFiles.length > 0) {
+      placeholders = [];
+      for (const { path } of placeholderFiles) {
+        placeholders.push({
+          name: path.slice(`${PLACEHOLDERS_DIR}/`.length),
+          content: await archive.read(path),
+        });
+      }
+    }
+
+    // Read documentation
+    const documentation: PackageDocumentation = {};
+    if (archive.has('README.md')) {
+      documentation.readme = await archive.readText('README.md');
+    }
+    if (archive.has('CHANGELOG.md')) {
+      documentation.changelog = await archive.readText('CHANGELOG.md');
+    }
+    if (archive.has('LICENSE')) {
+      documentation.license = await archive.readText('LICENSE');
+    }
 
-    return { compressed, uncompressed };
+    return {
+      manifest,
+      templates,
+      scripts,
+      schemas,
+      documentation,
+      placeholders,
+    };
   }
 }
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
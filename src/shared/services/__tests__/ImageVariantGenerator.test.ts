@@ -0,0 +1,104 @@
+/**
+ * Tests for thumbnail and preview generation of image resources
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { ImageVariantGenerator } from '../ImageVariantGenerator';
+import type { ImageRasterizer } from '../ImageVariantGenerator';
+import type { ResourceDimensions, ResourceReference } from '@/shared/types';
+
+const CDN = 'https://cdn.example.com/pack/images';
+
+/**
+ * Rasterizer that "encodes" an image as its size, e.g. `256x192`
+ */
+function createRasterizer(dimensions: ResourceDimensions) {
+  return {
+    measure: vi.fn(async () => dimensions),
+    resize: vi.fn(
+      async (_data: Blob, size: ResourceDimensions, type: string) =>
+        new Blob([`${size.width}x${size.height}`], { type })
+    ),
+  } satisfies ImageRasterizer;
+}
+
+function image(type = 'image/png'): ResourceReference {
+  return {
+    id: 'img-dna',
+    filename: 'dna.png',
+    url: `${CDN}/dna.png`,
+    type,
+    size: 125000,
+    checksum: { algorithm: 'sha256', value: 'abc' },
+  };
+}
+
+describe('ImageVariantGenerator', () => {
+  it('should generate WebP variants and fill in dimensions', async () => {
+    const rasterizer = createRasterizer({ width: 2048, height: 1536 });
+    const generator = new ImageVariantGenerator(rasterizer, { quality: 0.7 });
+
+    const { resource, files } = await generator.generate(image(), new Blob(['original']));
+
+    expect(resource.dimensions).toEqual({ width: 2048, height: 1536 });
+    expect(resource.variants).toEqual({
+      thumbnail: `${CDN}/dna.thumbnail.webp`,
+      preview: `${CDN}/dna.preview.webp`,
+    });
+    expect(resource.variantDetails?.thumbnail).toEqual({
+      url: `${CDN}/dna.thumbnail.webp`,
+      type: 'image/webp',
+      size: 7,
+      checksum: {
+        algorithm: 'sha256',
+        value: createHash('sha256').update('256x192').digest('hex'),
+      },
+      dimensions: { width: 256, height: 192 },
+    });
+    expect(resource.variantDetails?.preview?.dimensions).toEqual({ width: 1024, height: 768 });
+    expect(files.map((file) => file.filename)).toEqual([
+      'dna.thumbnail.webp',
+      'dna.preview.webp',
+    ]);
+    expect(rasterizer.resize).toHaveBeenCalledWith(
+      expect.any(Blob),
+      { width: 256, height: 192 },
+      'image/webp',
+      0.7
+    );
+  });
+
+  it('should not generate variants that are not smaller than the original', async () => {
+    const generator = new ImageVariantGenerator(createRasterizer({ width: 300, height: 600 }));
+
+    const { resource, files } = await generator.generate(image(), new Blob(['original']));
+
+    expect(files.map((file) => file.name)).toEqual(['thumbnail']);
+    expect(resource.variantDetails?.thumbnail?.dimensions).toEqual({ width: 128, height: 256 });
+    expect(resource.variants?.preview).toBeUndefined();
+  });
+
+  it('should use configured sizes', async () => {
+    const generator = new ImageVariantGenerator(createRasterizer({ width: 1000, height: 500 }), {
+      sizes: { thumbnail: 100 },
+    });
+
+    const { resource } = await generator.generate(image(), new Blob(['original']));
+
+    expect(resource.variantDetails?.thumbnail?.dimensions).toEqual({ width: 100, height: 50 });
+    expect(resource.variantDetails?.preview).toBeUndefined();
+  });
+
+  it('should leave other resource types unchanged', async () => {
+    const rasterizer = createRasterizer({ width: 2048, height: 1536 });
+    const generator = new ImageVariantGenerator(rasterizer);
+    const svg = image('image/svg+xml');
+
+    const { resource, files } = await generator.generate(svg, new Blob(['<svg/>']));
+
+    expect(resource).toBe(svg);
+    expect(files).toEqual([]);
+    expect(rasterizer.measure).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,485 @@
+/**
+ * Tests for package integrity, signing and verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import JSZip from 'jszip';
+import { ManifestGenerator } from '../ManifestGenerator';
+import { PackageBuilder } from '../PackageBuilder';
+import { getKeyFingerprint } from '@/shared/utils';
+import type { ExtensionManifest } from '@/shared/types';
+
+const generator = new ManifestGenerator();
+const builder = new PackageBuilder();
+
+function createKeyPair(type: 'rsa' | 'ec') {
+  const { privateKey, publicKey } =
+    type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+  };
+}
+
+function createManifest() {
+  return generator.createTemplatePackManifest(
+    'com.example.signed',
+    'Signed Pack',
+    'Author',
+    'author@example.com'
+  );
+}
+
+function trusting(...publicKeys: string[]) {
+  const fingerprints = publicKeys.map(getKeyFingerprint);
+  return { isTrusted: (key: string) => fingerprints.includes(getKeyFingerprint(key)) };
+}
+
+describe('PackageBuilder signing', () => {
+  it.each(['rsa', 'ec'] as const)('should sign and verify with %s keys', async (type) => {
+    const keys = createKeyPair(type);
+    const blob = await builder.buildPackage(
+      { manifest: createManifest() },
+      { signingKey: keys.privateKey }
+    );
+
+    const result = await builder.validatePackage(blob, { trustStore: trusting(keys.publicKey) });
+
+    expect(result).toMatchObject({ valid: true, signature: 'valid', errors: [] });
+    expect(result.publisherKey).toBe(getKeyFingerprint(keys.publicKey));
+
+    const { manifest } = await builder.extractPackage(blob);
+    expect(manifest.integrity.signature?.algorithm).toBe(
+      type === 'rsa' ? 'RSA-SHA256' : 'ECDSA-SHA256'
+    );
+  });
+
+  it('should reject packages signed by an untrusted key', async () => {
+    const publisher = createKeyPair('ec');
+    const other = createKeyPair('ec');
+    const blob = await builder.buildPackage(
+      { manifest: createManifest() },
+      { signingKey: publisher.privateKey }
+    );
+
+    const result = await builder.validatePackage(blob, { trustStore: trusting(other.publicKey) });
+
+    expect(result.valid).toBe(false);
+    expect(result.signature).toBe('untrusted');
+  });
+
+  it('should detect a signature that does not match the manifest', async () => {
+    const keys = createKeyPair('ec');
+    const blob = await builder.buildPackage(
+      { manifest: createManifest() },
+      { signingKey: keys.privateKey }
+    );
+
+    // Re-sign the content checksum while keeping the original signature
+    const zip = await JSZip.loadAsync(blob);
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    manifest.metadata.name = 'Tampered';
+    const resigned = generator.updateManifest(manifest, {});
+    resigned.integrity.signature = manifest.integrity.signature;
+    zip.file('manifest.json', JSON.stringify(resigned));
+
+    const result = await builder.validatePackage(await zip.generateAsync({ type: 'blob' }));
+
+    expect(result.valid).toBe(false);
+    expect(result.signature).toBe('invalid');
+  });
+
+  it.each([
+    ['reject', false, [], ['Package is not signed']],
+    ['warn', true, ['Package is not signed'], []],
+    ['allow', true, [], []],
+  ] as const)(
+    'should apply the %s policy to unsigned packages',
+    async (policy, valid, warnings, errors) => {
+      const blob = await builder.buildPackage({ manifest: createManifest() });
+
+      const result = await builder.validatePackage(blob, { unsignedPolicy: policy });
+
+      expect(result).toMatchObject({ valid, warnings, errors, signature: 'unsigned' });
+    }
+  );
+});
+
+describe('PackageBuilder file checksums', () => {
+  async function buildPack(): Promise<JSZip> {
+    const blob = await builder.buildPackage({
+      manifest: createManifest(),
+      scripts: [{ name: 'install.js', content: 'exports.onInstall = () => {};' }],
+      documentation: { readme: '# Pack', license: 'MIT' },
+    });
+    return JSZip.loadAsync(blob);
+  }
+
+  async function validate(zip: JSZip) {
+    return builder.validatePackage(await zip.generateAsync({ type: 'blob' }));
+  }
+
+  it('should record a digest for every packaged file', async () => {
+    const zip = await buildPack();
+    const { integrity } = JSON.parse(await zip.file('manifest.json')!.async('string'));
+
+    expect(Object.keys(integrity.checksum.files).sort()).toEqual([
+      'LICENSE',
+      'README.md',
+      'scripts/install.js',
+    ]);
+    expect(integrity.checksum.resources).toMatch(/^[0-9a-f]{64}$/);
+
+    const result = await validate(zip);
+    expect(result.valid).toBe(true);
+    expect(result.files?.verified).toHaveLength(3);
+  });
+
+  it('should use sha512 when requested', async () => {
+    const blob = await builder.buildPackage(
+      { manifest: createManifest(), documentation: { readme: '# Pack' } },
+      { digestAlgorithm: 'sha512' }
+    );
+    const { manifest } = await builder.extractPackage(blob);
+
+    expect(manifest.integrity.checksum.algorithm).toBe('sha512');
+    expect(manifest.integrity.checksum.files?.['README.md']).toMatch(/^[0-9a-f]{128}$/);
+    expect((await builder.validatePackage(blob)).valid).toBe(true);
+  });
+
+  it('should detect altered files', async () => {
+    const zip = await buildPack();
+    zip.file('scripts/install.js', 'exports.onInstall = () => { steal(); };');
+
+    const result = await validate(zip);
+
+    expect(result.valid).toBe(false);
+    expect(result.files?.mismatched).toEqual(['scripts/install.js']);
+    expect(result.errors).toEqual(['File checksum mismatch: scripts/install.js']);
+  });
+
+  it('should report extra and missing files separately', async () => {
+    const zip = await buildPack();
+    zip.remove('LICENSE');
+    zip.file('scripts/extra.js', 'void 0;');
+
+    const result = await validate(zip);
+
+    expect(result.files?.missing).toEqual(['LICENSE']);
+    expect(result.files?.extra).toEqual(['scripts/extra.js']);
+    expect(result.errors).toEqual([
+      'File missing from package: LICENSE',
+      'Unexpected file in package: scripts/extra.js',
+    ]);
+  });
+
+  it('should detect an edited digest list', async () => {
+    const zip = await buildPack();
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    delete manifest.integrity.checksum.files.LICENSE;
+    zip.file('manifest.json', JSON.stringify(manifest));
+
+    const result = await validate(zip);
+
+    expect(result.errors).toContain('Manifest checksum mismatch - possible tampering');
+  });
+});
+
+describe('PackageBuilder canonical checksums', () => {
+  /** Rebuild an object with its keys in reverse order at every level */
+  function reorderKeys(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(reorderKeys);
+    if (value === null || typeof value !== 'object') return value;
+    return Object.fromEntries(
+      Object.entries(value)
+        .reverse()
+        .map(([key, member]) => [key, reorderKeys(member)])
+    );
+  }
+
+  function createUnicodeManifest(): ExtensionManifest {
+    const base = createManifest();
+    return generator.createManifest({
+      ...base,
+      metadata: {
+        ...base.metadata,
+        name: 'Matem\u00e1tica',
+        description: 'S\u00e9rie \u2013 b\u00e1sica',
+      },
+    });
+  }
+
+  async function repack(
+    edit: (manifest: ExtensionManifest) => void,
+    format: (manifest: unknown) => string = (manifest) => JSON.stringify(manifest, null, 2)
+  ) {
+    const blob = await builder.buildPackage({
+      manifest: createUnicodeManifest(),
+      documentation: { readme: '# Pack' },
+    });
+    const zip = await JSZip.loadAsync(blob);
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    edit(manifest);
+    zip.file('manifest.json', format(manifest));
+    return builder.validatePackage(await zip.generateAsync({ type: 'blob' }));
+  }
+
+  it('should validate a manifest that was created, packed and extracted', async () => {
+    const blob = await builder.buildPackage({ manifest: createUnicodeManifest() });
+    const { manifest } = await builder.extractPackage(blob);
+
+    expect((await builder.validatePackage(blob)).valid).toBe(true);
+    expect(manifest.metadata.name).toBe('Matem\u00e1tica');
+  });
+
+  it.each([
+    ['compact formatting', (manifest: unknown) => JSON.stringify(manifest)],
+    ['tab indentation', (manifest: unknown) => JSON.stringify(manifest, null, '\t')],
+    ['reordered keys', (manifest: unknown) => JSON.stringify(reorderKeys(manifest), null, 4)],
+    [
+      'escaped Unicode',
+      (manifest: unknown) =>
+        JSON.stringify(manifest).replace(
+          /[\u007f-\uffff]/g,
+          (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+        ),
+    ],
+  ])('should still validate after %s', async (_name, format) => {
+    const result = await repack(() => undefined, format);
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should accept an equivalent Unicode composition', async () => {
+    const blob = await builder.buildPackage({ manifest: createUnicodeManifest() });
+    const zip = await JSZip.loadAsync(blob);
+    const text = await zip.file('manifest.json')!.async('string');
+    zip.file('manifest.json', text.replace('Matem\u00e1tica', 'Matema\u0301tica'));
+
+    const result = await builder.validatePackage(await zip.generateAsync({ type: 'blob' }));
+
+    expect(result.valid).toBe(true);
+  });
+
+  it.each([
+    ['renamed', (m: ExtensionManifest) => void (m.metadata.name = 'Other')],
+    ['version bumped', (m: ExtensionManifest) => void (m.metadata.version = '1.0.1')],
+    [
+      'permission added',
+      (m: ExtensionManifest) => void m.permissions.required.push('network-access'),
+    ],
+    ['array reordered', (m: ExtensionManifest) => void m.permissions.required.reverse()],
+    ['number changed', (m: ExtensionManifest) => void (m.metadata_extended!.size.package = 1)],
+    ['number as string', (m: ExtensionManifest) => {
+      (m.metadata_extended!.size as unknown as Record<string, unknown>).package = '0';
+    }],
+    [
+      'field removed',
+      (m: ExtensionManifest) => void delete (m as Partial<ExtensionManifest>).category,
+    ],
+    [
+      'field added',
+      (m: ExtensionManifest) => void ((m as unknown as Record<string, unknown>).extra = null),
+    ],
+  ])('should fail after a semantic edit: %s', async (_name, edit) => {
+    const result = await repack(edit);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Manifest checksum mismatch - possible tampering');
+  });
+});
+
+describe('PackageBuilder safe extraction', () => {
+  async function toBlob(zip: JSZip, platform: 'DOS' | 'UNIX' = 'DOS'): Promise<Blob> {
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', platform });
+  }
+
+  async function packWith(...files: Array<[string, string | Uint8Array]>): Promise<JSZip> {
+    const zip = await JSZip.loadAsync(
+      await builder.buildPackage({ manifest: createManifest(), documentation: { readme: '# R' } })
+    );
+    for (const [path, content] of files) {
+      zip.file(path, content);
+    }
+    return zip;
+  }
+
+  /** Overwrite the uncompressed size the central directory records for an entry */
+  function forgeDeclaredSize(bytes: Uint8Array, path: string, size: number): void {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const name = new TextEncoder().encode(path);
+    for (let offset = 0; offset < bytes.length - 46; offset++) {
+      if (
+        view.getUint32(offset, true) === 0x02014b50 &&
+        name.every((byte, index) => bytes[offset + 46 + index] === byte)
+      ) {
+        view.setUint32(offset + 24, size, true);
+        return;
+      }
+    }
+    throw new Error(`No central directory entry for ${path}`);
+  }
+
+  async function expectRefused(blob: Blob, code: string, limits?: object) {
+    const packageBuilder = limits ? new PackageBuilder({ limits }) : builder;
+    await expect(packageBuilder.extractPackage(blob)).rejects.toMatchObject({ code });
+
+    const result = await packageBuilder.validatePackage(blob);
+    expect(result.valid).toBe(false);
+    expect(result.errorCode).toBe(code);
+  }
+
+  it.each([
+    ['parent references', '../evil.js'],
+    ['nested parent references', 'scripts/../../evil.js'],
+    ['absolute paths', '/etc/evil.js'],
+    ['drive letters', 'C:/evil.js'],
+    ['backslashes', 'scripts\\evil.js'],
+  ])('should reject %s', async (_name, path) => {
+    await expectRefused(await toBlob(await packWith([path, 'void 0;'])), 'UNSAFE_PATH');
+  });
+
+  it('should reject symbolic links', async () => {
+    const zip = await packWith();
+    zip.file('scripts/link.js', '/etc/passwd', { unixPermissions: 0o120777 });
+
+    await expectRefused(await toBlob(zip, 'UNIX'), 'SYMLINK_ENTRY');
+  });
+
+  it('should reject duplicate names, including case variants', async () => {
+    await expectRefused(
+      await toBlob(await packWith(['scripts/a.js', '1'], ['scripts/A.js', '2'])),
+      'DUPLICATE_ENTRY'
+    );
+
+    // Rename one entry to an exact duplicate of another
+    const bytes = await (await packWith(['scripts/a.js', '1'], ['scripts/b.js', '2'])).generateAsync(
+      { type: 'uint8array' }
+    );
+    const renamed = Buffer.from(
+      Buffer.from(bytes).toString('latin1').split('scripts/b.js').join('scripts/a.js'),
+      'latin1'
+    );
+    await expectRefused(new Blob([renamed]), 'DUPLICATE_ENTRY');
+  });
+
+  it('should limit the number of entries', async () => {
+    const blob = await toBlob(await packWith(['a.txt', 'a'], ['b.txt', 'b'], ['c.txt', 'c']));
+
+    await expectRefused(blob, 'TOO_MANY_ENTRIES', { maxEntries: 3 });
+  });
+
+  it('should limit per-file and total uncompressed size', async () => {
+    const blob = await toBlob(
+      await packWith(['a.txt', 'a'.repeat(600)], ['b.txt', 'b'.repeat(600)])
+    );
+
+    await expectRefused(blob, 'ENTRY_TOO_LARGE', { maxFileSize: 500 });
+    await expectRefused(blob, 'PACKAGE_TOO_LARGE', { maxTotalSize: 1500 });
+  });
+
+  it('should refuse highly compressed entries', async () => {
+    const blob = await toBlob(await packWith(['bomb.bin', new Uint8Array(4 * 1024 * 1024)]));
+
+    await expectRefused(blob, 'COMPRESSION_RATIO_EXCEEDED');
+  });
+
+  it('should count inflated bytes when the declared size is forged', async () => {
+    const bytes = await (await packWith(['big.txt', 'x'.repeat(5000)])).generateAsync({
+      type: 'uint8array',
+      compression: 'DEFLATE',
+    });
+    forgeDeclaredSize(bytes, 'big.txt', 10);
+    const blob = new Blob([Buffer.from(bytes)]);
+    const limited = new PackageBuilder({ limits: { maxFileSize: 2000 } });
+
+    await expect(limited.getPackageSize(blob)).resolves.toBeDefined();
+    await expect(limited.readFiles(blob)).rejects.toMatchObject({
+      code: 'ENTRY_TOO_LARGE',
+      path: 'big.txt',
+    });
+  });
+
+  it('should keep template references inside templates/', async () => {
+    const zip = await packWith([
+      'templates/index.json',
+      JSON.stringify({ templates: [{ id: 'x', file: '../manifest.json' }] }),
+    ]);
+
+    await expectRefused(await toBlob(zip), 'UNSAFE_PATH');
+  });
+
+  it.each([
+    ['a malformed template index', 'templates/index.json', '{"templates":', 'INVALID_JSON'],
+    ['a template index without a list', 'templates/index.json', '{}', 'INVALID_TEMPLATE_INDEX'],
+    ['a malformed schema', 'schemas/bad.json', '{ nope }', 'INVALID_JSON'],
+    ['a manifest that is not an object', 'manifest.json', '[]', 'INVALID_JSON'],
+  ])('should report %s', async (_name, path, content, code) => {
+    await expectRefused(await toBlob(await packWith([path, content])), code);
+  });
+
+  it('should report a missing manifest', async () => {
+    const zip = await packWith();
+    zip.remove('manifest.json');
+
+    await expectRefused(await toBlob(zip), 'MISSING_MANIFEST');
+  });
+
+  it('should report sizes without inflating entries', async () => {
+    const blob = await toBlob(await packWith(['data.txt', 'd'.repeat(1000)]));
+    const files = await builder.readFiles(blob);
+
+    const size = await builder.getPackageSize(blob);
+
+    expect(size.compressed).toBe(blob.size);
+    expect(size.uncompressed).toBe(files.reduce((total, file) => total + file.content.length, 0));
+  });
+});
+
+describe('PackageBuilder placeholders', () => {
+  const poster = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+  function createPlaceholderManifest(placeholders: Record<string, string>): ExtensionManifest {
+    const manifest = createManifest();
+    return { ...manifest, resources: { ...manifest.resources, placeholders } };
+  }
+
+  it('should package and extract placeholder files', async () => {
+    const blob = await builder.buildPackage({
+      manifest: createPlaceholderManifest({ 'video/*': 'poster.png' }),
+      placeholders: [{ name: 'poster.png', content: poster }],
+    });
+
+    const data = await builder.extractPackage(blob);
+
+    expect(data.placeholders).toEqual([{ name: 'poster.png', content: poster }]);
+    expect((await builder.validatePackage(blob)).valid).toBe(true);
+  });
+
+  it('should report placeholders named by the manifest that are not packaged', async () => {
+    const blob = await builder.buildPackage({
+      manifest: createPlaceholderManifest({ 'audio/*': 'silence.mp3' }),
+    });
+
+    const result = await builder.validatePackage(blob);
+
+    expect(result.errors).toEqual([
+      'Placeholder for audio/* missing from package: placeholders/silence.mp3',
+    ]);
+  });
+
+  it('should refuse placeholder paths outside the placeholders folder', async () => {
+    const blob = await builder.buildPackage({
+      manifest: createPlaceholderManifest({ '*': '../manifest.json' }),
+    });
+
+    const result = await builder.validatePackage(blob);
+
+    expect(result.valid).toBe(false);
+    expect(result.errorCode).toBe('UNSAFE_PATH');
+  });
+});
@@ -4,7 +4,52 @@
  */
 
 export { PackageBuilder } from './PackageBuilder';
-export type { PackageData, PackageScript, PackageSchema, PackageDocumentation } from './PackageBuilder';
+export type {
+  PackageData,
+  PackageScript,
+  PackagePlaceholder,
+  PackageSchema,
+  PackageDocumentation,
+  PackageFile,
+  PackageBuilderOptions,
+  BuildOptions,
+  UnsignedPackagePolicy,
+  SignatureStatus,
+  PackageVerificationOptions,
+  PackageValidation,
+  FileVerification,
+} from './PackageBuilder';
 
-export { ManifestGenerator } from './ManifestGenerator';
+export {
+  PackageArchive,
+  PackageError,
+  DEFAULT_PACKAGE_LIMITS,
+  assertSafePath,
+  readCentralDirectory,
+  resolvePackagePath,
+} from './PackageArchive';
+export type { PackageLimits, PackageEntry } from './PackageArchive';
+
+export {
+  ManifestGenerator,
+  getChecksumPayload,
+  computeFilesDigest,
+  getSignaturePayload,
+  getResourceManifestChecksum,
+} from './ManifestGenerator';
 export type { ManifestOptions } from './ManifestGenerator';
+
+export {
+  ImageVariantGenerator,
+  DEFAULT_VARIANT_SIZES,
+  VARIANT_TYPE,
+  createCanvasRasterizer,
+  scaleToFit,
+} from './ImageVariantGenerator';
+export type {
+  ImageRasterizer,
+  ImageVariantFile,
+  ImageVariantOptions,
+  ImageVariantResult,
+  ImageVariantSizes,
+} from './ImageVariantGenerator';
@@ -2,7 +2,7 @@
  * Extension Domain Types
  */
 
-import type { ExtensionManifest } from './manifest.types';
+import type { Dependency, ExtensionManifest, Permission } from './manifest.types';
 
 export type ExtensionStatus = 
   | 'installed' 
@@ -21,10 +21,133 @@ export interface Extension {
   error?: string;
 }
 
+export type InstallErrorCode =
+  | 'PACKAGE_READ_FAILED'
+  | 'PACKAGE_INVALID'
+  | 'MANIFEST_INVALID'
+  | 'ALREADY_INSTALLED'
+  | 'DEPENDENCIES_MISSING'
+  | 'DEPENDENCY_CONFLICT'
+  | 'DEPENDENCY_CYCLE'
+  | 'HAS_DEPENDENTS'
+  | 'EXTRACTION_FAILED'
+  | 'REGISTRATION_FAILED'
+  | 'ROLLED_BACK'
+  | 'NOT_INSTALLED'
+  | 'DOWNGRADE_REFUSED'
+  | 'DEPENDENT_CONFLICT'
+  | 'VERSION_NOT_FOUND'
+  | 'PERMISSION_DENIED'
+  | 'SIGNATURE_INVALID'
+  | 'UNTRUSTED_PUBLISHER'
+  | 'UNSIGNED_PACKAGE'
+  | PackageErrorCode;
+
+/**
+ * Reasons a .ldip archive is refused before or during extraction
+ */
+export type PackageErrorCode =
+  | 'MALFORMED_ARCHIVE'
+  | 'TOO_MANY_ENTRIES'
+  | 'ENTRY_TOO_LARGE'
+  | 'PACKAGE_TOO_LARGE'
+  | 'COMPRESSION_RATIO_EXCEEDED'
+  | 'UNSAFE_PATH'
+  | 'SYMLINK_ENTRY'
+  | 'DUPLICATE_ENTRY'
+  | 'MISSING_MANIFEST'
+  | 'INVALID_JSON'
+  | 'INVALID_TEMPLATE_INDEX';
+
 export interface InstallResult {
   success: boolean;
   extensionId?: string;
   error?: string;
+  errorCode?: InstallErrorCode;
+  details?: string[];
+  warnings?: string[];
+  missingDependencies?: Dependency[];
+  rollback?: RollbackRecord;
+}
+
+export interface BatchInstallResult {
+  success: boolean;
+  /** Extension IDs in the order they were (or would have been) installed */
+  order: string[];
+  results: InstallResult[];
+  error?: string;
+  details?: string[];
+}
+
+export type TransactionOperation = 'install' | 'upgrade' | 'restore' | 'uninstall';
+
+export type LifecycleHook = 'onInstall' | 'onEnable' | 'onDisable' | 'onUninstall';
+
+/**
+ * A previously installed version kept on disk for rollback
+ */
+export interface VersionHistoryEntry {
+  version: string;
+  manifest: ExtensionManifest;
+  installPath: string;
+  installedAt: Date;
+  replacedAt: Date;
+}
+
+/**
+ * Record of an operation that failed and was rolled back
+ */
+export interface RollbackRecord {
+  id: string;
+  extensionId: string;
+  operation: TransactionOperation;
+  failedStep: string;
+  reason: string;
+  timestamp: string;
+  restoredVersion?: string;
+  complete: boolean;
+  undoErrors?: string[];
+}
+
+/**
+ * A permission the user has granted to an extension
+ * `install` grants cover required permissions, `consent` grants were
+ * requested lazily at runtime
+ */
+export interface PermissionGrant {
+  permission: Permission;
+  source: 'install' | 'consent';
+  grantedAt: Date;
+}
+
+export type PermissionAuditAction = 'check' | 'request' | 'grant' | 'revoke';
+
+/**
+ * Audit log entry for a permission check, request or change
+ */
+export interface PermissionAuditEntry {
+  timestamp: string;
+  extensionId: string;
+  permission: Permission;
+  action: PermissionAuditAction;
+  allowed: boolean;
+  /** API that triggered the check, when known */
+  api?: string;
+  reason?: string;
+}
+
+/**
+ * Permissions presented to the user for a consent decision
+ */
+export interface ConsentRequest {
+  extensionId: string;
+  extensionName: string;
+  permissions: Permission[];
+  /** Subset of `permissions` that are restricted */
+  restricted: Permission[];
+  /** `install` for required permissions, `runtime` for lazy optional ones */
+  stage: 'install' | 'runtime';
+  api?: string;
 }
 
 export interface ExtensionHealth {
@@ -56,6 +179,8 @@ export interface ResourceReference {
     thumbnail?: string;
     preview?: string;
   };
+  /** Pixel size and checksum of each variant, for picking and verifying one */
+  variantDetails?: Partial<Record<ResourceVariantName, ResourceVariant>>;
 }
 
 export interface ResourceDimensions {
@@ -63,6 +188,22 @@ export interface ResourceDimensions {
   height: number;
 }
 
+export type ResourceVariantName = 'thumbnail' | 'preview';
+
+/**
+ * A downscaled copy of an image resource
+ */
+export interface ResourceVariant {
+  url: string;
+  type: string;
+  size: number;
+  checksum: {
+    algorithm: string;
+    value: string;
+  };
+  dimensions: ResourceDimensions;
+}
+
 export interface ImageResource extends ResourceReference {
   type: 'image/png' | 'image/jpeg' | 'image/webp' | 'image/svg+xml';
   dimensions?: ResourceDimensions;
@@ -5,3 +5,5 @@
 
 export * from './manifest.types';
 export * from './extension.types';
+export * from './package.types';
+export * from './ipc.types';
@@ -0,0 +1,195 @@
+/**
+ * IPC Types
+ * Requests, responses and pushed events of the channels behind
+ * `window.studioAPI`, shared by the preload script and the main-process
+ * handlers; the runtime side of the contract is `@/shared/ipc/contract`
+ */
+
+import type {
+  PackageErrorCode,
+  ResourceReference,
+  ResourceVariantName,
+} from './extension.types';
+import type { ExtensionManifest, ValidationResult } from './manifest.types';
+import type { PackageData, PackageValidation } from './package.types';
+
+export interface FileFilter {
+  name: string;
+  /** Extensions without the dot, e.g. `ldip` */
+  extensions: string[];
+}
+
+export interface SelectFileRequest {
+  title?: string;
+  filters?: FileFilter[];
+}
+
+export interface SelectFolderRequest {
+  title?: string;
+}
+
+export interface SaveFileRequest {
+  title?: string;
+  defaultPath?: string;
+  filters?: FileFilter[];
+  /** Text is written as UTF-8 */
+  content: string | Uint8Array;
+}
+
+export interface WriteFileRequest {
+  /** File picked in a save dialog, e.g. to save it again */
+  path: string;
+  /** Text is written as UTF-8 */
+  content: string | Uint8Array;
+}
+
+export interface LoadedExtension {
+  path: string;
+  data: PackageData;
+}
+
+export interface SaveExtensionRequest {
+  /** Path of the `.ldip` working copy */
+  path: string;
+  data: PackageData;
+}
+
+export interface SavedExtension {
+  path: string;
+  size: number;
+  manifest: ExtensionManifest;
+}
+
+export interface UploadResourceRequest {
+  /** Local file to upload */
+  path: string;
+  /** Pre-signed URL the file is PUT to; the resource URL drops its query string */
+  uploadUrl: string;
+  /** MIME type of the file */
+  type: string;
+  /** Resource ID; defaults to the file name */
+  id?: string;
+  /**
+   * Pre-signed URLs the thumbnail and preview generated from an image are
+   * PUT to; variants without one are not uploaded
+   */
+  variantUploadUrls?: Partial<Record<ResourceVariantName, string>>;
+}
+
+export interface BuildPackageRequest {
+  data: PackageData;
+  /** Where to write the `.ldip`; a save dialog asks when unset */
+  outputPath?: string;
+  /** PEM private key file used to sign the package */
+  signingKeyPath?: string;
+  digestAlgorithm?: 'sha256' | 'sha512';
+}
+
+export interface BuiltPackage {
+  path: string;
+  size: number;
+  /** SHA-256 of the package file */
+  checksum: string;
+  validation: PackageValidation;
+}
+
+/**
+ * Channels exposed to the renderer, with the payload each one accepts and
+ * the data it resolves to; `null` means the user cancelled a dialog
+ */
+export interface StudioChannels {
+  'dialog:selectFile': { request: SelectFileRequest | undefined; response: string | null };
+  'dialog:selectFolder': { request: SelectFolderRequest | undefined; response: string | null };
+  'dialog:saveFile': { request: SaveFileRequest; response: string | null };
+  'file:write': { request: WriteFileRequest; response: string };
+  'extension:load': { request: string; response: LoadedExtension };
+  'extension:save': { request: SaveExtensionRequest; response: SavedExtension };
+  'extension:validateManifest': { request: unknown; response: ValidationResult };
+  'cloud:uploadResource': { request: UploadResourceRequest; response: ResourceReference };
+  'package:build': { request: BuildPackageRequest; response: BuiltPackage | null };
+}
+
+export type StudioChannel = keyof StudioChannels;
+
+/**
+ * What the preload script sends on an invoke channel
+ */
+export interface IpcEnvelope<C extends StudioChannel = StudioChannel> {
+  /** Contract version the sender was built against */
+  version: number;
+  payload: IpcRequest<C>;
+}
+
+export type IpcRequest<C extends StudioChannel> = StudioChannels[C]['request'];
+
+export type IpcResponse<C extends StudioChannel> = StudioChannels[C]['response'];
+
+export type IpcErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'CONTRACT_MISMATCH'
+  | 'NOT_FOUND'
+  | 'PATH_NOT_ALLOWED'
+  | 'IO_ERROR'
+  | 'MANIFEST_INVALID'
+  | 'UPLOAD_FAILED'
+  | 'INTERNAL_ERROR'
+  | PackageErrorCode;
+
+/**
+ * Failure returned to the renderer instead of a rejected promise
+ */
+export interface IpcError {
+  code: IpcErrorCode;
+  message: string;
+  details?: string[];
+}
+
+export type IpcResult<T> = { ok: true; data: T } | { ok: false; error: IpcError };
+
+export type BuildStage = 'packaging' | 'writing' | 'verifying' | 'done';
+
+export interface BuildProgressEvent {
+  path: string;
+  stage: BuildStage;
+}
+
+export interface UploadProgressEvent {
+  /** Local file being uploaded */
+  path: string;
+  loaded: number;
+  total: number;
+}
+
+export type RegistryChange =
+  | 'installed'
+  | 'updated'
+  | 'restored'
+  | 'uninstalled'
+  | 'enabled'
+  | 'disabled';
+
+export interface RegistryChangedEvent {
+  extensionId: string;
+  change: RegistryChange;
+  /** Version active after the change; absent once uninstalled */
+  version?: string;
+}
+
+/**
+ * Events the main process pushes to the renderer, by channel; these are the
+ * only channels the renderer can subscribe to
+ */
+export interface StudioEvents {
+  'package:buildProgress': BuildProgressEvent;
+  'cloud:uploadProgress': UploadProgressEvent;
+  'registry:changed': RegistryChangedEvent;
+}
+
+export type StudioEventChannel = keyof StudioEvents;
+
+export type StudioEventListener<E extends StudioEventChannel> = (payload: StudioEvents[E]) => void;
+
+/**
+ * Ends the subscription it was returned for; calling it again does nothing
+ */
+export type Unsubscribe = () => void;
@@ -70,6 +70,11 @@ export interface Resources {
   baseUrl: string;
   manifest: ResourceManifestConfig;
   cdn?: CDNConfig;
+  /**
+   * Placeholders shipped in the package's `placeholders/` folder, keyed by
+   * MIME type (`video/mp4`), type family (`video/*`) or `*`
+   */
+  placeholders?: Record<string, string>;
 }
 
 export interface Permissions {
@@ -122,7 +127,10 @@ export interface Monitoring {
 export interface Checksum {
   algorithm: 'sha256' | 'sha512';
   manifest: string;
+  /** Digest over the whole file list */
   resources?: string;
+  /** Digest of every packaged file except manifest.json, by path */
+  files?: Record<string, string>;
 }
 
 export interface Signature {
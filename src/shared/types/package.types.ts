@@ -0,0 +1,67 @@
+/**
+ * Package Types
+ * Contents of a `.ldip` package and the result of validating one; shared by
+ * the package builder, the extension registry and the IPC contract
+ */
+
+import type { LessonTemplate, PackageErrorCode } from './extension.types';
+import type { ExtensionManifest } from './manifest.types';
+
+export interface PackageData {
+  manifest: ExtensionManifest;
+  templates?: LessonTemplate[];
+  scripts?: PackageScript[];
+  schemas?: PackageSchema[];
+  documentation?: PackageDocumentation;
+  /** Fallbacks for cloud resources, named by `manifest.resources.placeholders` */
+  placeholders?: PackagePlaceholder[];
+}
+
+export interface PackageScript {
+  name: string;
+  content: string;
+}
+
+export interface PackageSchema {
+  name: string;
+  content: object;
+}
+
+export interface PackagePlaceholder {
+  name: string;
+  content: Uint8Array;
+}
+
+export interface PackageDocumentation {
+  readme?: string;
+  changelog?: string;
+  license?: string;
+}
+
+export type SignatureStatus = 'valid' | 'unsigned' | 'invalid' | 'untrusted';
+
+/**
+ * Result of checking the packaged files against the manifest digest list
+ */
+export interface FileVerification {
+  verified: string[];
+  /** Files whose content does not match the recorded digest */
+  mismatched: string[];
+  /** Files in the package that are not in the digest list */
+  extra: string[];
+  /** Files in the digest list that are not in the package */
+  missing: string[];
+}
+
+export interface PackageValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  signature: SignatureStatus;
+  /** Fingerprint of the signing key, for signed packages */
+  publisherKey?: string;
+  /** Absent for packages built without a file digest list */
+  files?: FileVerification;
+  /** Set when the archive itself was refused */
+  errorCode?: PackageErrorCode;
+}
@@ -0,0 +1,59 @@
+/**
+ * Test vectors for canonical JSON serialization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canonicalJson } from '../canonicalJson';
+
+describe('canonicalJson', () => {
+  it.each([
+    ['primitives', [null, true, false, 'text'], '[null,true,false,"text"]'],
+    ['sorted keys', { b: 1, a: { d: [], c: {} } }, '{"a":{"c":{},"d":[]},"b":1}'],
+    ['UTF-16 key order', { 'é': 1, z: 2, A: 3 }, '{"A":3,"z":2,"é":1}'],
+    ['integers', [0, -0, 1, -1, 100], '[0,0,1,-1,100]'],
+    ['decimals', [1.5, 0.1, 1e-7, 123.456], '[1.5,0.1,1e-7,123.456]'],
+    ['large numbers', [1e21, 9007199254740991], '[1e+21,9007199254740991]'],
+    [
+      'escapes',
+      ['quote " slash \\ tab \t', '\u0001'],
+      '["quote \\" slash \\\\ tab \\t","\\u0001"]',
+    ],
+    ['undefined members', { a: undefined, b: [undefined] }, '{"b":[null]}'],
+    ['toJSON', { at: new Date('2024-01-02T03:04:05.000Z') }, '{"at":"2024-01-02T03:04:05.000Z"}'],
+  ])('should serialize %s', (_name, value, expected) => {
+    expect(canonicalJson(value)).toBe(expected);
+  });
+
+  it('should normalize Unicode to NFC', () => {
+    const decomposed = { 'cafe\u0301': 'Se\u0301rie' };
+    const composed = { 'caf\u00e9': 'S\u00e9rie' };
+
+    expect(canonicalJson(decomposed)).toBe(canonicalJson(composed));
+    expect(canonicalJson(composed)).toBe('{"caf\u00e9":"S\u00e9rie"}');
+  });
+
+  it('should ignore formatting and key order of parsed JSON', () => {
+    const compact = JSON.parse('{"version":"1.0.0","size":1.0,"tags":["a","b"]}');
+    const pretty = JSON.parse('{\n  "tags": [ "a", "b" ],\n  "size": 1,\n  "version": "1.0.0"\n}');
+
+    expect(canonicalJson(pretty)).toBe(canonicalJson(compact));
+  });
+
+  it('should distinguish semantic differences', () => {
+    const base = canonicalJson({ tags: ['a', 'b'], size: 1 });
+
+    expect(canonicalJson({ tags: ['b', 'a'], size: 1 })).not.toBe(base);
+    expect(canonicalJson({ tags: ['a', 'b'], size: '1' })).not.toBe(base);
+    expect(canonicalJson({ tags: ['a', 'b'], size: 1.01 })).not.toBe(base);
+  });
+
+  it.each([
+    ['NaN', { n: NaN }],
+    ['Infinity', [Infinity]],
+    ['BigInt', { n: BigInt(1) }],
+    ['colliding keys', { 'caf\u00e9': 1, 'cafe\u0301': 2 }],
+    ['undefined', undefined],
+  ])('should reject %s', (_name, value) => {
+    expect(() => canonicalJson(value)).toThrow(TypeError);
+  });
+});
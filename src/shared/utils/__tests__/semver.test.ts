@@ -0,0 +1,308 @@
+/**
+ * Table-driven tests for semver parsing, ordering and range matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSemver,
+  isValidSemver,
+  compareSemver,
+  matchesSemverRange,
+  isValidSemverRange,
+  isCompatibleVersion,
+  checkDependencies,
+  validateManifestStructure,
+} from '../validation';
+import { ManifestGenerator } from '../../services/ManifestGenerator';
+import type { ExtensionManifest } from '../../types';
+
+function manifestWith(requirements: Partial<ExtensionManifest['requirements']>): ExtensionManifest {
+  return {
+    requirements: {
+      minAppVersion: '1.0.0',
+      dependencies: [],
+      ...requirements,
+    },
+  } as ExtensionManifest;
+}
+
+describe('Semver', () => {
+  describe('parseSemver', () => {
+    it.each([
+      ['1.2.3', { major: 1, minor: 2, patch: 3, prerelease: [], build: [] }],
+      ['1.2.3-alpha.1', { major: 1, minor: 2, patch: 3, prerelease: ['alpha', 1], build: [] }],
+      ['1.2.3+build.5', { major: 1, minor: 2, patch: 3, prerelease: [], build: ['build', '5'] }],
+      ['0.0.0-0', { major: 0, minor: 0, patch: 0, prerelease: [0], build: [] }],
+    ])('should parse %s', (input, expected) => {
+      expect(parseSemver(input)).toEqual(expected);
+    });
+
+    it.each(['1.2', '01.2.3', '1.2.3-', '1.2.3-01', 'a.b.c', '1.2.3.4', ''])(
+      'should reject %s',
+      (input) => {
+        expect(parseSemver(input)).toBeNull();
+      }
+    );
+  });
+
+  describe('isValidSemver', () => {
+    it.each(['1.2.3', '1.2.3-Alpha.1', '1.2.3-rc-1', '1.2.3+build.5', '1.2.3-beta+exp.sha'])(
+      'should accept %s like parseSemver',
+      (input) => {
+        expect(isValidSemver(input)).toBe(true);
+        expect(parseSemver(input)).not.toBeNull();
+      }
+    );
+
+    it.each(['1.2', '01.2.3', '1.2.3-', '1.2.3-01', 'v1.2.3'])('should reject %s', (input) => {
+      expect(isValidSemver(input)).toBe(false);
+    });
+  });
+
+  describe('compareSemver', () => {
+    // Precedence example from the SemVer 2.0.0 specification, ascending
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.1',
+      '1.1.0',
+      '2.0.0',
+    ];
+
+    it.each(ordered.slice(0, -1).map((version, i) => [version, ordered[i + 1]]))(
+      'should order %s before %s',
+      (lower, higher) => {
+        expect(compareSemver(lower, higher)).toBe(-1);
+        expect(compareSemver(higher, lower)).toBe(1);
+      }
+    );
+
+    it.each([
+      ['1.0.0', '1.0.0'],
+      ['1.0.0+build.1', '1.0.0+build.2'],
+      ['1.0.0-rc.1+a', '1.0.0-rc.1'],
+    ])('should treat %s and %s as equal', (a, b) => {
+      expect(compareSemver(a, b)).toBe(0);
+    });
+
+    it('should throw on invalid versions', () => {
+      expect(() => compareSemver('1.0', '1.0.0')).toThrow(/Invalid semantic version/);
+    });
+  });
+
+  describe('matchesSemverRange', () => {
+    const cases: Array<[string, string, boolean]> = [
+      // Exact and "=" comparators
+      ['1.2.3', '1.2.3', true],
+      ['1.2.3', '=1.2.3', true],
+      ['1.2.4', '1.2.3', false],
+      ['1.2.3', 'v1.2.3', true],
+
+      // Primitive comparators
+      ['1.2.3', '<2.0.0', true],
+      ['2.0.0', '<2.0.0', false],
+      ['2.0.0', '<=2.0.0', true],
+      ['2.0.1', '<=2.0.0', false],
+      ['2.0.1', '>2.0.0', true],
+      ['2.0.0', '>2.0.0', false],
+      ['2.0.0', '>=2.0.0', true],
+      ['1.9.9', '>=2.0.0', false],
+      ['1.2.3', '>= 1.2.3', true],
+      ['2.0.0', '>1', true],
+      ['1.9.9', '>1', false],
+      ['1.3.0', '>1.2', true],
+      ['1.2.9', '>1.2', false],
+      ['1.2.9', '<=1.2', true],
+      ['1.3.0', '<=1.2', false],
+      ['1.1.9', '<1.2', true],
+      ['1.2.0', '<1.2', false],
+
+      // X-ranges
+      ['1.5.3', '1.x.x', true],
+      ['2.0.0', '1.x', false],
+      ['1.2.9', '1.2.*', true],
+      ['1.3.0', '1.2', false],
+      ['0.0.1', '*', true],
+      ['3.4.5', '', true],
+      ['1.0.0', 'x', true],
+
+      // Tilde ranges
+      ['1.2.9', '~1.2.3', true],
+      ['1.3.0', '~1.2.3', false],
+      ['1.2.2', '~1.2.3', false],
+      ['1.2.0', '~1.2', true],
+      ['1.3.0', '~1.2', false],
+      ['1.9.0', '~1', true],
+      ['2.0.0', '~1', false],
+      ['1.2.5', '~>1.2.3', true],
+      ['0.2.5', '~0.2.3', true],
+      ['0.3.0', '~0.2.3', false],
+
+      // Caret ranges
+      ['1.9.9', '^1.2.3', true],
+      ['2.0.0', '^1.2.3', false],
+      ['1.2.2', '^1.2.3', false],
+      ['0.2.9', '^0.2.3', true],
+      ['0.3.0', '^0.2.3', false],
+      ['0.0.3', '^0.0.3', true],
+      ['0.0.4', '^0.0.3', false],
+      ['1.5.0', '^1.2.x', true],
+      ['0.0.9', '^0.0.x', true],
+      ['0.1.0', '^0.0.x', false],
+      ['0.9.0', '^0.x', true],
+      ['1.0.0', '^0.x', false],
+      ['1.9.0', '^1.x', true],
+
+      // Hyphen ranges
+      ['1.2.3', '1.2.3 - 2.3.4', true],
+      ['2.3.4', '1.2.3 - 2.3.4', true],
+      ['2.3.5', '1.2.3 - 2.3.4', false],
+      ['1.2.0', '1.2 - 2.3.4', true],
+      ['1.1.9', '1.2 - 2.3.4', false],
+      ['2.3.9', '1.2.3 - 2.3', true],
+      ['2.4.0', '1.2.3 - 2.3', false],
+      ['2.9.9', '1.2.3 - 2', true],
+      ['3.0.0', '1.2.3 - 2', false],
+
+      // AND sets
+      ['1.5.0', '>=1.2.0 <2.0.0', true],
+      ['2.0.0', '>=1.2.0 <2.0.0', false],
+      ['1.1.0', '>=1.2.0 <2.0.0', false],
+      ['1.4.0', '>1.2.0 <=1.4.0', true],
+
+      // Unions
+      ['1.2.3', '1.x || >=3.0.0', true],
+      ['3.1.0', '1.x || >=3.0.0', true],
+      ['2.5.0', '1.x || >=3.0.0', false],
+      ['0.1.0', '^0.1.0 || ^1.0.0 || ^2.0.0', true],
+      ['2.2.0', '^0.1.0 || ^1.0.0 || ^2.0.0', true],
+      ['3.0.0', '^0.1.0 || ^1.0.0 || ^2.0.0', false],
+
+      // Prerelease handling
+      ['1.2.3-beta.4', '^1.2.3-beta.2', true],
+      ['1.2.3-beta.1', '^1.2.3-beta.2', false],
+      ['1.2.4-beta.4', '^1.2.3-beta.2', false],
+      ['1.2.3', '^1.2.3-beta.2', true],
+      ['2.0.0-alpha', '^1.0.0', false],
+      ['1.5.0-rc.1', '>=1.0.0', false],
+      ['1.5.0-rc.1', '>=1.5.0-rc.0', true],
+      ['1.5.0-rc.1', '1.5.0-rc.1', true],
+      ['1.0.0-alpha', '<1.0.0', false],
+
+      // Invalid input
+      ['1.2.3', 'not-a-range', false],
+      ['1.2.3', '>=1.2.3.4', false],
+      ['invalid', '*', false],
+    ];
+
+    it.each(cases)('%s satisfies "%s": %s', (version, range, expected) => {
+      expect(matchesSemverRange(version, range)).toBe(expected);
+    });
+  });
+
+  describe('isValidSemverRange', () => {
+    it.each(['^1.0.0', '~1.2', '>=1.0.0 <2.0.0', '1.2.3 - 2.3.4', '1.x || 2.x', '*'])(
+      'should accept %s',
+      (range) => {
+        expect(isValidSemverRange(range)).toBe(true);
+      }
+    );
+
+    it.each(['latest', '>>1.0.0', '1.2.3.4', '^'])('should reject %s', (range) => {
+      expect(isValidSemverRange(range)).toBe(false);
+    });
+  });
+
+  describe('isCompatibleVersion', () => {
+    it.each([
+      ['1.0.0', { minAppVersion: '1.0.0' }, true],
+      ['0.9.0', { minAppVersion: '1.0.0' }, false],
+      ['1.5.0', { minAppVersion: '1.0.0', maxAppVersion: '1.x.x' }, true],
+      ['2.0.0', { minAppVersion: '1.0.0', maxAppVersion: '1.x.x' }, false],
+      ['2.0.0', { minAppVersion: '1.0.0', maxAppVersion: '2.0.0' }, true],
+      ['2.0.1', { minAppVersion: '1.0.0', maxAppVersion: '2.0.0' }, false],
+      ['1.9.9', { minAppVersion: '1.0.0', maxAppVersion: '<2.0.0' }, true],
+      ['2.0.0', { minAppVersion: '1.0.0', maxAppVersion: '<2.0.0' }, false],
+    ])('app %s with %o: %s', (appVersion, requirements, expected) => {
+      expect(isCompatibleVersion(appVersion, manifestWith(requirements))).toBe(expected);
+    });
+
+    it('should treat an invalid app version as incompatible', () => {
+      expect(isCompatibleVersion('dev', manifestWith({ minAppVersion: '1.0.0' }))).toBe(false);
+    });
+  });
+
+  describe('maxAppVersion schema', () => {
+    function withMaxAppVersion(maxAppVersion: string): ExtensionManifest {
+      const manifest = new ManifestGenerator().createTemplatePackManifest(
+        'com.example.pack',
+        'Pack',
+        'Author',
+        'author@example.com'
+      );
+      return { ...manifest, requirements: { ...manifest.requirements, maxAppVersion } };
+    }
+
+    it.each(['2.0.0', '1.x', '<2.0.0', '>=1.0.0 <3.0.0-0', '1.x || 2.x'])(
+      'should accept %s',
+      (range) => {
+        expect(validateManifestStructure(withMaxAppVersion(range)).valid).toBe(true);
+      }
+    );
+
+    it.each(['latest', '>>2.0.0', '1.2.3.4'])('should reject %s', (range) => {
+      const result = validateManifestStructure(withMaxAppVersion(range));
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(
+        '/requirements/maxAppVersion must match format "semver-range"'
+      );
+    });
+  });
+
+  describe('checkDependencies', () => {
+    const installed: Record<string, string> = {
+      'com.example.base': '1.4.2',
+      'com.example.beta': '2.0.0-beta.1',
+    };
+    const lookup = (id: string) => installed[id];
+
+    it.each([
+      ['^1.0.0', true],
+      ['~1.4.0', true],
+      ['1.4.2', true],
+      ['>=1.5.0', false],
+      ['^2.0.0', false],
+      ['1.0.0', false],
+    ])('should evaluate com.example.base against %s', (range, satisfied) => {
+      const manifest = manifestWith({
+        dependencies: [{ id: 'com.example.base', version: range, optional: false }],
+      });
+      expect(checkDependencies(manifest, lookup).satisfied).toBe(satisfied);
+    });
+
+    it('should require prerelease opt-in', () => {
+      const manifest = manifestWith({
+        dependencies: [{ id: 'com.example.beta', version: '^2.0.0-beta.0', optional: false }],
+      });
+      expect(checkDependencies(manifest, lookup).satisfied).toBe(true);
+    });
+
+    it('should report missing and ignore optional dependencies', () => {
+      const manifest = manifestWith({
+        dependencies: [
+          { id: 'com.example.absent', version: '^1.0.0', optional: false },
+          { id: 'com.example.extra', version: '^1.0.0', optional: true },
+        ],
+      });
+      const result = checkDependencies(manifest, lookup);
+      expect(result.satisfied).toBe(false);
+      expect(result.missing.map((dep) => dep.id)).toEqual(['com.example.absent']);
+    });
+  });
+});
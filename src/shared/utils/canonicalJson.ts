@@ -0,0 +1,73 @@
+/**
+ * Canonical JSON
+ * Deterministic serialization for checksums and signatures: object keys
+ * sorted, no whitespace, numbers in their shortest round-trip form and
+ * strings in Unicode NFC (in the spirit of RFC 8785)
+ */
+
+/**
+ * Serialize a JSON-compatible value canonically
+ * Two values that are semantically equal JSON serialize to the same string,
+ * regardless of key order, formatting or Unicode composition
+ */
+export function canonicalJson(value: unknown): string {
+  const serialized = serialize(value, '$');
+  if (serialized === undefined) {
+    throw new TypeError('Cannot canonicalize a value that has no JSON representation');
+  }
+  return serialized;
+}
+
+function serialize(value: unknown, path: string): string | undefined {
+  const withToJSON = value as { toJSON?: () => unknown } | null;
+  if (typeof withToJSON?.toJSON === 'function') {
+    value = withToJSON.toJSON();
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value.normalize('NFC'));
+    case 'number':
+      return serializeNumber(value, path);
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'bigint':
+      throw new TypeError(`BigInt is not supported in canonical JSON at ${path}`);
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item, index) => serialize(item, `${path}[${index}]`) ?? 'null');
+    return `[${items.join(',')}]`;
+  }
+
+  const members = new Map<string, string>();
+  for (const [rawKey, member] of Object.entries(value as Record<string, unknown>)) {
+    const key = rawKey.normalize('NFC');
+    const serialized = serialize(member, `${path}.${key}`);
+    if (serialized === undefined) continue;
+    if (members.has(key)) {
+      throw new TypeError(`Duplicate key after Unicode normalization at ${path}: ${key}`);
+    }
+    members.set(key, serialized);
+  }
+
+  // Keys are ordered by UTF-16 code units, like Array.prototype.sort
+  const keys = [...members.keys()].sort();
+  return `{${keys.map((key) => `${JSON.stringify(key)}:${members.get(key)}`).join(',')}}`;
+}
+
+function serializeNumber(value: number, path: string): string {
+  if (!Number.isFinite(value)) {
+    throw new TypeError(`Non-finite number in canonical JSON at ${path}`);
+  }
+  // Shortest round-trip form (ECMAScript Number::toString); -0 becomes 0
+  return Object.is(value, -0) ? '0' : String(value);
+}
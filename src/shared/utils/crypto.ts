@@ -3,7 +3,24 @@
  * For checksums and digital signatures
  */
 
-import { createHash, createSign, createVerify, randomBytes } from 'crypto';
+import {
+  createHash,
+  createPublicKey,
+  createSign,
+  createVerify,
+  randomBytes,
+} from 'crypto';
+
+export type SignatureAlgorithm = 'RSA-SHA256' | 'ECDSA-SHA256';
+
+/**
+ * Both supported algorithms sign a SHA-256 digest; the key type decides
+ * whether RSA or ECDSA is used
+ */
+const SIGNATURE_DIGEST: Record<SignatureAlgorithm, string> = {
+  'RSA-SHA256': 'sha256',
+  'ECDSA-SHA256': 'sha256',
+};
 
 /**
  * Compute SHA-256 checksum of a string or buffer
@@ -34,14 +51,14 @@ export function computeChecksum(
 }
 
 /**
- * Sign data with RSA private key
+ * Sign data with an RSA or ECDSA private key
  */
 export function signData(
   data: string | Buffer,
   privateKey: string,
-  algorithm: 'RSA-SHA256' | 'ECDSA-SHA256' = 'RSA-SHA256'
+  algorithm: SignatureAlgorithm = 'RSA-SHA256'
 ): string {
-  const sign = createSign(algorithm);
+  const sign = createSign(SIGNATURE_DIGEST[algorithm]);
   sign.update(data);
   sign.end();
   
@@ -56,10 +73,10 @@ export function verifySignature(
   data: string | Buffer,
   signature: string,
   publicKey: string,
-  algorithm: 'RSA-SHA256' | 'ECDSA-SHA256' = 'RSA-SHA256'
+  algorithm: SignatureAlgorithm = 'RSA-SHA256'
 ): boolean {
   try {
-    const verify = createVerify(algorithm);
+    const verify = createVerify(SIGNATURE_DIGEST[algorithm]);
     verify.update(data);
     verify.end();
     
@@ -70,6 +87,31 @@ export function verifySignature(
   }
 }
 
+/**
+ * Signature algorithm matching a PEM key (private or public)
+ */
+export function getSignatureAlgorithm(key: string): SignatureAlgorithm {
+  const type = createPublicKey(key).asymmetricKeyType;
+  if (type === 'rsa') return 'RSA-SHA256';
+  if (type === 'ec') return 'ECDSA-SHA256';
+  throw new Error(`Unsupported signing key type: ${type}`);
+}
+
+/**
+ * Derive the PEM public key of a private key
+ */
+export function derivePublicKey(privateKey: string): string {
+  return createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+/**
+ * SHA-256 fingerprint of a public key (hex, over its DER encoding)
+ */
+export function getKeyFingerprint(publicKey: string): string {
+  const der = createPublicKey(publicKey).export({ type: 'spki', format: 'der' });
+  return computeSHA256(der);
+}
+
 /**
  * Generate random ID
  */
@@ -91,7 +133,7 @@ export function hashPassword(password: string, salt?: string): string {
  * Verify password hash
  */
 export function verifyPassword(password: string, hashedPassword: string): boolean {
-  const [salt, hash] = hashedPassword.split(':');
+  const [salt] = hashedPassword.split(':');
   const computedHash = hashPassword(password, salt);
   return computedHash === hashedPassword;
 }
@@ -4,3 +4,5 @@
 
 export * from './validation';
 export * from './crypto';
+export * from './canonicalJson';
+export * from './templates';
@@ -0,0 +1,18 @@
+/**
+ * Template Files
+ * The JSON format lesson templates are stored in under `templates/` in a
+ * package, shared by the package builder and the template editor
+ */
+
+import type { LessonTemplate } from '../types';
+
+/**
+ * Name of a template's file inside the `templates/` directory
+ */
+export function getTemplateFilename(template: Pick<LessonTemplate, 'id'>): string {
+  return `${template.id}.json`;
+}
+
+export function serializeTemplate(template: LessonTemplate): string {
+  return JSON.stringify(template, null, 2);
+}
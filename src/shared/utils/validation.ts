@@ -15,6 +15,7 @@ import manifestSchema from '../schemas/manifest.schema.json';
 
 const ajv = new Ajv({ allErrors: true });
 addFormats(ajv);
+ajv.addFormat('semver-range', (range: string) => isValidSemverRange(range));
 const validateManifestSchema = ajv.compile(manifestSchema);
 
 /**
@@ -44,103 +45,423 @@ export function validateManifestStructure(manifest: unknown): ValidationResult {
   return { valid: true, errors: [] };
 }
 
+/**
+ * Parsed semantic version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+  build: string[];
+}
+
+type ComparatorOperator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: ComparatorOperator;
+  version: SemVer;
+}
+
+const SEMVER_REGEX =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+const PARTIAL_REGEX =
+  /^v?(\*|x|X|0|[1-9]\d*)(?:\.(\*|x|X|0|[1-9]\d*)(?:\.(\*|x|X|0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?)?)?$/;
+
 /**
  * Validate semantic version format
  */
 export function isValidSemver(version: string): boolean {
-  const semverRegex = /^\d+\.\d+\.\d+(-[a-z0-9-.]+)?$/;
-  return semverRegex.test(version);
+  return parseSemver(version) !== null;
+}
+
+/**
+ * Parse a semantic version (SemVer 2.0.0), returning null when invalid
+ */
+export function parseSemver(version: string): SemVer | null {
+  const match = SEMVER_REGEX.exec(version.trim());
+  if (!match) return null;
+
+  const prerelease = match[4] ? match[4].split('.') : [];
+  // Numeric identifiers must not include leading zeroes
+  if (prerelease.some((id) => /^0\d+$/.test(id))) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: prerelease.map((id) => (/^\d+$/.test(id) ? Number(id) : id)),
+    build: match[5] ? match[5].split('.') : [],
+  };
 }
 
 /**
  * Compare two semantic versions
+ * Prerelease versions have lower precedence than the release; build
+ * metadata is ignored
  * Returns: -1 if v1 < v2, 0 if equal, 1 if v1 > v2
+ * Throws when either version is invalid; check with `isValidSemver` first
+ * when the input is not known to be valid
  */
 export function compareSemver(v1: string, v2: string): number {
-  const parts1 = v1.split('-')[0].split('.').map(Number);
-  const parts2 = v2.split('-')[0].split('.').map(Number);
-  
-  for (let i = 0; i < 3; i++) {
-    if (parts1[i] > parts2[i]) return 1;
-    if (parts1[i] < parts2[i]) return -1;
+  const parsed1 = parseSemver(v1);
+  const parsed2 = parseSemver(v2);
+  if (!parsed1 || !parsed2) {
+    throw new Error(`Invalid semantic version: ${parsed1 ? v2 : v1}`);
   }
-  
+
+  return compareParsed(parsed1, parsed2);
+}
+
+function compareParsed(a: SemVer, b: SemVer): number {
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (a[key] > b[key]) return 1;
+    if (a[key] < b[key]) return -1;
+  }
+
+  return comparePrerelease(a.prerelease, b.prerelease);
+}
+
+function comparePrerelease(a: SemVer['prerelease'], b: SemVer['prerelease']): number {
+  // A release outranks any of its prereleases
+  if (a.length === 0 && b.length === 0) return 0;
+  if (a.length === 0) return 1;
+  if (b.length === 0) return -1;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (i >= a.length) return -1;
+    if (i >= b.length) return 1;
+
+    const idA = a[i];
+    const idB = b[i];
+    if (idA === idB) continue;
+
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof idA === 'number' && typeof idB === 'number') return idA > idB ? 1 : -1;
+    if (typeof idA === 'number') return -1;
+    if (typeof idB === 'number') return 1;
+    return idA > idB ? 1 : -1;
+  }
+
   return 0;
 }
 
 /**
  * Check if version matches semver range
- * Supports: "1.0.0", "^1.0.0", "~1.0.0", "1.x.x", ">=1.0.0"
+ * Supports comparators (<, <=, >, >=, =), x-ranges ("1.x", "1.2.*"),
+ * tilde and caret ranges, hyphen ranges ("1.2.3 - 2.3.4"), space-joined
+ * AND sets and "||" unions. Prerelease versions only match comparator
+ * sets that name a prerelease of the same major.minor.patch
  */
 export function matchesSemverRange(version: string, range: string): boolean {
-  // Exact match
-  if (range === version) return true;
-  
-  // Wildcard match (1.x.x)
-  if (range.includes('x')) {
-    const rangeParts = range.split('.');
-    const versionParts = version.split('.');
-    for (let i = 0; i < rangeParts.length; i++) {
-      if (rangeParts[i] !== 'x' && rangeParts[i] !== versionParts[i]) {
-        return false;
-      }
-    }
-    return true;
+  const parsed = parseSemver(version);
+  if (!parsed) return false;
+
+  const sets = parseRange(range);
+  if (!sets) return false;
+
+  return sets.some((set) => satisfiesComparatorSet(parsed, set));
+}
+
+/**
+ * Check whether a range string uses valid syntax
+ */
+export function isValidSemverRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+function satisfiesComparatorSet(version: SemVer, set: Comparator[]): boolean {
+  for (const comparator of set) {
+    if (!satisfiesComparator(version, comparator)) return false;
   }
-  
-  // Caret range (^1.0.0) - allows minor and patch updates
-  if (range.startsWith('^')) {
-    const baseVersion = range.slice(1);
-    const comparison = compareSemver(version, baseVersion);
-    if (comparison < 0) return false;
-    
-    const baseMajor = parseInt(baseVersion.split('.')[0]);
-    const versionMajor = parseInt(version.split('.')[0]);
-    return versionMajor === baseMajor;
+
+  if (version.prerelease.length === 0) return true;
+
+  return set.some(
+    ({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === version.major &&
+      bound.minor === version.minor &&
+      bound.patch === version.patch
+  );
+}
+
+function satisfiesComparator(
+  version: SemVer,
+  { operator, version: bound }: Comparator
+): boolean {
+  const comparison = compareParsed(version, bound);
+  switch (operator) {
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    case '=':
+      return comparison === 0;
   }
-  
-  // Tilde range (~1.0.0) - allows patch updates only
-  if (range.startsWith('~')) {
-    const baseVersion = range.slice(1);
-    const comparison = compareSemver(version, baseVersion);
-    if (comparison < 0) return false;
-    
-    const [baseMajor, baseMinor] = baseVersion.split('.').map(Number);
-    const [versionMajor, versionMinor] = version.split('.').map(Number);
-    return versionMajor === baseMajor && versionMinor === baseMinor;
+}
+
+/**
+ * Parse a range into a union of comparator sets, or null when invalid
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    const set = parseComparatorSet(part.trim());
+    if (!set) return null;
+    sets.push(set);
   }
-  
-  // Greater than or equal (>=1.0.0)
-  if (range.startsWith('>=')) {
-    const baseVersion = range.slice(2);
-    return compareSemver(version, baseVersion) >= 0;
+
+  return sets;
+}
+
+function parseComparatorSet(input: string): Comparator[] | null {
+  if (input === '') return [anyVersion()];
+
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(input);
+  if (hyphen) {
+    return desugarHyphen(hyphen[1], hyphen[2]);
+  }
+
+  // Allow whitespace between an operator and its version (">= 1.2.3")
+  const tokens = input.replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/);
+  const comparators: Comparator[] = [];
+
+  for (const token of tokens) {
+    const desugared = desugarSimple(token);
+    if (!desugared) return null;
+    comparators.push(...desugared);
+  }
+
+  return comparators;
+}
+
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: Array<string | number>;
+}
+
+function parsePartial(input: string): PartialVersion | null {
+  const match = PARTIAL_REGEX.exec(input);
+  if (!match) return null;
+
+  const toNumber = (part: string | undefined) =>
+    part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part);
+
+  const major = toNumber(match[1]);
+  const minor = major === undefined ? undefined : toNumber(match[2]);
+  const patch = minor === undefined ? undefined : toNumber(match[3]);
+  const prerelease =
+    patch !== undefined && match[4]
+      ? match[4].split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id))
+      : [];
+
+  return { major, minor, patch, prerelease };
+}
+
+function semver(
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: SemVer['prerelease'] = []
+): SemVer {
+  return { major, minor, patch, prerelease, build: [] };
+}
+
+function anyVersion(): Comparator {
+  return { operator: '>=', version: semver(0, 0, 0) };
+}
+
+function noVersion(): Comparator {
+  return { operator: '<', version: semver(0, 0, 0, [0]) };
+}
+
+/**
+ * Lowest version a partial can stand for ("1.2" -> 1.2.0)
+ */
+function lowerBound(partial: PartialVersion): SemVer {
+  return semver(partial.major ?? 0, partial.minor ?? 0, partial.patch ?? 0, partial.prerelease);
+}
+
+/**
+ * First version above everything a partial stands for ("1.2" -> 1.3.0)
+ */
+function upperBound(partial: PartialVersion): SemVer | null {
+  if (partial.major === undefined) return null;
+  if (partial.minor === undefined) return semver(partial.major + 1, 0, 0);
+  return semver(partial.major, partial.minor + 1, 0);
+}
+
+function desugarHyphen(from: string, to: string): Comparator[] | null {
+  const low = parsePartial(from);
+  const high = parsePartial(to);
+  if (!low || !high) return null;
+
+  const comparators: Comparator[] = [];
+  if (low.major !== undefined) {
+    comparators.push({ operator: '>=', version: lowerBound(low) });
+  }
+
+  if (high.patch !== undefined) {
+    comparators.push({ operator: '<=', version: lowerBound(high) });
+  } else {
+    const bound = upperBound(high);
+    if (bound) comparators.push({ operator: '<', version: bound });
+  }
+
+  return comparators.length > 0 ? comparators : [anyVersion()];
+}
+
+function desugarSimple(token: string): Comparator[] | null {
+  const match = /^(<=|>=|<|>|=|\^|~>?)?(.*)$/.exec(token);
+  if (!match) return null;
+
+  const operator = match[1] ?? '';
+  const partial = parsePartial(match[2]);
+  if (!partial) return null;
+
+  switch (operator) {
+    case '^':
+      return desugarCaret(partial);
+    case '~':
+    case '~>':
+      return desugarTilde(partial);
+    case '':
+    case '=':
+      return desugarXRange(partial);
+    default:
+      return desugarPrimitive(operator as ComparatorOperator, partial);
+  }
+}
+
+function desugarXRange(partial: PartialVersion): Comparator[] {
+  if (partial.patch !== undefined) {
+    return [{ operator: '=', version: lowerBound(partial) }];
+  }
+
+  const upper = upperBound(partial);
+  if (!upper) return [anyVersion()];
+
+  return [
+    { operator: '>=', version: lowerBound(partial) },
+    { operator: '<', version: upper },
+  ];
+}
+
+function desugarTilde(partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) return [anyVersion()];
+
+  const upper =
+    partial.minor === undefined
+      ? semver(partial.major + 1, 0, 0)
+      : semver(partial.major, partial.minor + 1, 0);
+
+  return [
+    { operator: '>=', version: lowerBound(partial) },
+    { operator: '<', version: upper },
+  ];
+}
+
+function desugarCaret(partial: PartialVersion): Comparator[] {
+  const { major, minor, patch } = partial;
+  if (major === undefined) return [anyVersion()];
+
+  let upper: SemVer;
+  if (major > 0 || minor === undefined) {
+    upper = semver(major + 1, 0, 0);
+  } else if (minor > 0 || patch === undefined) {
+    upper = semver(0, minor + 1, 0);
+  } else {
+    upper = semver(0, 0, patch + 1);
+  }
+
+  return [
+    { operator: '>=', version: lowerBound(partial) },
+    { operator: '<', version: upper },
+  ];
+}
+
+function desugarPrimitive(operator: ComparatorOperator, partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    // ">=*" and "<=*" accept anything, "<*" and ">*" nothing
+    return operator === '>=' || operator === '<=' ? [anyVersion()] : [noVersion()];
+  }
+
+  if (partial.patch !== undefined) {
+    return [{ operator, version: lowerBound(partial) }];
+  }
+
+  const upper = upperBound(partial) as SemVer;
+  switch (operator) {
+    case '>':
+      return [{ operator: '>=', version: upper }];
+    case '<=':
+      return [{ operator: '<', version: upper }];
+    default:
+      return [{ operator, version: lowerBound(partial) }];
   }
-  
-  return false;
 }
 
 /**
  * Check if app version is compatible with manifest requirements
+ * `maxAppVersion` may be a plain version (inclusive upper bound) or a range
  */
 export function isCompatibleVersion(
   appVersion: string,
   manifest: ExtensionManifest
 ): boolean {
   const { minAppVersion, maxAppVersion } = manifest.requirements;
+  if (!isValidSemver(appVersion)) {
+    return false;
+  }
   
   // Check minimum version
-  if (compareSemver(appVersion, minAppVersion) < 0) {
+  if (!isValidSemver(minAppVersion) || compareSemver(appVersion, minAppVersion) < 0) {
     return false;
   }
   
   // Check maximum version if specified
-  if (maxAppVersion && !matchesSemverRange(appVersion, maxAppVersion)) {
-    return false;
+  if (maxAppVersion) {
+    if (isValidSemver(maxAppVersion)) {
+      return compareSemver(appVersion, maxAppVersion) <= 0;
+    }
+    return matchesSemverRange(appVersion, maxAppVersion);
   }
   
   return true;
 }
 
+/**
+ * Check that every required dependency is installed in a compatible version
+ * `Dependency.version` is treated as a semver range
+ */
+export function checkDependencies(
+  manifest: ExtensionManifest,
+  getInstalledVersion: (extensionId: string) => string | undefined
+): DependencyCheck {
+  const missing = manifest.requirements.dependencies
+    .filter((dep) => !dep.optional)
+    .filter((dep) => {
+      const installedVersion = getInstalledVersion(dep.id);
+      if (!installedVersion) return true;
+
+      return !matchesSemverRange(installedVersion, dep.version);
+    });
+
+  return {
+    satisfied: missing.length === 0,
+    missing,
+  };
+}
+
 /**
  * Validate extension ID format (reverse domain notation)
  */
@@ -192,9 +513,21 @@ export function validateManifest(
     errors.push('Invalid version format');
   }
   
+  const { maxAppVersion } = manifest.requirements;
+  if (maxAppVersion && !isValidSemverRange(maxAppVersion)) {
+    errors.push(`Invalid maxAppVersion range: ${maxAppVersion}`);
+  }
+
+  for (const dep of manifest.requirements.dependencies) {
+    if (!isValidSemverRange(dep.version)) {
+      errors.push(`Invalid version range for dependency ${dep.id}: ${dep.version}`);
+    }
+  }
+
   if (!isCompatibleVersion(appVersion, manifest)) {
     errors.push(
-      `Incompatible app version. Requires ${manifest.requirements.minAppVersion}+`
+      `Incompatible app version. Requires ${manifest.requirements.minAppVersion}+` +
+        (maxAppVersion ? ` (max ${maxAppVersion})` : '')
     );
   }
   